@@ -24,13 +24,14 @@ export default tseslint.config(
 	...obsidianmd.configs.recommended,
 	{
 		rules: {
-			"obsidianmd/ui/sentence-case": ["error", { acronyms: ["DOI"] }],
+			"obsidianmd/ui/sentence-case": ["error", { acronyms: ["DOI", "ID", "RIS", "CSL", "JSON", "PDF", "MB", "ORCID"], brands: ["arXiv", "Pandoc", "Zotero", "Better BibTeX"] }],
 		},
 	},
 	globalIgnores([
 		"node_modules",
 		"dist",
 		"esbuild.config.mjs",
+		"vitest.config.mts",
 		"eslint.config.js",
 		"version-bump.mjs",
 		"versions.json",
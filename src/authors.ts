@@ -0,0 +1,136 @@
+import { TFile, normalizePath } from "obsidian";
+import { Author, PaperMetadata, normalizeOrcid } from "./types";
+import { ensureFolder, fmList, fmString, sanitiseFilename } from "./note";
+import type EasyPaperImporter from "./main";
+
+/**
+ * Key used to match author names: accents folded, lower case,
+ * punctuation and extra spaces removed ("Élodie  Çelik" → "elodie celik").
+ * Different spellings such as "J. Smith" and "John Smith" only meet
+ * through a shared ORCID.
+ */
+export function authorNameKey(name: string): string {
+	return name
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+interface AuthorNoteEntry {
+	file: TFile;
+	orcid: string;
+}
+
+/** Author notes in the author folder, by ORCID and by every name they go by. */
+interface AuthorDirectory {
+	byOrcid: Map<string, AuthorNoteEntry>;
+	byName: Map<string, AuthorNoteEntry>;
+}
+
+function readAuthorDirectory(plugin: EasyPaperImporter): AuthorDirectory {
+	const { app, settings } = plugin;
+	const prefix = `${normalizePath(settings.authorFolder)}/`;
+	const directory: AuthorDirectory = { byOrcid: new Map(), byName: new Map() };
+	for (const file of app.vault.getMarkdownFiles()) {
+		if (!file.path.startsWith(prefix)) continue;
+		const fm = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const entry = { file, orcid: normalizeOrcid(fmString(fm.orcid)) };
+		addToDirectory(directory, entry, [file.basename, fmString(fm.name), ...fmList(fm.aliases)]);
+	}
+	return directory;
+}
+
+function addToDirectory(directory: AuthorDirectory, entry: AuthorNoteEntry, names: string[]): void {
+	if (entry.orcid && !directory.byOrcid.has(entry.orcid)) directory.byOrcid.set(entry.orcid, entry);
+	for (const name of names) {
+		const key = authorNameKey(name);
+		if (key && !directory.byName.has(key)) directory.byName.set(key, entry);
+	}
+}
+
+/**
+ * Find an author's note: the same ORCID always matches; otherwise the
+ * same name matches unless both sides have different ORCIDs.
+ */
+function findAuthorNote(directory: AuthorDirectory, author: Author): AuthorNoteEntry | null {
+	const byOrcid = author.orcid ? directory.byOrcid.get(author.orcid) : undefined;
+	if (byOrcid) return byOrcid;
+	const byName = directory.byName.get(authorNameKey(author.name));
+	if (!byName || (author.orcid && byName.orcid && byName.orcid !== author.orcid)) return null;
+	return byName;
+}
+
+async function createAuthorNote(plugin: EasyPaperImporter, author: Author): Promise<TFile> {
+	const { app, settings } = plugin;
+	const folder = normalizePath(settings.authorFolder);
+	await ensureFolder(app, folder);
+
+	const filename = sanitiseFilename(author.name) || "Unknown author";
+	let path = normalizePath(`${folder}/${filename}.md`);
+	let counter = 1;
+	while (app.vault.getAbstractFileByPath(path)) {
+		path = normalizePath(`${folder}/${filename} (${counter}).md`);
+		counter++;
+	}
+	return app.vault.create(path, "");
+}
+
+/**
+ * Merge what this paper says about an author into their note: the
+ * ORCID when missing, new affiliations, the spelling as an alias and
+ * a link back to the paper.
+ */
+async function updateAuthorNote(plugin: EasyPaperImporter, note: TFile, author: Author, paperFile: TFile): Promise<void> {
+	const { app } = plugin;
+	const paperLink = `[[${app.metadataCache.fileToLinktext(paperFile, note.path, true)}]]`;
+	await app.fileManager.processFrontMatter(note, (fm: Record<string, unknown>) => {
+		const name = fmString(fm.name) || author.name;
+		fm.name = name;
+		if (author.orcid && !fmString(fm.orcid)) fm.orcid = author.orcid;
+
+		const affiliations = fmList(fm.affiliations);
+		const newAffiliations = author.affiliations.filter((a) => !affiliations.includes(a));
+		if (newAffiliations.length > 0) fm.affiliations = [...affiliations, ...newAffiliations];
+
+		const aliases = fmList(fm.aliases);
+		const known = [name, note.basename, ...aliases].map(authorNameKey);
+		if (!known.includes(authorNameKey(author.name))) fm.aliases = [...aliases, author.name];
+
+		const papers = fmList(fm.papers);
+		if (!papers.includes(paperLink)) fm.papers = [...papers, paperLink];
+	});
+}
+
+const stripFolder = (linktext: string) => linktext.split("/").pop() ?? linktext;
+
+/**
+ * Create or update one note per author of a paper in the author folder
+ * and turn the paper note's `authors` property into links to them, so
+ * the graph shows co-authorship. Each link shows the name as printed
+ * on this paper.
+ */
+export async function syncAuthorNotes(plugin: EasyPaperImporter, paperFile: TFile, paper: PaperMetadata): Promise<void> {
+	const { app } = plugin;
+	if (paper.authors.length === 0) return;
+	const directory = readAuthorDirectory(plugin);
+
+	const links: string[] = [];
+	for (const author of paper.authors) {
+		let entry = findAuthorNote(directory, author);
+		if (!entry) {
+			entry = { file: await createAuthorNote(plugin, author), orcid: author.orcid };
+			// Later authors of the same paper may be the same person
+			addToDirectory(directory, entry, [author.name]);
+		}
+		await updateAuthorNote(plugin, entry.file, author, paperFile);
+
+		const target = app.metadataCache.fileToLinktext(entry.file, paperFile.path, true);
+		links.push(stripFolder(target) === author.name ? `[[${target}]]` : `[[${target}|${author.name}]]`);
+	}
+
+	await app.fileManager.processFrontMatter(paperFile, (fm: Record<string, unknown>) => {
+		fm.authors = links;
+	});
+}
@@ -0,0 +1,270 @@
+import { Editor, TFile } from "obsidian";
+import { Author, PaperMetadata, isBookType } from "./types";
+import { paperFromFrontmatter } from "./note";
+import type EasyPaperImporter from "./main";
+
+export type CitationStyle = "apa" | "ieee" | "chicago";
+export type BibliographyOrder = "appearance" | "alphabetical";
+
+/** Style names as shown in the settings. */
+export const CITATION_STYLES: Record<CitationStyle, string> = {
+	apa: "APA",
+	ieee: "IEEE",
+	chicago: "Chicago (author-date)",
+};
+
+/** Markers around the generated block; running the command again replaces everything between them. */
+const BLOCK_START = "<!-- bibliography -->";
+const BLOCK_END = "<!-- /bibliography -->";
+
+// ── Formatting ──────────────────────────────────────────────────────
+
+/** "Jean-Paul Andrew" → "J.-P. A." */
+function initials(given: string): string {
+	return given
+		.split(/\s+/)
+		.filter(Boolean)
+		.map((part) => part.split("-").map((p) => `${p.charAt(0).toUpperCase()}.`).join("-"))
+		.join(" ");
+}
+
+/** Join names as "A, B, and C" (or "A and B"); `ampersand` gives APA's "A, B, & C". */
+function joinNames(names: string[], ampersand = false): string {
+	const and = ampersand ? "&" : "and";
+	if (names.length <= 1) return names[0] ?? "";
+	if (names.length === 2) return ampersand ? `${names[0]}, & ${names[1]}` : `${names[0]} and ${names[1]}`;
+	return `${names.slice(0, -1).join(", ")}, ${and} ${names[names.length - 1]}`;
+}
+
+/** End a title with a period unless it already ends in punctuation. */
+function sentence(text: string): string {
+	const trimmed = text.trim();
+	return /[.?!]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+}
+
+const enDash = (pages: string) => pages.replace(/\s*-+\s*/g, "–");
+
+function paperLink(paper: PaperMetadata): string {
+	if (paper.doi) return `https://doi.org/${paper.doi}`;
+	if (paper.arxivId) return `https://arxiv.org/abs/${paper.arxivId}`;
+	return "";
+}
+
+const container = (paper: PaperMetadata) => paper.journal || (paper.arxivId ? "arXiv" : paper.publisher);
+
+/** "3" → "3rd ed."; editions given as text ("Rev. ed.") are kept. */
+function editionLabel(edition: string): string {
+	const n = Number(edition);
+	if (!edition || Number.isNaN(n)) return edition;
+	const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+	return `${n}${suffix} ed.`;
+}
+
+/** Smith, J. A., Doe, J., & Roe, R. (2020). Title. *Journal*, *12*(3), 45–67. https://doi.org/… */
+function formatApa(paper: PaperMetadata): string {
+	const apaName = (a: Author) => (a.given ? `${a.family}, ${initials(a.given)}` : a.family || a.name);
+	const names = paper.authors.map(apaName);
+	// APA lists up to 20 authors, then the last one after an ellipsis
+	const authors = names.length > 20
+		? `${names.slice(0, 19).join(", ")}, … ${names[names.length - 1]}`
+		: joinNames(names, true);
+	const year = `(${paper.year ?? "n.d."}).`;
+	// Books: *Title* (3rd ed.). Publisher.
+	if (isBookType(paper.type)) {
+		const edition = paper.edition ? ` (${editionLabel(paper.edition)})` : "";
+		const title = `*${paper.title.trim().replace(/\.$/, "")}*${edition}.`;
+		const book = authors ? [sentence(authors), year, title] : [title, year];
+		if (paper.publisher) book.push(sentence(paper.publisher));
+		if (paperLink(paper)) book.push(paperLink(paper));
+		return book.join(" ");
+	}
+	const parts = authors ? [sentence(authors), year, sentence(paper.title)] : [sentence(paper.title), year];
+
+	let source = container(paper) ? `*${container(paper)}*` : "";
+	if (paper.volume) source += `, *${paper.volume}*`;
+	if (paper.issue) source += `(${paper.issue})`;
+	if (paper.pages) source += `, ${enDash(paper.pages)}`;
+	if (source) parts.push(`${source}.`);
+	if (paperLink(paper)) parts.push(paperLink(paper));
+	return parts.join(" ");
+}
+
+/** J. A. Smith, J. Doe, and R. Roe, "Title," *Journal*, vol. 12, no. 3, pp. 45–67, 2020, doi: 10.…. */
+function formatIeee(paper: PaperMetadata, n: number): string {
+	const ieeeName = (a: Author) => (a.given ? `${initials(a.given)} ${a.family}` : a.family || a.name);
+	const names = paper.authors.map(ieeeName);
+	const authors = names.length > 6 ? `${names[0]} *et al.*` : joinNames(names);
+
+	const title = paper.title.trim();
+	// Books: *Title*, 3rd ed. Publisher, 2009.
+	if (isBookType(paper.type)) {
+		const book = [`*${title}*`, editionLabel(paper.edition)].filter(Boolean).join(", ");
+		const imprint = [paper.publisher, paper.year != null ? String(paper.year) : ""].filter(Boolean).join(", ");
+		return `[${n}] ${sentence([authors, book].filter(Boolean).join(", "))}${imprint ? ` ${imprint}.` : ""}`;
+	}
+	const quoted = /[?!]$/.test(title) ? `"${title}"` : `"${title},"`;
+	const details: string[] = [];
+	if (container(paper)) details.push(`*${container(paper)}*`);
+	if (paper.volume) details.push(`vol. ${paper.volume}`);
+	if (paper.issue) details.push(`no. ${paper.issue}`);
+	if (paper.pages) details.push(/[-–]/.test(paper.pages) ? `pp. ${enDash(paper.pages)}` : `p. ${paper.pages}`);
+	if (paper.year != null) details.push(String(paper.year));
+	if (paper.doi) details.push(`doi: ${paper.doi}`);
+	else if (paper.arxivId) details.push(`arXiv:${paper.arxivId}`);
+
+	const head = authors ? `${authors}, ${quoted}` : quoted;
+	return `[${n}] ${head} ${details.join(", ")}.`.replace(/,"\s*\.$/, '."');
+}
+
+/** Smith, John A., Jane Doe, and Richard Roe. 2020. "Title." *Journal* 12 (3): 45–67. https://doi.org/…. */
+function formatChicago(paper: PaperMetadata): string {
+	const names = paper.authors.map((a, i) => {
+		if (!a.given) return a.family || a.name;
+		return i === 0 ? `${a.family}, ${a.given}` : `${a.given} ${a.family}`;
+	});
+	// More than ten authors: the first seven, then "et al."
+	const authors = names.length > 10 ? `${names.slice(0, 7).join(", ")}, et al` : joinNames(names);
+	const year = sentence(String(paper.year ?? "n.d."));
+	// Books: *Title*. 3rd ed. Publisher.
+	if (isBookType(paper.type)) {
+		const title = `*${paper.title.trim().replace(/\.$/, "")}*.`;
+		const book = authors ? [sentence(authors), year, title] : [title, year];
+		if (paper.edition) book.push(sentence(editionLabel(paper.edition)));
+		if (paper.publisher) book.push(sentence(paper.publisher));
+		if (paperLink(paper)) book.push(`${paperLink(paper)}.`);
+		return book.join(" ");
+	}
+	const title = `"${sentence(paper.title)}"`;
+	const parts = authors ? [sentence(authors), year, title] : [title, year];
+
+	let source = container(paper) ? `*${container(paper)}*` : "";
+	if (paper.volume) source += ` ${paper.volume}`;
+	if (paper.issue) source += ` (${paper.issue})`;
+	if (paper.pages) source += `: ${enDash(paper.pages)}`;
+	if (source) parts.push(`${source.trim()}.`);
+	if (paperLink(paper)) parts.push(`${paperLink(paper)}.`);
+	return parts.join(" ");
+}
+
+/** Format one bibliography entry; `n` is the entry's number, used by numbered styles. */
+export function formatCitation(paper: PaperMetadata, style: CitationStyle, n: number): string {
+	switch (style) {
+		case "ieee":
+			return formatIeee(paper, n);
+		case "chicago":
+			return formatChicago(paper);
+		default:
+			return formatApa(paper);
+	}
+}
+
+// ── Finding cited papers ────────────────────────────────────────────
+
+/** Start and end offsets of the generated block, if the note has one. */
+function findBlock(content: string): { start: number; end: number } | null {
+	const start = content.indexOf(BLOCK_START);
+	if (start < 0) return null;
+	const end = content.indexOf(BLOCK_END, start);
+	return end < 0 ? null : { start, end: end + BLOCK_END.length };
+}
+
+/**
+ * Paper notes cited in `content`, in order of first appearance: links
+ * to indexed paper notes (wikilinks and markdown links, resolved through
+ * the metadata cache) and Pandoc citations of known citekeys.
+ */
+export function findCitedPapers(plugin: EasyPaperImporter, file: TFile, content: string): TFile[] {
+	const { app } = plugin;
+	const papers = plugin.paperIndex.getPapers();
+	const paperPaths = new Set(papers.map((p) => p.path));
+	const byCitekey = new Map(papers.filter((p) => p.citekey).map((p) => [p.citekey, p.path]));
+
+	// The generated block itself never counts as a citation
+	const block = findBlock(content);
+	const text = block ? content.slice(0, block.start) + content.slice(block.end) : content;
+
+	const found: Array<{ offset: number; path: string }> = [];
+	const addLink = (offset: number, linkpath: string) => {
+		const target = app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+		if (target && paperPaths.has(target.path)) found.push({ offset, path: target.path });
+	};
+	for (const m of text.matchAll(/\[\[([^\]|#^]+)[^\]]*\]\]/g)) addLink(m.index ?? 0, m[1]?.trim() ?? "");
+	for (const m of text.matchAll(/\[[^\]]*\]\(([^)\s]+)\)/g)) {
+		const target = m[1] ?? "";
+		if (/^[a-z][a-z0-9+.-]*:/i.test(target)) continue;
+		try {
+			addLink(m.index ?? 0, decodeURIComponent(target).replace(/#.*$/, ""));
+		} catch {
+			// Malformed escapes are not links to notes
+		}
+	}
+	for (const m of text.matchAll(/(^|[\s[;(-])@([A-Za-z0-9_][A-Za-z0-9_:.-]*[A-Za-z0-9_]|[A-Za-z0-9_])/g)) {
+		const path = byCitekey.get(m[2] ?? "");
+		if (path) found.push({ offset: (m.index ?? 0) + (m[1]?.length ?? 0), path });
+	}
+
+	const seen = new Set<string>();
+	return found
+		.sort((a, b) => a.offset - b.offset)
+		.filter(({ path }) => path !== file.path && !seen.has(path) && seen.add(path))
+		.map(({ path }) => app.vault.getAbstractFileByPath(path))
+		.filter((f): f is TFile => f instanceof TFile);
+}
+
+// ── The block ───────────────────────────────────────────────────────
+
+/** Sort key for alphabetical order: first author's family name, year, title. */
+function sortKey(paper: PaperMetadata): string {
+	const first = paper.authors[0];
+	return [first?.family || first?.name || paper.title, paper.year ?? "", paper.title].join(" ").toLowerCase();
+}
+
+export interface BibliographyResult {
+	/** Number of entries in the block. */
+	count: number;
+	/**
+	 * Cited notes with a DOI but no journal, in their properties or the
+	 * stored metadata; refreshing their metadata adds it.
+	 */
+	incomplete: TFile[];
+}
+
+/**
+ * Insert or update the bibliography block of the note open in `editor`
+ * with every paper note it cites, in the configured style and order.
+ * An existing block is replaced in place; otherwise the block is
+ * appended to the note. Entries are built from the notes' properties
+ * and the stored metadata.
+ */
+export async function updateBibliography(plugin: EasyPaperImporter, editor: Editor, file: TFile): Promise<BibliographyResult> {
+	const { app, settings } = plugin;
+	// Load the stored metadata first so the editor is read and written in one go
+	await plugin.metadataStore.load();
+	const content = editor.getValue();
+	const cited = findCitedPapers(plugin, file, content);
+	const papers: PaperMetadata[] = [];
+	for (const f of cited) {
+		const fm = (app.metadataCache.getFileCache(f)?.frontmatter ?? {}) as Record<string, unknown>;
+		papers.push(await plugin.metadataStore.complete(paperFromFrontmatter(fm)));
+	}
+	const incomplete = cited.filter((_f, i) => {
+		const paper = papers[i];
+		return !!paper && !!paper.doi && !paper.journal && !isBookType(paper.type);
+	});
+	if (settings.bibliographyOrder === "alphabetical") {
+		papers.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+	}
+
+	const entries = papers.map((paper, i) => formatCitation(paper, settings.bibliographyStyle, i + 1));
+	const body = entries.length > 0 ? entries.join("\n\n") : "*No cited papers found.*";
+	const text = `${BLOCK_START}\n## References\n\n${body}\n${BLOCK_END}`;
+
+	const block = findBlock(content);
+	if (block) {
+		editor.replaceRange(text, editor.offsetToPos(block.start), editor.offsetToPos(block.end));
+	} else {
+		const separator = content.trim() ? (content.endsWith("\n") ? "\n" : "\n\n") : "";
+		editor.replaceRange(`${separator}${text}\n`, editor.offsetToPos(content.length));
+	}
+	return { count: entries.length, incomplete };
+}
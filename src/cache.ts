@@ -0,0 +1,81 @@
+import { DataAdapter, normalizePath } from "obsidian";
+
+/** Not-found answers are kept briefly; a DOI may be registered later. */
+const NOT_FOUND_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** A raw provider response as stored on disk. */
+export interface CachedResponse {
+	url: string;
+	status: number;
+	headers: Record<string, string>;
+	text: string;
+	/** Epoch milliseconds when the response was fetched. */
+	fetchedAt: number;
+}
+
+/** 32-bit FNV-1a hash of a string as 8 hex digits. */
+function hashKey(s: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < s.length; i++) {
+		hash ^= s.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Raw provider responses on disk, one JSON file per URL in a folder of
+ * the plugin directory. Entries older than the TTL are stale: they are
+ * not served on their own but remain as a fallback when the network is
+ * unavailable. A TTL of 0 disables the cache.
+ */
+export class ResponseCache {
+	constructor(private adapter: DataAdapter, private dir: string, public ttlMs: number) {}
+
+	get enabled(): boolean {
+		return this.ttlMs > 0;
+	}
+
+	private pathFor(url: string): string {
+		return normalizePath(`${this.dir}/${hashKey(url)}.json`);
+	}
+
+	/** True while `entry` may be served without asking the provider. */
+	isFresh(entry: CachedResponse): boolean {
+		const ttl = entry.status === 200 ? this.ttlMs : Math.min(this.ttlMs, NOT_FOUND_TTL_MS);
+		return Date.now() - entry.fetchedAt < ttl;
+	}
+
+	async get(url: string): Promise<CachedResponse | null> {
+		if (!this.enabled) return null;
+		const path = this.pathFor(url);
+		try {
+			if (!(await this.adapter.exists(path))) return null;
+			const entry = JSON.parse(await this.adapter.read(path)) as CachedResponse;
+			// Hash collisions are unlikely but would serve another paper
+			return entry.url === url ? entry : null;
+		} catch (error) {
+			console.warn("Easy Paper Importer: Ignoring unreadable cache entry", path, error);
+			return null;
+		}
+	}
+
+	async set(entry: CachedResponse): Promise<void> {
+		if (!this.enabled) return;
+		try {
+			if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+			await this.adapter.write(this.pathFor(entry.url), JSON.stringify(entry));
+		} catch (error) {
+			// A failed write only costs a later request
+			console.warn("Easy Paper Importer: Could not write cache entry", entry.url, error);
+		}
+	}
+
+	/** Delete every cached response. Returns the number removed. */
+	async clear(): Promise<number> {
+		if (!(await this.adapter.exists(this.dir))) return 0;
+		const { files } = await this.adapter.list(this.dir);
+		for (const file of files) await this.adapter.remove(file);
+		return files.length;
+	}
+}
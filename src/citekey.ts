@@ -0,0 +1,105 @@
+import { Author, PaperMetadata } from "./types";
+
+/**
+ * Default citekey pattern. It produces the same keys as the generator
+ * used before patterns were configurable, e.g. "smith2021deep".
+ */
+export const DEFAULT_CITEKEY_PATTERN = "[auth:lower][year][shorttitle:1:lower]";
+
+const TITLE_STOPWORDS = new Set([
+	"a", "an", "the", "on", "of", "in", "for", "to", "and", "with", "by", "at", "from", "is", "are",
+]);
+
+/** Fold accents and drop anything that is not an ASCII letter or digit. */
+function asciiKey(value: string): string {
+	return (value ?? "")
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/ß/g, "ss")
+		.replace(/[^A-Za-z0-9]/g, "");
+}
+
+/** ASCII title words, optionally without stopwords. */
+function titleWords(title: string, skipStopwords: boolean): string[] {
+	return title
+		.split(/\s+/)
+		.map(asciiKey)
+		.filter((w) => w && !(skipStopwords && TITLE_STOPWORDS.has(w.toLowerCase())));
+}
+
+const surname = (author: Author | undefined) => asciiKey(author?.family ?? "");
+
+/** Pattern fields; `n` is the optional numeric argument, e.g. `[shorttitle:2]`. */
+const FIELDS: Record<string, (paper: PaperMetadata, n: number | undefined) => string> = {
+	/** First author's family name. */
+	auth: (p) => surname(p.authors[0]),
+	/** Family names of the first `n` (default all) authors. */
+	authors: (p, n) => p.authors.slice(0, n ?? p.authors.length).map(surname).join(""),
+	/** First author's family name, plus "EtAl" when there are more. */
+	authetal: (p) => surname(p.authors[0]) + (p.authors.length > 1 ? "EtAl" : ""),
+	year: (p) => (p.year != null ? String(p.year) : ""),
+	shortyear: (p) => (p.year != null ? String(p.year).slice(-2) : ""),
+	/** First `n` (default 3) title words, skipping stopwords. */
+	shorttitle: (p, n) => titleWords(p.title, true).slice(0, n ?? 3).join(""),
+	/** Every title word. */
+	title: (p) => titleWords(p.title, false).join(""),
+	/** Initials of the journal name, e.g. "PRL". */
+	journal: (p) => titleWords(p.journal, true).map((w) => w.charAt(0).toUpperCase()).join(""),
+};
+
+const MODIFIERS: Record<string, (value: string) => string> = {
+	lower: (v) => v.toLowerCase(),
+	upper: (v) => v.toUpperCase(),
+	capitalize: (v) => v.charAt(0).toUpperCase() + v.slice(1),
+};
+
+/**
+ * Build the base citekey for a paper from a pattern of `[field]` parts
+ * and literal text, e.g. "[auth:lower][year][shorttitle:1]" gives
+ * "smith2021Deep". A field takes an optional number and any modifiers,
+ * separated by colons. Characters BibTeX does not allow in keys are
+ * dropped.
+ *
+ * @throws Error when the pattern uses an unknown field or modifier
+ */
+export function generateCitekey(paper: PaperMetadata, pattern = DEFAULT_CITEKEY_PATTERN): string {
+	if (/\[[^\]]*(\[|$)/.test(pattern)) throw new Error(`Unclosed "[" in citekey pattern "${pattern}"`);
+
+	const key = pattern.replace(/\[([^\]]*)\]/g, (_m, spec: string) => {
+		const [name = "", ...args] = spec.split(":").map((s) => s.trim());
+		const field = FIELDS[name];
+		if (!field) {
+			throw new Error(`Unknown citekey field "[${name}]" (available: ${Object.keys(FIELDS).join(", ")})`);
+		}
+
+		let n: number | undefined;
+		const modifiers: Array<(value: string) => string> = [];
+		for (const arg of args) {
+			const modifier = MODIFIERS[arg];
+			if (/^\d+$/.test(arg)) n = Number(arg);
+			else if (modifier) modifiers.push(modifier);
+			else throw new Error(`Unknown citekey modifier "${arg}" in "[${spec}]"`);
+		}
+		return modifiers.reduce((value, modify) => modify(value), field(paper, n));
+	});
+
+	return key.replace(/[^A-Za-z0-9_:.-]/g, "") || "paper";
+}
+
+/**
+ * Make `base` unique against `taken` with a/b/c… suffixes
+ * (smith2021, smith2021a, smith2021b, …, smith2021aa).
+ */
+export function uniqueCitekey(base: string, taken: Set<string>): string {
+	if (!taken.has(base)) return base;
+	for (let n = 0; ; n++) {
+		let suffix = "";
+		let i = n;
+		do {
+			suffix = String.fromCharCode(97 + (i % 26)) + suffix;
+			i = Math.floor(i / 26) - 1;
+		} while (i >= 0);
+		const candidate = `${base}${suffix}`;
+		if (!taken.has(candidate)) return candidate;
+	}
+}
@@ -0,0 +1,41 @@
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Resolves once every item has been processed; worker errors are the
+ * worker's own responsibility and must be caught inside it.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+	let next = 0;
+	const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+		while (next < items.length) {
+			const item = items[next++] as T;
+			await worker(item);
+		}
+	});
+	await Promise.all(lanes);
+}
+
+/**
+ * Returns a function that resolves no sooner than `intervalMs` after
+ * the previous call resolved, spacing out requests to public APIs.
+ */
+export function createRateLimiter(intervalMs: number): () => Promise<void> {
+	let nextSlot = 0;
+	return async () => {
+		const now = Date.now();
+		const wait = Math.max(0, nextSlot - now);
+		nextSlot = Math.max(now, nextSlot) + intervalMs;
+		if (wait > 0) await new Promise((resolve) => window.setTimeout(resolve, wait));
+	};
+}
+
+/**
+ * Returns a function that runs async tasks one at a time, in call order.
+ */
+export function createSerialQueue(): <R>(task: () => Promise<R>) => Promise<R> {
+	let tail: Promise<unknown> = Promise.resolve();
+	return <R>(task: () => Promise<R>) => {
+		const run = tail.then(task, task);
+		tail = run.catch(() => undefined);
+		return run;
+	};
+}
@@ -1,14 +1,41 @@
-import { requestUrl } from "obsidian";
-import { PaperMetadata } from "./types";
+import { IdentifierType, PaperMetadata, mergePapers } from "./types";
+import { describeStatus, httpGet } from "./http";
+import { DEFAULT_PROVIDER_CHAIN, MetadataProvider, buildProviderChain, fetchFromChain } from "./providers";
+import { ArxivId, ArxivProvider } from "./providers/arxiv";
+import { PubMedProvider } from "./providers/pubmed";
+import { OpenLibraryProvider } from "./providers/openlibrary";
+import { isValidIsbn, isbnDigits, toIsbn13 } from "./isbn";
 
-const CROSSREF_API = "https://api.crossref.org/works/";
+/** A recognised identifier, e.g. { type: "pmid", value: "31452104" }. */
+export interface PaperIdentifier {
+	type: IdentifierType;
+	/** DOI, arXiv ID with optional version, PubMed ID, PMCID ("PMC…") or ISBN-13. */
+	value: string;
+}
+
+/**
+ * Publisher URLs that name the paper without containing its DOI, or
+ * that add to it. Each maps a URL to an identifier.
+ */
+const URL_PATTERNS: Array<{ host: RegExp; path: RegExp; toIdentifier: (m: RegExpMatchArray) => string }> = [
+	// nature.com/articles/s41586-020-2649-2 → 10.1038/s41586-020-2649-2
+	{ host: /(^|\.)nature\.com$/, path: /^\/articles\/([^/?#]+)/, toIdentifier: (m) => `10.1038/${m[1] ?? ""}` },
+	// Preprint servers append the version: /content/10.1101/2020.01.01.123456v2.full
+	{ host: /(^|\.)(bio|med)rxiv\.org$/, path: /^\/content\/(10\.1101\/(?:\d{4}\.\d{2}\.\d{2}\.)?\d+)/, toIdentifier: (m) => m[1] ?? "" },
+	{ host: /(^|\.)pubmed\.ncbi\.nlm\.nih\.gov$/, path: /^\/(\d+)/, toIdentifier: (m) => `PMID:${m[1] ?? ""}` },
+	{ host: /(^|\.)ncbi\.nlm\.nih\.gov$/, path: /^\/(?:pmc\/)?articles\/(PMC\d+)/i, toIdentifier: (m) => (m[1] ?? "").toUpperCase() },
+	{ host: /(^|\.)ncbi\.nlm\.nih\.gov$/, path: /^\/pubmed\/(\d+)/, toIdentifier: (m) => `PMID:${m[1] ?? ""}` },
+];
+
+/** Meta tags publishers put the DOI in, most specific first. */
+const DOI_META_TAGS = ["citation_doi", "prism.doi", "bepress_citation_doi", "dc.identifier", "dc.identifier.doi", "eprints.id_number"];
 
 /**
  * Normalise a DOI input: accept full URLs or bare DOIs.
  * Returns just the DOI identifier (e.g. "10.1234/example").
  */
 export function parseDoi(input: string): string {
-	const trimmed = input.trim();
+	const trimmed = input.trim().replace(/^doi:\s*/i, "");
 	// Handle full URLs like https://doi.org/10.1234/example
 	const urlMatch = trimmed.match(/(?:https?:\/\/)?(?:dx\.)?doi\.org\/(.+)/i);
 	if (urlMatch?.[1]) return urlMatch[1];
@@ -19,107 +46,225 @@ export function parseDoi(input: string): string {
 }
 
 /**
- * Fetch paper metadata from the CrossRef API using a DOI.
+ * Recognise an arXiv identifier in any of its usual forms:
+ * "2401.01234v2", "arXiv:2401.01234", "hep-th/9901001",
+ * arxiv.org/abs/… and arxiv.org/pdf/… URLs, or the arXiv DOI
+ * "10.48550/arXiv.2401.01234". Returns null for anything else.
+ */
+export function parseArxivId(input: string): ArxivId | null {
+	let s = input.trim();
+	s = s.replace(/^(?:https?:\/\/)?(?:www\.|export\.)?arxiv\.org\/(?:abs|pdf)\//i, "");
+	s = s.replace(/^(?:https?:\/\/)?(?:dx\.)?doi\.org\//i, "");
+	s = s.replace(/^10\.48550\/arxiv\./i, "");
+	s = s.replace(/^arxiv:\s*/i, "");
+	s = s.replace(/\.pdf$/i, "");
+
+	// New style: YYMM.NNNN(N) with optional version
+	const modern = s.match(/^(\d{4}\.\d{4,5})(v\d+)?$/i);
+	if (modern?.[1]) return { id: modern[1], version: (modern[2] ?? "").toLowerCase() };
+
+	// Old style: archive(.SUBJ)/YYMMNNN with optional version
+	const legacy = s.match(/^([a-z-]+(?:\.[a-z]{2})?\/\d{7})(v\d+)?$/i);
+	if (legacy?.[1]) return { id: legacy[1], version: (legacy[2] ?? "").toLowerCase() };
+
+	return null;
+}
+
+/**
+ * Pull every DOI and arXiv identifier out of free text (e.g. a pasted
+ * reference list), in order of first appearance and without
+ * duplicates. arXiv DOIs (10.48550/arXiv.…) are reported as arXiv ids.
+ */
+export function extractIdentifiers(text: string): string[] {
+	const found: Array<{ index: number; value: string; key: string }> = [];
+	const covered: Array<[number, number]> = [];
+
+	// DOIs: stop at whitespace/quotes and drop trailing punctuation
+	for (const m of text.matchAll(/\b10\.\d{4,9}\/[^\s"'<>]+/g)) {
+		const doi = m[0].replace(/[.,;:)\]}]+$/, "");
+		const index = m.index ?? 0;
+		covered.push([index, index + doi.length]);
+		const arxiv = parseArxivId(doi);
+		found.push({ index, value: arxiv ? `arXiv:${arxiv.id}${arxiv.version}` : doi, key: arxiv ? `arxiv:${arxiv.id.toLowerCase()}` : doi.toLowerCase() });
+	}
+
+	// arXiv: prefixed ids, abs/pdf URLs, old-style ids and bare new-style ids
+	const arxivPattern = /(?:arxiv\.org\/(?:abs|pdf)\/|arxiv:\s*)?\b(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)\b/gi;
+	for (const m of text.matchAll(arxivPattern)) {
+		const index = m.index ?? 0;
+		if (covered.some(([start, end]) => index >= start && index < end)) continue;
+		// Old-style ids are only trusted with an explicit arXiv prefix/URL
+		if (m[1]?.includes("/") && m[0] === m[1]) continue;
+		const arxiv = parseArxivId(m[1] ?? "");
+		if (!arxiv) continue;
+		found.push({ index, value: `arXiv:${arxiv.id}${arxiv.version}`, key: `arxiv:${arxiv.id.toLowerCase()}` });
+	}
+
+	const seen = new Set<string>();
+	return found
+		.sort((a, b) => a.index - b.index)
+		.filter((f) => !seen.has(f.key) && seen.add(f.key))
+		.map((f) => f.value);
+}
+
+function safeDecode(s: string): string {
+	try {
+		return decodeURIComponent(s);
+	} catch {
+		return s;
+	}
+}
+
+/**
+ * The identifier in a web page URL, e.g. a doi.org, arxiv.org or
+ * PubMed link or a publisher page such as "https://dl.acm.org/doi/10.1145/…".
+ * Returns "" when the URL does not name one; the page itself may still
+ * (see `resolveIdentifier`).
+ */
+export function identifierFromUrl(url: string): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		return "";
+	}
+	const host = parsed.hostname.toLowerCase();
+	for (const pattern of URL_PATTERNS) {
+		const match = pattern.host.test(host) ? parsed.pathname.match(pattern.path) : null;
+		if (match) return pattern.toIdentifier(match);
+	}
+
+	const arxiv = parseArxivId(`${parsed.host}${parsed.pathname}`);
+	if (arxiv) return `arXiv:${arxiv.id}${arxiv.version}`;
+
+	// Publishers append views such as /full or /pdf to the DOI in their paths
+	const path = safeDecode(parsed.pathname).replace(/\/(?:full|abstract|abs|pdf|epdf|fulltext|html)\/?$/i, "");
+	return extractIdentifiers(path)[0] ?? extractIdentifiers(safeDecode(parsed.search))[0] ?? "";
+}
+
+/**
+ * Recognise the kind of identifier in `input` without a network
+ * request: an arXiv ID, a PMCID ("PMC6814409"), an ISBN-10 or ISBN-13,
+ * a PubMed ID ("PMID: 31452104" or up to nine digits), a DOI, or a URL
+ * naming one of these. Null for a URL that names none; other text is
+ * taken to be a DOI. Throws for an ISBN with a wrong check digit.
+ */
+export function parseIdentifier(input: string): PaperIdentifier | null {
+	const trimmed = input.trim();
+	if (/^https?:\/\//i.test(trimmed) && !/^https?:\/\/(?:dx\.)?doi\.org\//i.test(trimmed)) {
+		const found = identifierFromUrl(trimmed);
+		return found ? parseIdentifier(found) : null;
+	}
+
+	const arxiv = parseArxivId(trimmed);
+	if (arxiv) return { type: "arxiv", value: `${arxiv.id}${arxiv.version}` };
+
+	const pmcid = trimmed.match(/^(?:pmcid:\s*)?(PMC\d+)$/i);
+	if (pmcid?.[1]) return { type: "pmcid", value: pmcid[1].toUpperCase() };
+
+	const isbn = isbnDigits(trimmed);
+	if (isbn) {
+		if (!isValidIsbn(isbn)) throw new Error(`${trimmed} is not a valid ISBN: its check digit does not match.`);
+		return { type: "isbn", value: toIsbn13(isbn) };
+	}
+
+	const pmid = trimmed.match(/^(?:pmid:\s*)?(\d{1,9})$/i);
+	if (pmid?.[1]) return { type: "pmid", value: pmid[1] };
+
+	return { type: "doi", value: parseDoi(trimmed) };
+}
+
+/**
+ * Read the identifier from a landing page's citation meta tags
+ * (`citation_doi`, `dc.identifier`, `citation_arxiv_id`,
+ * `citation_pmid`, …), which most publishers include for indexers.
  */
-export async function fetchPaperMetadata(doi: string): Promise<PaperMetadata> {
-	const cleanDoi = parseDoi(doi);
-	const url = `${CROSSREF_API}${encodeURIComponent(cleanDoi)}`;
-
-	const response = await requestUrl({
-		url,
-		method: "GET",
-		headers: {
-			Accept: "application/json",
-			// CrossRef asks for a polite User-Agent with contact info
-			"User-Agent": "ObsidianEasyPaperImporter/0.0.1 (https://github.com)",
-		},
-	});
-
-	if (response.status !== 200) {
-		throw new Error(`Failed to fetch DOI metadata: HTTP ${response.status}`);
+async function identifierFromLandingPage(url: string): Promise<PaperIdentifier | null> {
+	const response = await httpGet(url, "text/html", { cache: true });
+	if (response.status !== 200) throw new Error(`Could not open ${url}: ${describeStatus(response.status)}`);
+
+	const doc = new DOMParser().parseFromString(response.text, "text/html");
+	const meta = new Map<string, string[]>();
+	for (const el of Array.from(doc.querySelectorAll("meta"))) {
+		const name = (el.getAttribute("name") ?? el.getAttribute("property") ?? "").toLowerCase();
+		const content = (el.getAttribute("content") ?? "").trim();
+		if (name && content) meta.set(name, [...(meta.get(name) ?? []), content]);
 	}
 
-	const data = response.json as Record<string, unknown>;
-	const work = data.message as Record<string, unknown>;
+	for (const tag of DOI_META_TAGS) {
+		for (const content of meta.get(tag) ?? []) {
+			const doi = content.match(/10\.\d{4,9}\/\S+/)?.[0];
+			if (doi) return { type: "doi", value: doi.replace(/[.,;]+$/, "") };
+		}
+	}
+	const arxiv = parseArxivId(meta.get("citation_arxiv_id")?.[0] ?? "");
+	if (arxiv) return { type: "arxiv", value: `${arxiv.id}${arxiv.version}` };
+	const pmid = (meta.get("citation_pmid")?.[0] ?? "").match(/^\d+$/)?.[0];
+	if (pmid) return { type: "pmid", value: pmid };
+	return null;
+}
+
+/**
+ * Turn any supported input into an identifier, reading the page of
+ * URLs that do not name the paper themselves.
+ */
+export async function resolveIdentifier(input: string): Promise<PaperIdentifier> {
+	const identifier = parseIdentifier(input);
+	if (identifier) return identifier;
 
-	return parseCrossRefResponse(work, cleanDoi);
+	const fromPage = await identifierFromLandingPage(input.trim());
+	if (!fromPage) throw new Error(`No DOI, arXiv ID or PubMed ID found on ${input.trim()}.`);
+	return fromPage;
 }
 
 /**
- * Parse the CrossRef API response into our PaperMetadata format.
+ * A PubMed record, preferring the provider chain's metadata when
+ * PubMed knows the DOI. PubMed's own record is used for papers without
+ * a DOI or unknown to the chain, and fills gaps such as the PMCID.
  */
-function parseCrossRefResponse(work: Record<string, unknown>, doi: string): PaperMetadata {
-	// Title
-	const titleArray = work.title as string[] | undefined;
-	const title = titleArray?.[0] ?? "Untitled";
-
-	// Authors
-	const authorArray = work.author as Array<{ given?: string; family?: string }> | undefined;
-	const authors = (authorArray ?? []).map((a) => {
-		const parts = [a.given, a.family].filter(Boolean);
-		return parts.join(" ");
-	});
-
-	// Abstract – CrossRef sometimes includes JATS XML tags
-	const rawAbstract = (work.abstract as string) ?? "";
-	const abstract = rawAbstract.replace(/<[^>]+>/g, "").trim();
-
-	// Journal / container title
-	const containerTitle = work["container-title"] as string[] | undefined;
-	const journal = containerTitle?.[0] ?? "";
-
-	// Volume, issue, pages
-	const volume = (work.volume as string) ?? "";
-	const issue = (work.issue as string) ?? "";
-	const pages = (work.page as string) ?? "";
-
-	// Date
-	const datePublished = work["published-print"] as { "date-parts"?: number[][] } | undefined;
-	const dateOnline = work["published-online"] as { "date-parts"?: number[][] } | undefined;
-	const dateParts = datePublished?.["date-parts"]?.[0] ?? dateOnline?.["date-parts"]?.[0];
-	const year = dateParts?.[0] ?? null;
-	const month = dateParts?.[1] ?? null;
-
-	// Publisher
-	const publisher = (work.publisher as string) ?? "";
-
-	// ISSN
-	const issnArray = work.ISSN as string[] | undefined;
-	const issn = issnArray ?? [];
-
-	// Subjects
-	const subjectArray = work.subject as string[] | undefined;
-	const subjects = subjectArray ?? [];
-
-	// PDF link – look for the best open-access or primary link
-	const links = work.link as Array<{ URL: string; "content-type"?: string }> | undefined;
-	let pdfUrl = "";
-	if (links && links.length > 0) {
-		const pdfLink = links.find(
-			(l) => l["content-type"] === "application/pdf"
-		);
-		pdfUrl = pdfLink?.URL ?? links[0]?.URL ?? "";
+async function fetchByPmid(pmid: string, chain: MetadataProvider[]): Promise<PaperMetadata> {
+	const record = await new PubMedProvider().fetchByPmid(pmid);
+	if (!record) throw new Error(`PubMed ID ${pmid} was not found.`);
+	if (!record.doi) return record;
+	try {
+		return mergePapers(await fetchFromChain(record.doi, chain), record);
+	} catch (e) {
+		console.warn("Easy Paper Importer: DOI lookup failed for PubMed ID", pmid, e);
+		return record;
 	}
-	// Fallback: use the DOI URL itself as the PDF link
-	if (!pdfUrl) {
-		pdfUrl = `https://doi.org/${doi}`;
+}
+
+/**
+ * Fetch paper metadata for a DOI, arXiv ID, PubMed ID, PMCID, ISBN or
+ * the URL of a paper's page. arXiv input goes to the arXiv API, PubMed
+ * input to PubMed and ISBNs to Open Library; DOIs walk the configured
+ * provider chain (e.g. CrossRef → DataCite → OpenAlex). The kind of
+ * identifier used is recorded in `identifierType`.
+ */
+export async function fetchPaperMetadata(input: string, providers: string[] = DEFAULT_PROVIDER_CHAIN): Promise<PaperMetadata> {
+	const identifier = await resolveIdentifier(input);
+	const chain = buildProviderChain(providers);
+	let paper: PaperMetadata;
+
+	if (identifier.type === "arxiv") {
+		const arxiv = parseArxivId(identifier.value) as ArxivId;
+		const found = await new ArxivProvider().fetchById(arxiv);
+		if (!found) throw new Error(`arXiv identifier ${identifier.value} was not found.`);
+		paper = found;
+	} else if (identifier.type === "isbn") {
+		const found = await new OpenLibraryProvider().fetchByIsbn(identifier.value);
+		if (!found) throw new Error(`ISBN ${identifier.value} was not found (tried Open Library).`);
+		paper = found;
+	} else if (identifier.type === "pmid") {
+		paper = await fetchByPmid(identifier.value, chain);
+	} else if (identifier.type === "pmcid") {
+		const ids = await new PubMedProvider().idsForPmcid(identifier.value);
+		if (!ids) throw new Error(`PMCID ${identifier.value} was not found.`);
+		paper = ids.pmid ? await fetchByPmid(ids.pmid, chain) : await fetchFromChain(ids.doi, chain);
+		paper = { ...paper, pmcid: paper.pmcid || identifier.value };
+	} else {
+		paper = await fetchFromChain(identifier.value, chain);
 	}
 
-	return {
-		title,
-		authors,
-		abstract,
-		journal,
-		volume,
-		issue,
-		pages,
-		year,
-		month,
-		doi,
-		doiUrl: `https://doi.org/${doi}`,
-		pdfUrl,
-		publisher,
-		issn,
-		subjects,
-	};
+	return { ...paper, identifierType: identifier.type };
 }
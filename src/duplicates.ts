@@ -0,0 +1,159 @@
+import { TFile } from "obsidian";
+import { PaperMetadata } from "./types";
+import { fmList, fmString, paperFromFrontmatter, stripWikiLink } from "./note";
+import { DuplicateCandidate, duplicateQuery } from "./indexer";
+import type EasyPaperImporter from "./main";
+
+/** Two notes that may be the same paper. */
+export interface DuplicatePair {
+	first: TFile;
+	second: TFile;
+	match: DuplicateCandidate;
+}
+
+/** Identifiers of a paper as aliases, e.g. "10.1038/…" and "arXiv:2401.01234". */
+function identifierAliases(paper: PaperMetadata): string[] {
+	return [paper.doi, paper.arxivId ? `arXiv:${paper.arxivId}` : ""].filter(Boolean);
+}
+
+const isEmpty = (value: unknown) => value == null || value === "" || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Add the identifiers of `paper` that the note does not have yet as
+ * aliases, so the index finds the note by them from now on. Returns
+ * the aliases added.
+ */
+export async function addIdentifierAliases(plugin: EasyPaperImporter, file: TFile, paper: PaperMetadata): Promise<string[]> {
+	const fm = (plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+	const own = paperFromFrontmatter(fm);
+	const known = [...identifierAliases(own), ...fmList(fm.aliases)].map((a) => a.toLowerCase());
+	const added = identifierAliases(paper).filter((id) => !known.includes(id.toLowerCase()));
+	if (added.length === 0) return [];
+
+	await plugin.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		frontmatter.aliases = [...fmList(frontmatter.aliases), ...added];
+	});
+	plugin.paperIndex.recordImport(file.path, { doi: paper.doi, arxiv: paper.arxivId });
+	return added;
+}
+
+/** Link two notes to each other through their `related` property. */
+export async function linkRelatedNotes(plugin: EasyPaperImporter, a: TFile, b: TFile): Promise<void> {
+	const { app } = plugin;
+	const link = (from: TFile, to: TFile) => `[[${app.metadataCache.fileToLinktext(to, from.path, true)}]]`;
+	for (const [from, to] of [[a, b], [b, a]] as const) {
+		await app.fileManager.processFrontMatter(from, (fm: Record<string, unknown>) => {
+			const related = fmList(fm.related);
+			if (!related.includes(link(from, to))) fm.related = [...related, link(from, to)];
+		});
+	}
+}
+
+/**
+ * Point every link to `from` at `to` instead, keeping the text the
+ * link showed.
+ */
+async function redirectLinks(plugin: EasyPaperImporter, from: TFile, to: TFile): Promise<void> {
+	const { app } = plugin;
+	for (const [sourcePath, targets] of Object.entries(app.metadataCache.resolvedLinks)) {
+		if (!targets[from.path] || sourcePath === from.path) continue;
+		const source = app.vault.getAbstractFileByPath(sourcePath);
+		if (!(source instanceof TFile)) continue;
+
+		const cache = app.metadataCache.getFileCache(source);
+		const links = [...(cache?.links ?? []), ...(cache?.frontmatterLinks ?? [])]
+			.filter((l) => app.metadataCache.getFirstLinkpathDest(l.link.split("#")[0] ?? "", sourcePath)?.path === from.path);
+		if (links.length === 0) continue;
+
+		const linktext = app.metadataCache.fileToLinktext(to, sourcePath, true);
+		await app.vault.process(source, (content) => {
+			let updated = content;
+			for (const l of links) {
+				if (!l.original.startsWith("[[")) continue;
+				const display = l.displayText && l.displayText !== l.link ? l.displayText : from.basename;
+				updated = updated.split(l.original).join(`[[${linktext}|${display}]]`);
+			}
+			return updated;
+		});
+	}
+}
+
+/**
+ * Merge the note `remove` into `keep` and move it to the trash. The
+ * kept note's values win; properties it lacks are filled in, lists
+ * are combined, the removed note's identifiers become aliases and its
+ * body is appended under a heading. Links to the removed note are
+ * pointed at the kept one.
+ */
+export async function mergeNotes(plugin: EasyPaperImporter, keep: TFile, remove: TFile): Promise<void> {
+	const { app } = plugin;
+	const removedFm = { ...(app.metadataCache.getFileCache(remove)?.frontmatter ?? {}) } as Record<string, unknown>;
+	const removedPaper = paperFromFrontmatter(removedFm);
+
+	await app.fileManager.processFrontMatter(keep, (fm: Record<string, unknown>) => {
+		for (const [key, value] of Object.entries(removedFm)) {
+			if (key === "doi" || key === "arxiv" || key === "citekey" || key === "aliases") continue;
+			if (isEmpty(fm[key])) fm[key] = value;
+			else if (Array.isArray(fm[key]) && Array.isArray(value)) {
+				// A link from the removed note to the kept one would become a self-link
+				const added = fmList(value).filter((v) => stripWikiLink(v) !== keep.basename);
+				fm[key] = [...new Set([...fmList(fm[key]), ...added])];
+			}
+		}
+		const known = [fmString(fm.doi), fmString(fm.arxiv) ? `arXiv:${fmString(fm.arxiv)}` : ""].map((a) => a.toLowerCase());
+		const aliases = [...fmList(fm.aliases), ...fmList(removedFm.aliases), ...identifierAliases(removedPaper)]
+			.filter((a) => !known.includes(a.toLowerCase()));
+		if (aliases.length > 0) fm.aliases = [...new Set(aliases)];
+	});
+
+	// The removed note's own text, without its frontmatter
+	const content = await app.vault.read(remove);
+	const fmEnd = app.metadataCache.getFileCache(remove)?.frontmatterPosition?.end.offset ?? 0;
+	const body = content.slice(fmEnd).trim();
+	if (body) {
+		await app.vault.process(keep, (text) => `${text.replace(/\s*$/, "")}\n\n## Merged from ${remove.basename}\n\n${body}\n`);
+	}
+
+	await redirectLinks(plugin, remove, keep);
+	await app.fileManager.trashFile(remove);
+	plugin.paperIndex.recordImport(keep.path, { doi: removedPaper.doi, arxiv: removedPaper.arxivId });
+}
+
+/** Notes checked between yields to the UI while scanning the library. */
+const SCAN_BATCH_SIZE = 100;
+
+/**
+ * Pairs of paper notes in the paper folder that look like the same
+ * paper, each pair once, most certain first. The scan yields to the UI
+ * every few notes and reports its progress.
+ */
+export async function findLibraryDuplicates(
+	plugin: EasyPaperImporter,
+	onProgress?: (done: number, total: number) => void,
+): Promise<DuplicatePair[]> {
+	const { app } = plugin;
+	const files = plugin.paperIndex.getIndexedPaths()
+		.map((path) => app.vault.getAbstractFileByPath(path))
+		.filter((f): f is TFile => f instanceof TFile && plugin.isPaperNote(f));
+	const inLibrary = new Set(files.map((f) => f.path));
+
+	const pairs = new Map<string, DuplicatePair>();
+	for (const [i, file] of files.entries()) {
+		if (i > 0 && i % SCAN_BATCH_SIZE === 0) {
+			onProgress?.(i, files.length);
+			await new Promise((resolve) => window.setTimeout(resolve, 0));
+		}
+		const fm = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const query = duplicateQuery(paperFromFrontmatter(fm));
+		for (const match of plugin.paperIndex.findDuplicates(query)) {
+			const other = app.vault.getAbstractFileByPath(match.path);
+			if (match.path === file.path || !inLibrary.has(match.path) || !(other instanceof TFile)) continue;
+			const [first, second] = file.path < other.path ? [file, other] : [other, file];
+			const key = `${first.path}\n${second.path}`;
+			const existing = pairs.get(key);
+			if (!existing || existing.match.score < match.score) pairs.set(key, { first, second, match });
+		}
+	}
+	onProgress?.(files.length, files.length);
+	return [...pairs.values()].sort((a, b) => b.match.score - a.match.score);
+}
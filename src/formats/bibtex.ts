@@ -0,0 +1,511 @@
+import { Author, PaperMetadata, normalizePaper } from "../types";
+import { normalizeIsbn } from "../isbn";
+import { NameParts } from "../names";
+
+/** A raw BibTeX/BibLaTeX entry with lower-cased field names. */
+export type BibEntry = {
+	type: string;
+	key: string;
+	fields: Record<string, string>;
+};
+
+export type BibParseResult = {
+	entries: BibEntry[];
+	/** One message per entry that could not be parsed. */
+	errors: string[];
+};
+
+/** BibTeX/BibLaTeX entry type → work type. */
+const BIB_TO_WORK_TYPE: Record<string, string> = {
+	article: "journal-article",
+	inproceedings: "proceedings-article",
+	conference: "proceedings-article",
+	book: "book",
+	incollection: "book-chapter",
+	inbook: "book-chapter",
+	phdthesis: "dissertation",
+	mastersthesis: "dissertation",
+	thesis: "dissertation",
+	techreport: "report",
+	report: "report",
+	dataset: "dataset",
+	software: "software",
+	unpublished: "manuscript",
+};
+
+/** Work type → BibTeX entry type (anything else becomes @misc). */
+const WORK_TYPE_TO_BIB: Record<string, string> = {
+	"journal-article": "article",
+	"proceedings-article": "inproceedings",
+	"book": "book",
+	"monograph": "book",
+	"edited-book": "book",
+	"book-chapter": "incollection",
+	"dissertation": "phdthesis",
+	"report": "techreport",
+	"manuscript": "unpublished",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// ── Parser ──────────────────────────────────────────────────────────
+
+/**
+ * Minimal recursive-descent reader over the raw file text.
+ */
+class BibReader {
+	pos = 0;
+
+	constructor(private text: string) {}
+
+	get done(): boolean {
+		return this.pos >= this.text.length;
+	}
+
+	peek(): string {
+		return this.text[this.pos] ?? "";
+	}
+
+	skipWhitespace(): void {
+		while (!this.done && /\s/.test(this.peek())) this.pos++;
+	}
+
+	/** Read an identifier (entry type, citekey, field name or macro). */
+	readName(): string {
+		const start = this.pos;
+		while (!this.done && /[^\s,={}()"#%]/.test(this.peek())) this.pos++;
+		return this.text.slice(start, this.pos);
+	}
+
+	expect(ch: string): void {
+		this.skipWhitespace();
+		if (this.peek() !== ch) {
+			throw new Error(`expected "${ch}" at offset ${this.pos}`);
+		}
+		this.pos++;
+	}
+
+	/** Read a `{…}` group (keeping inner braces) and return its content. */
+	readBraced(): string {
+		this.expect("{");
+		const start = this.pos;
+		let depth = 1;
+		while (!this.done) {
+			const ch = this.text[this.pos++];
+			if (ch === "\\") {
+				this.pos++; // skip escaped char, e.g. \{ or \}
+			} else if (ch === "{") {
+				depth++;
+			} else if (ch === "}") {
+				depth--;
+				if (depth === 0) return this.text.slice(start, this.pos - 1);
+			}
+		}
+		throw new Error("unbalanced braces");
+	}
+
+	/** Read a `"…"` string; quotes inside braces do not terminate it. */
+	readQuoted(): string {
+		this.expect('"');
+		const start = this.pos;
+		let depth = 0;
+		while (!this.done) {
+			const ch = this.text[this.pos++];
+			if (ch === "\\") {
+				this.pos++;
+			} else if (ch === "{") {
+				depth++;
+			} else if (ch === "}") {
+				depth--;
+			} else if (ch === '"' && depth === 0) {
+				return this.text.slice(start, this.pos - 1);
+			}
+		}
+		throw new Error("unterminated string");
+	}
+
+	/** Skip a balanced `{…}` or `(…)` body, used for @comment/@preamble. */
+	skipBody(close: string): void {
+		const open = close === "}" ? "{" : "(";
+		let depth = 1;
+		while (!this.done && depth > 0) {
+			const ch = this.text[this.pos++];
+			if (ch === open) depth++;
+			else if (ch === close) depth--;
+		}
+	}
+}
+
+/**
+ * Read a field value: pieces joined with `#`, each being a braced
+ * group, a quoted string, a bare number or a @string macro.
+ */
+function readValue(reader: BibReader, macros: Record<string, string>): string {
+	const parts: string[] = [];
+	for (;;) {
+		reader.skipWhitespace();
+		const ch = reader.peek();
+		if (ch === "{") {
+			parts.push(reader.readBraced());
+		} else if (ch === '"') {
+			parts.push(reader.readQuoted());
+		} else {
+			const name = reader.readName();
+			if (!name) throw new Error(`missing value at offset ${reader.pos}`);
+			parts.push(/^\d+$/.test(name) ? name : macros[name.toLowerCase()] ?? name);
+		}
+		reader.skipWhitespace();
+		if (reader.peek() !== "#") break;
+		reader.pos++;
+	}
+	return parts.join("");
+}
+
+/** Read `name = value` pairs until the closing delimiter. */
+function readFields(reader: BibReader, close: string, macros: Record<string, string>): Record<string, string> {
+	const fields: Record<string, string> = {};
+	for (;;) {
+		reader.skipWhitespace();
+		if (reader.peek() === ",") {
+			reader.pos++;
+			continue;
+		}
+		if (reader.peek() === close) {
+			reader.pos++;
+			return fields;
+		}
+		if (reader.done) throw new Error("unexpected end of file");
+		const name = reader.readName().toLowerCase();
+		if (!name) throw new Error(`unexpected "${reader.peek()}" at offset ${reader.pos}`);
+		reader.expect("=");
+		fields[name] = readValue(reader, macros);
+	}
+}
+
+/**
+ * Parse BibTeX/BibLaTeX text into raw entries. `@string` macros are
+ * expanded, `@comment` and `@preamble` are skipped, and an entry that
+ * fails to parse is reported without aborting the rest of the file.
+ */
+export function parseBibtex(text: string): BibParseResult {
+	const reader = new BibReader(text);
+	const entries: BibEntry[] = [];
+	const errors: string[] = [];
+	const macros: Record<string, string> = {};
+	MONTHS.forEach((m, i) => (macros[m] = String(i + 1)));
+
+	while (!reader.done) {
+		const at = text.indexOf("@", reader.pos);
+		if (at < 0) break;
+		reader.pos = at + 1;
+
+		const type = reader.readName().toLowerCase();
+		reader.skipWhitespace();
+		const open = reader.peek();
+		if (!type || (open !== "{" && open !== "(")) continue;
+		reader.pos++;
+		const close = open === "{" ? "}" : ")";
+
+		if (type === "comment" || type === "preamble") {
+			reader.skipBody(close);
+			continue;
+		}
+
+		const entryStart = at;
+		try {
+			if (type === "string") {
+				const defs = readFields(reader, close, macros);
+				for (const [name, value] of Object.entries(defs)) macros[name] = value;
+				continue;
+			}
+			reader.skipWhitespace();
+			const key = reader.readName();
+			const fields = readFields(reader, close, macros);
+			entries.push({ type, key, fields });
+		} catch (e) {
+			const message = e instanceof Error ? e.message : String(e);
+			const line = text.slice(0, entryStart).split("\n").length;
+			errors.push(`Entry at line ${line}: ${message}`);
+			// Resume at the next entry
+			reader.pos = entryStart + 1;
+		}
+	}
+
+	return { entries, errors };
+}
+
+// ── LaTeX decoding ──────────────────────────────────────────────────
+
+const ACCENTS: Record<string, string> = {
+	"`": "\u0300", "'": "\u0301", "^": "\u0302", "~": "\u0303", "=": "\u0304",
+	"u": "\u0306", ".": "\u0307", '"': "\u0308", "r": "\u030A", "H": "\u030B",
+	"v": "\u030C", "d": "\u0323", "c": "\u0327", "k": "\u0328", "b": "\u0331",
+};
+
+const SYMBOLS: Record<string, string> = {
+	ss: "ß", o: "ø", O: "Ø", aa: "å", AA: "Å", ae: "æ", AE: "Æ",
+	oe: "œ", OE: "Œ", l: "ł", L: "Ł", i: "i", j: "j",
+};
+
+/**
+ * Turn LaTeX-escaped text into plain Unicode: accents (`\"{o}`,
+ * `{\'e}`), special letters (`\ss`), escaped specials (`\&`), text
+ * formatting commands (`\emph{…}`), dashes, ties and protective braces.
+ */
+export function decodeLatex(value: string): string {
+	let s = value ?? "";
+	// Special letters first so accents can sit on top of \i
+	s = s.replace(/\\(ss|aa|AA|ae|AE|oe|OE|[oOlLij])(?![A-Za-z])\s*(?:\{\})?/g, (_m, name: string) => SYMBOLS[name] ?? name);
+	// Symbol accents: \"o, \"{o}, \" o
+	s = s.replace(/\\([`'^~=".])\s*(?:\{\s*([A-Za-z])\s*\}|([A-Za-z]))/g,
+		(_m, acc: string, a?: string, b?: string) => (a ?? b ?? "") + (ACCENTS[acc] ?? ""));
+	// Letter accents need a brace or a space: \v{s}, \c c
+	s = s.replace(/\\([uvHckrdb])(?:\s*\{\s*([A-Za-z])\s*\}|\s+([A-Za-z]))/g,
+		(_m, acc: string, a?: string, b?: string) => (a ?? b ?? "") + (ACCENTS[acc] ?? ""));
+	// Escaped specials
+	s = s.replace(/\\([&%$#_{}])/g, "$1");
+	// Formatting commands: keep their argument
+	s = s.replace(/\\(?:emph|textit|textbf|textsc|texttt|textrm|textsf|mathrm|mathit|mathbf|text|url|mbox)\s*\{/g, "{");
+	// Any other command without an argument is dropped
+	s = s.replace(/\\[A-Za-z]+\s*/g, "");
+	s = s.replace(/---/g, "—").replace(/--/g, "–");
+	s = s.replace(/(^|[^\\])~/g, "$1 ");
+	s = s.replace(/[{}]/g, "");
+	return s.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+// ── Mapping to PaperMetadata ────────────────────────────────────────
+
+/** Split a value at top-level (brace depth 0) occurrences of `sep`. */
+function splitTopLevel(value: string, sep: RegExp): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let current = "";
+	const tokens = value.split(/([{}])/);
+	for (const token of tokens) {
+		if (token === "{") depth++;
+		if (token === "}") depth--;
+		if (depth === 0 && token !== "}" && sep.test(token)) {
+			const pieces = token.split(sep);
+			current += pieces.shift() ?? "";
+			for (const piece of pieces) {
+				parts.push(current);
+				current = piece;
+			}
+		} else {
+			current += token;
+		}
+	}
+	parts.push(current);
+	return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a BibTeX name list ("Doe, Jane and John Smith and {ACME Corp}")
+ * into given and family names. Braced groups stay together, so
+ * "Gabriel {García Márquez}" and "{ACME Corp}" keep their family name.
+ */
+export function parseBibNames(value: string): NameParts[] {
+	return splitTopLevel(value, /\s+and\s+/i).map((raw) => {
+		const parts = splitTopLevel(raw, /,/);
+		// "von Last, Jr, First" or "von Last, First"
+		if (parts.length >= 2) {
+			const last = parts[0] ?? "";
+			const jr = parts.length >= 3 ? parts[1] : "";
+			return {
+				given: decodeLatex(parts[parts.length - 1] ?? ""),
+				family: decodeLatex([last, jr].filter(Boolean).join(" ")),
+			};
+		}
+		// "First von Last": the family name starts at the first lower-case word
+		const words = splitTopLevel(raw, /\s+/);
+		if (words.length < 2) return { given: "", family: decodeLatex(raw) };
+		let familyStart = words.length - 1;
+		for (let i = 1; i < words.length - 1; i++) {
+			if (/^[a-z]/.test(words[i] ?? "")) {
+				familyStart = i;
+				break;
+			}
+		}
+		return {
+			given: decodeLatex(words.slice(0, familyStart).join(" ")),
+			family: decodeLatex(words.slice(familyStart).join(" ")),
+		};
+	}).filter((name) => name.family || name.given);
+}
+
+function parseMonth(value: string | undefined): number | null {
+	if (!value) return null;
+	const v = value.trim().toLowerCase();
+	if (/^\d{1,2}$/.test(v)) return Number(v);
+	const index = MONTHS.indexOf(v.slice(0, 3));
+	return index >= 0 ? index + 1 : null;
+}
+
+/** Strip common DOI prefixes/URLs that people put in the doi field. */
+function cleanDoi(value: string): string {
+	return value.trim()
+		.replace(/^https?:\/\/(dx\.)?doi\.org\//i, "")
+		.replace(/^doi:\s*/i, "");
+}
+
+/**
+ * Map a raw BibTeX entry onto PaperMetadata using the BibTeX fields
+ * directly (no network). BibLaTeX names (journaltitle, date, …) are
+ * accepted alongside the classic ones.
+ */
+export function bibEntryToPaper(entry: BibEntry): PaperMetadata {
+	const f = entry.fields;
+	const text = (name: string) => decodeLatex(f[name] ?? "");
+
+	// BibLaTeX "date" may be "2021", "2021-03" or "2021-03-04/2021-05"
+	const dateMatch = (f.date ?? "").match(/^(\d{4})(?:-(\d{2}))?/);
+	const yearValue = f.year ? Number((f.year.match(/\d{4}/) ?? [])[0]) : (dateMatch?.[1] ? Number(dateMatch[1]) : NaN);
+	const month = parseMonth(f.month) ?? (dateMatch?.[2] ? Number(dateMatch[2]) : null);
+
+	// DOIs and URLs are verbatim: "~" and "--" are part of them, only escaped specials are undone
+	const verbatim = (name: string) => (f[name] ?? "").replace(/\\([&%$#_])/g, "$1").trim();
+	const doi = cleanDoi(verbatim("doi"));
+	const url = verbatim("url");
+
+	// arXiv e-prints: eprint + archivePrefix/eprinttype
+	const archive = (f.archiveprefix ?? f.eprinttype ?? "").toLowerCase();
+	const eprint = decodeLatex(f.eprint ?? "");
+	const arxivMatch = archive === "arxiv" ? eprint.match(/^(.+?)(v\d+)?$/i) : null;
+
+	const keywords = text("keywords");
+
+	return normalizePaper({
+		title: text("title") || "Untitled",
+		// Edited books without authors are cited by their editors
+		authors: parseBibNames(f.author ?? f.editor ?? ""),
+		editors: parseBibNames(f.editor ?? ""),
+		edition: text("edition"),
+		isbn: text("isbn").split(/\s*[,;]\s*/).map(normalizeIsbn).filter(Boolean),
+		abstract: text("abstract"),
+		journal: text("journaltitle") || text("journal") || text("booktitle"),
+		volume: text("volume"),
+		issue: text("number") || text("issue"),
+		pages: text("pages").replace(/\s*[–—-]+\s*/g, "-"),
+		year: isNaN(yearValue) ? null : yearValue,
+		month,
+		doi,
+		doiUrl: doi ? `https://doi.org/${doi}` : url,
+		pdfUrl: /\.pdf($|\?)/i.test(url) ? url : "",
+		publisher: text("publisher"),
+		issn: text("issn") ? [text("issn")] : [],
+		subjects: keywords ? keywords.split(/\s*[,;]\s*/).filter(Boolean) : [],
+		type: arxivMatch ? "posted-content" : BIB_TO_WORK_TYPE[entry.type] ?? "other",
+		source: "bibtex",
+		arxivId: arxivMatch?.[1] ?? "",
+		arxivVersion: (arxivMatch?.[2] ?? "").toLowerCase(),
+		arxivCategory: text("primaryclass"),
+		citekey: entry.key,
+	});
+}
+
+// ── Writer ──────────────────────────────────────────────────────────
+
+const ACCENT_COMMANDS: Record<string, string> = Object.fromEntries(
+	Object.entries(ACCENTS).map(([cmd, mark]) => [mark, cmd]),
+);
+
+const SYMBOL_COMMANDS: Record<string, string> = {
+	"ß": "\\ss", "ø": "\\o", "Ø": "\\O", "å": "\\aa", "Å": "\\AA", "æ": "\\ae",
+	"Æ": "\\AE", "œ": "\\oe", "Œ": "\\OE", "ł": "\\l", "Ł": "\\L",
+};
+
+/**
+ * Escape plain text for a BibTeX field: LaTeX specials are escaped,
+ * accented letters become `{\"o}` and dashes become `--`/`---`.
+ * Characters with no LaTeX equivalent are left as UTF-8.
+ */
+export function encodeLatex(value: string): string {
+	let s = (value ?? "").normalize("NFC");
+	s = s.replace(/[\\{}&%$#_~^]/g, (ch) => {
+		switch (ch) {
+			case "\\": return "\\textbackslash{}";
+			case "~": return "\\textasciitilde{}";
+			case "^": return "\\textasciicircum{}";
+			default: return `\\${ch}`;
+		}
+	});
+	s = s.replace(/[ßøØåÅæÆœŒłŁ]/g, (ch) => `{${SYMBOL_COMMANDS[ch] ?? ch}}`);
+	// Decompose accented letters and rebuild them as LaTeX accent commands
+	s = s.normalize("NFD").replace(/([A-Za-z])([\u0300-\u036f])/g, (m, letter: string, mark: string) => {
+		const cmd = ACCENT_COMMANDS[mark];
+		if (!cmd) return m;
+		return /[A-Za-z]/.test(cmd) ? `{\\${cmd}{${letter}}}` : `{\\${cmd}${letter}}`;
+	}).normalize("NFC");
+	return s.replace(/—/g, "---").replace(/–/g, "--");
+}
+
+/** Brace words with inner capitals (DNA, iPhone) so styles keep their case. */
+function protectCase(title: string): string {
+	return title.split(/(\s+)/).map((word) => {
+		const plain = word.replace(/\\[A-Za-z]+|\\.|[{}]/g, "");
+		const innerCapital = plain.split(/-+/).some((part) => /[A-Z]/.test(part.slice(1)));
+		return innerCapital ? `{${word}}` : word;
+	}).join("");
+}
+
+/**
+ * Convert an author into BibTeX "Family, Given" form, keeping
+ * lower-case particles (van, de, von) with the family name.
+ */
+export function toBibName({ given, family }: Author): string {
+	if (given) return encodeLatex(`${family}, ${given}`);
+	// Organisations are braced so they are not read back as "Given Family"
+	return /\s/.test(family) ? `{${encodeLatex(family)}}` : encodeLatex(family);
+}
+
+/** Pick the BibTeX entry type for a paper from its work type. */
+export function bibtexEntryType(paper: PaperMetadata): string {
+	const mapped = WORK_TYPE_TO_BIB[paper.type];
+	if (mapped) return mapped;
+	if (!paper.type && paper.journal && !paper.arxivId) return "article";
+	return "misc";
+}
+
+/**
+ * Serialise one paper as a BibTeX entry under the given citekey.
+ */
+export function formatBibtexEntry(citekey: string, paper: PaperMetadata): string {
+	const type = bibtexEntryType(paper);
+	const lines: string[] = [];
+	const add = (name: string, value: string) => {
+		if (value) lines.push(`  ${name} = {${value}},`);
+	};
+
+	add("author", paper.authors.map(toBibName).join(" and "));
+	add("editor", paper.editors.map(toBibName).join(" and "));
+	add("title", protectCase(encodeLatex(paper.title)));
+	if (type === "inproceedings" || type === "incollection") {
+		add("booktitle", encodeLatex(paper.journal));
+	} else if (!paper.arxivId || paper.journal !== "arXiv") {
+		add("journal", encodeLatex(paper.journal));
+	}
+	add("year", paper.year != null ? String(paper.year) : "");
+	// Month macros are written bare so every style can localise them
+	if (paper.month != null && paper.month >= 1 && paper.month <= 12) {
+		lines.push(`  month = ${MONTHS[paper.month - 1]},`);
+	}
+	add("volume", encodeLatex(paper.volume));
+	add("number", encodeLatex(paper.issue));
+	add("pages", paper.pages.replace(/\s*[-–—]+\s*/g, "--"));
+	add("publisher", encodeLatex(paper.publisher));
+	add("doi", paper.doi);
+	add("url", paper.doiUrl);
+	add("issn", paper.issn.join(", "));
+	add("isbn", paper.isbn.join(", "));
+	add("edition", encodeLatex(paper.edition));
+	if (paper.arxivId) {
+		add("eprint", paper.arxivId + paper.arxivVersion);
+		add("archiveprefix", "arXiv");
+		add("primaryclass", paper.arxivCategory);
+	}
+	add("keywords", encodeLatex(paper.subjects.join(", ")));
+	add("abstract", encodeLatex(paper.abstract));
+
+	return `@${type}{${citekey},\n${lines.join("\n")}\n}`;
+}
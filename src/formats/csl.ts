@@ -0,0 +1,149 @@
+import { Author, PaperMetadata, normalizePaper } from "../types";
+import { normalizeIsbn } from "../isbn";
+
+type CslName = { family?: string; given?: string; literal?: string };
+
+/** The subset of a CSL-JSON item this plugin reads and writes. */
+export interface CslItem {
+	id: string;
+	type: string;
+	"citation-key"?: string;
+	title?: string;
+	author?: CslName[];
+	editor?: CslName[];
+	"container-title"?: string;
+	volume?: string | number;
+	issue?: string | number;
+	page?: string | number;
+	issued?: { "date-parts"?: Array<Array<number | string>>; raw?: string };
+	DOI?: string;
+	URL?: string;
+	abstract?: string;
+	publisher?: string;
+	ISSN?: string | string[];
+	ISBN?: string | string[];
+	edition?: string | number;
+	keyword?: string;
+	number?: string | number;
+}
+
+/** CSL item type → work type. */
+const CSL_TO_WORK_TYPE: Record<string, string> = {
+	"article-journal": "journal-article",
+	"paper-conference": "proceedings-article",
+	"book": "book",
+	"chapter": "book-chapter",
+	"thesis": "dissertation",
+	"report": "report",
+	"dataset": "dataset",
+	"software": "software",
+	"article": "posted-content",
+	"manuscript": "manuscript",
+};
+
+/** Work type → CSL item type (anything else becomes "document"). */
+const WORK_TYPE_TO_CSL: Record<string, string> = {
+	"journal-article": "article-journal",
+	"proceedings-article": "paper-conference",
+	"book": "book",
+	"monograph": "book",
+	"edited-book": "book",
+	"book-chapter": "chapter",
+	"dissertation": "thesis",
+	"report": "report",
+	"dataset": "dataset",
+	"software": "software",
+	"posted-content": "article",
+	"manuscript": "manuscript",
+};
+
+/**
+ * Parse a CSL-JSON export. Accepts the usual top-level array as well
+ * as a single item or an `{ items: [...] }` wrapper.
+ */
+export function parseCslJson(text: string): CslItem[] {
+	const data = JSON.parse(text) as unknown;
+	if (Array.isArray(data)) return data as CslItem[];
+	if (data && typeof data === "object") {
+		const wrapped = (data as { items?: unknown }).items;
+		if (Array.isArray(wrapped)) return wrapped as CslItem[];
+		return [data as CslItem];
+	}
+	throw new Error("Not a CSL-JSON document");
+}
+
+/** A CSL variable as a string; exporters write numbers for some, e.g. page. */
+const str = (value: unknown): string => (typeof value === "string" || typeof value === "number" ? String(value) : "");
+
+/**
+ * Map a CSL-JSON item onto PaperMetadata.
+ */
+export function cslItemToPaper(item: CslItem): PaperMetadata {
+	const dateParts = item.issued?.["date-parts"]?.[0] ?? [];
+	const rawYear = Number(dateParts[0] ?? str(item.issued?.raw).slice(0, 4));
+	const rawMonth = Number(dateParts[1]);
+	const doi = str(item.DOI).replace(/^https?:\/\/(dx\.)?doi\.org\//i, "");
+	const arxiv = str(item.number).match(/^arxiv:\s*(.+?)(v\d+)?$/i);
+	const list = (value: unknown) => (Array.isArray(value) ? value.map(str) : str(value).split(/\s*,\s*/).filter(Boolean));
+	const fromCslName = (a: CslName) => (a.literal
+		? { name: a.literal, family: a.literal }
+		: { given: a.given ?? "", family: a.family ?? "" });
+
+	return normalizePaper({
+		title: str(item.title) || "Untitled",
+		authors: (item.author ?? []).map(fromCslName),
+		editors: (item.editor ?? []).map(fromCslName),
+		abstract: str(item.abstract),
+		journal: str(item["container-title"]),
+		volume: str(item.volume),
+		issue: str(item.issue),
+		pages: str(item.page).replace(/\s*[–—-]+\s*/g, "-"),
+		year: isNaN(rawYear) || rawYear === 0 ? null : rawYear,
+		month: isNaN(rawMonth) ? null : rawMonth,
+		doi,
+		doiUrl: doi ? `https://doi.org/${doi}` : str(item.URL),
+		publisher: str(item.publisher),
+		issn: list(item.ISSN),
+		isbn: list(item.ISBN).map(normalizeIsbn).filter(Boolean),
+		edition: str(item.edition),
+		subjects: str(item.keyword).split(/\s*[,;]\s*/).filter(Boolean),
+		type: CSL_TO_WORK_TYPE[item.type] ?? "other",
+		source: "csl-json",
+		arxivId: arxiv?.[1] ?? "",
+		arxivVersion: (arxiv?.[2] ?? "").toLowerCase(),
+		citekey: str(item["citation-key"]),
+	});
+}
+
+const toCslName = ({ given, family }: Author): CslName => (given ? { family, given } : { literal: family });
+
+/**
+ * Convert a paper into a CSL-JSON item with the given id/citekey.
+ */
+export function paperToCslItem(id: string, paper: PaperMetadata): CslItem {
+	const item: CslItem = {
+		id,
+		type: WORK_TYPE_TO_CSL[paper.type] ?? (paper.journal ? "article-journal" : "document"),
+		"citation-key": id,
+		title: paper.title,
+		author: paper.authors.map(toCslName),
+	};
+	if (paper.editors.length > 0) item.editor = paper.editors.map(toCslName);
+	if (paper.journal) item["container-title"] = paper.journal;
+	if (paper.volume) item.volume = paper.volume;
+	if (paper.issue) item.issue = paper.issue;
+	if (paper.pages) item.page = paper.pages;
+	if (paper.year != null) {
+		item.issued = { "date-parts": [paper.month != null ? [paper.year, paper.month] : [paper.year]] };
+	}
+	if (paper.doi) item.DOI = paper.doi;
+	if (paper.doiUrl) item.URL = paper.doiUrl;
+	if (paper.abstract) item.abstract = paper.abstract;
+	if (paper.publisher) item.publisher = paper.publisher;
+	if (paper.issn.length > 0) item.ISSN = paper.issn.join(", ");
+	if (paper.isbn.length > 0) item.ISBN = paper.isbn.join(", ");
+	if (paper.edition) item.edition = paper.edition;
+	if (paper.subjects.length > 0) item.keyword = paper.subjects.join(", ");
+	if (paper.arxivId) item.number = `arXiv:${paper.arxivId}${paper.arxivVersion}`;
+	return item;
+}
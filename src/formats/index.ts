@@ -0,0 +1,78 @@
+import { ImportRecord } from "../importer";
+import type { LibraryEntry } from "../library";
+import { bibEntryToPaper, formatBibtexEntry, parseBibtex } from "./bibtex";
+import { formatRisRecord, parseRis, risRecordToPaper } from "./ris";
+import { cslItemToPaper, paperToCslItem, parseCslJson } from "./csl";
+
+/**
+ * A library file format the bulk importer can read and the exporter
+ * can write.
+ */
+export interface LibraryFormat {
+	/** Display name, e.g. "BibTeX". */
+	name: string;
+	/** File extensions without the dot; the first is used for exports. */
+	extensions: string[];
+	read(text: string): { records: ImportRecord[]; errors: string[] };
+	write(entries: LibraryEntry[]): string;
+}
+
+export const BIBTEX_FORMAT: LibraryFormat = {
+	name: "BibTeX",
+	extensions: ["bib"],
+	read(text) {
+		const { entries, errors } = parseBibtex(text);
+		const records = entries.map((entry) => ({
+			label: entry.key || entry.fields.title || entry.type,
+			paper: bibEntryToPaper(entry),
+		}));
+		return { records, errors };
+	},
+	write(entries) {
+		return entries.map((e) => formatBibtexEntry(e.citekey, e.paper)).join("\n\n") + "\n";
+	},
+};
+
+export const RIS_FORMAT: LibraryFormat = {
+	name: "RIS",
+	extensions: ["ris"],
+	read(text) {
+		const records = parseRis(text).map((record, i) => ({
+			label: record.ID?.[0] || record.TI?.[0] || record.T1?.[0] || `Record ${i + 1}`,
+			paper: risRecordToPaper(record),
+		}));
+		return { records, errors: [] };
+	},
+	write(entries) {
+		return entries.map((e) => formatRisRecord(e.citekey, e.paper)).join("\n\n") + "\n";
+	},
+};
+
+export const CSL_JSON_FORMAT: LibraryFormat = {
+	name: "CSL-JSON",
+	extensions: ["json"],
+	read(text) {
+		let items;
+		try {
+			items = parseCslJson(text);
+		} catch (e) {
+			return { records: [], errors: [e instanceof Error ? e.message : String(e)] };
+		}
+		const records: ImportRecord[] = [];
+		const errors: string[] = [];
+		items.forEach((item, i) => {
+			const label = String(item?.["citation-key"] || item?.id || item?.title || `Item ${i + 1}`);
+			try {
+				records.push({ label, paper: cslItemToPaper(item) });
+			} catch (e) {
+				errors.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+			}
+		});
+		return { records, errors };
+	},
+	write(entries) {
+		return JSON.stringify(entries.map((e) => paperToCslItem(e.citekey, e.paper)), null, 2) + "\n";
+	},
+};
+
+export const LIBRARY_FORMATS = [BIBTEX_FORMAT, RIS_FORMAT, CSL_JSON_FORMAT];
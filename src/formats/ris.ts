@@ -0,0 +1,179 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { fromInvertedName } from "../names";
+import { normalizeIsbn } from "../isbn";
+
+/** A raw RIS record: tag → values in file order. */
+export type RisRecord = Record<string, string[]>;
+
+/** RIS reference type → work type. */
+const RIS_TO_WORK_TYPE: Record<string, string> = {
+	JOUR: "journal-article",
+	JFULL: "journal-article",
+	EJOUR: "journal-article",
+	MGZN: "journal-article",
+	CONF: "proceedings-article",
+	CPAPER: "proceedings-article",
+	BOOK: "book",
+	EBOOK: "book",
+	EDBOOK: "edited-book",
+	CHAP: "book-chapter",
+	ECHAP: "book-chapter",
+	THES: "dissertation",
+	RPRT: "report",
+	DATA: "dataset",
+	COMP: "software",
+	UNPB: "posted-content",
+	MANSCPT: "manuscript",
+};
+
+/** Work type → RIS reference type (anything else becomes GEN). */
+const WORK_TYPE_TO_RIS: Record<string, string> = {
+	"journal-article": "JOUR",
+	"proceedings-article": "CPAPER",
+	"book": "BOOK",
+	"monograph": "BOOK",
+	"edited-book": "EDBOOK",
+	"book-chapter": "CHAP",
+	"dissertation": "THES",
+	"report": "RPRT",
+	"dataset": "DATA",
+	"software": "COMP",
+	"posted-content": "UNPB",
+	"manuscript": "MANSCPT",
+};
+
+/**
+ * Parse RIS text into raw records. Lines without a tag continue the
+ * previous value (some exporters wrap long abstracts).
+ */
+export function parseRis(text: string): RisRecord[] {
+	const records: RisRecord[] = [];
+	let current: RisRecord | null = null;
+	let lastTag = "";
+
+	const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+	for (const line of lines) {
+		const match = line.match(/^([A-Z][A-Z0-9])\s{1,2}-(?: (.*))?$/);
+		if (!match) {
+			const values = current?.[lastTag];
+			if (values && line.trim()) values[values.length - 1] += ` ${line.trim()}`;
+			continue;
+		}
+		const tag = match[1] ?? "";
+		const value = (match[2] ?? "").trim();
+		if (tag === "TY") {
+			// Tolerate a missing ER by closing the previous record
+			if (current) records.push(current);
+			current = { TY: [value] };
+		} else if (tag === "ER") {
+			if (current) records.push(current);
+			current = null;
+		} else if (current) {
+			(current[tag] ??= []).push(value);
+		}
+		lastTag = tag;
+	}
+	if (current) records.push(current);
+
+	return records;
+}
+
+/** Split "2021/03/04/other" or "2021-03-04" into year and month. */
+function parseRisDate(value: string | undefined): { year: number | null; month: number | null } {
+	const match = (value ?? "").match(/^(\d{4})(?:[/-](\d{1,2}))?/);
+	return {
+		year: match?.[1] ? Number(match[1]) : null,
+		month: match?.[2] ? Number(match[2]) : null,
+	};
+}
+
+/**
+ * Map a raw RIS record onto PaperMetadata.
+ */
+export function risRecordToPaper(record: RisRecord): PaperMetadata {
+	const first = (...tags: string[]) => {
+		for (const tag of tags) {
+			const value = record[tag]?.find(Boolean);
+			if (value) return value;
+		}
+		return "";
+	};
+	const all = (...tags: string[]) => tags.flatMap((tag) => record[tag] ?? []).filter(Boolean);
+
+	const startPage = first("SP");
+	const endPage = first("EP");
+	// Some exporters put the whole range in SP
+	const pages = endPage && endPage !== startPage ? `${startPage}-${endPage}` : startPage;
+
+	const fullDate = parseRisDate(first("DA"));
+	const date = fullDate.year != null ? fullDate : parseRisDate(first("PY", "Y1"));
+	const doi = first("DO").replace(/^https?:\/\/(dx\.)?doi\.org\//i, "");
+	const pdfUrl = first("L1");
+	// SN holds the ISBN of books and the ISSN of serials
+	const isbn = all("SN").map(normalizeIsbn).filter(Boolean);
+
+	return normalizePaper({
+		title: first("TI", "T1", "CT") || "Untitled",
+		authors: all("AU", "A1").map(fromInvertedName),
+		abstract: first("AB", "N2"),
+		journal: first("JF", "JO", "T2", "BT", "JA", "J2"),
+		volume: first("VL"),
+		issue: first("IS", "CP"),
+		pages,
+		year: date.year,
+		month: date.month,
+		doi,
+		doiUrl: doi ? `https://doi.org/${doi}` : first("UR"),
+		pdfUrl,
+		publisher: first("PB"),
+		issn: all("SN").filter((sn) => !normalizeIsbn(sn)),
+		editors: all("ED", "A2").map(fromInvertedName),
+		edition: first("ET"),
+		isbn,
+		subjects: all("KW"),
+		type: RIS_TO_WORK_TYPE[first("TY")] ?? "other",
+		source: "ris",
+	});
+}
+
+/**
+ * Serialise one paper as an RIS record, using `id` as the ID tag.
+ */
+export function formatRisRecord(id: string, paper: PaperMetadata): string {
+	const lines: string[] = [];
+	const add = (tag: string, value: string | number | null | undefined) => {
+		const v = value == null ? "" : String(value).replace(/\s*\n\s*/g, " ").trim();
+		if (v) lines.push(`${tag}  - ${v}`);
+	};
+
+	add("TY", WORK_TYPE_TO_RIS[paper.type] ?? (paper.journal ? "JOUR" : "GEN"));
+	add("ID", id);
+	add("TI", paper.title);
+	for (const { given, family } of paper.authors) {
+		add("AU", given ? `${family}, ${given}` : family);
+	}
+	for (const { given, family } of paper.editors) {
+		add("ED", given ? `${family}, ${given}` : family);
+	}
+	add(paper.type === "journal-article" || !paper.type ? "JO" : "T2", paper.journal);
+	add("VL", paper.volume);
+	add("IS", paper.issue);
+	const [startPage, endPage] = paper.pages.split(/\s*[-–—]+\s*/);
+	add("SP", startPage);
+	add("EP", endPage);
+	add("PY", paper.year);
+	if (paper.year != null && paper.month != null) {
+		add("DA", `${paper.year}/${String(paper.month).padStart(2, "0")}`);
+	}
+	add("DO", paper.doi);
+	add("UR", paper.doiUrl);
+	if (/\.pdf($|\?)/i.test(paper.pdfUrl)) add("L1", paper.pdfUrl);
+	add("PB", paper.publisher);
+	for (const issn of paper.issn) add("SN", issn);
+	for (const isbn of paper.isbn) add("SN", isbn);
+	add("ET", paper.edition);
+	for (const keyword of paper.subjects) add("KW", keyword);
+	add("AB", paper.abstract);
+	lines.push("ER  - ");
+	return lines.join("\n");
+}
@@ -0,0 +1,143 @@
+import { requestUrl, RequestUrlResponse } from "obsidian";
+import { CachedResponse, ResponseCache } from "./cache";
+
+/** Statuses worth another attempt: rate limiting and server trouble. */
+const RETRY_STATUSES = [429, 500, 502, 503, 504];
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+/** A provider asking for a longer pause than this is not waited for. */
+const MAX_DELAY_MS = 30000;
+
+interface HttpConfig {
+	/** Plugin version for the User-Agent. */
+	version: string;
+	/** Sent as mailto: so CrossRef serves requests from its polite pool. */
+	contactEmail: string;
+	cache: ResponseCache | null;
+}
+
+let config: HttpConfig = { version: "", contactEmail: "", cache: null };
+
+/** Set the User-Agent details and response cache used by every request. */
+export function configureHttp(next: Partial<HttpConfig>): void {
+	config = { ...config, ...next };
+}
+
+// CrossRef asks for a User-Agent naming the tool, a URL and a contact address
+function userAgent(): string {
+	const contact = config.contactEmail ? `; mailto:${config.contactEmail}` : "";
+	return `EasyPaperImporter/${config.version || "dev"} (https://obsidian.md/plugins?id=easy-paper-importer${contact})`;
+}
+
+/** Case-insensitive lookup of a response header, "" when absent. */
+export function responseHeader(response: RequestUrlResponse, name: string): string {
+	const key = Object.keys(response.headers).find((k) => k.toLowerCase() === name.toLowerCase());
+	return key ? response.headers[key] ?? "" : "";
+}
+
+/** Short description of an unexpected status for error messages. */
+export function describeStatus(status: number): string {
+	if (status === 429) return "too many requests (HTTP 429), try again in a minute";
+	if (status >= 500) return `the service is unavailable (HTTP ${status}), try again later`;
+	return `HTTP ${status}`;
+}
+
+/**
+ * How long to wait before attempt `attempt + 1`: what the provider's
+ * Retry-After header asks for, else exponential backoff with jitter.
+ * Null when the provider asks for a longer pause than we wait.
+ */
+function retryDelay(response: RequestUrlResponse | null, attempt: number): number | null {
+	const retryAfter = response ? responseHeader(response, "retry-after") : "";
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+		if (!Number.isNaN(ms)) return ms > MAX_DELAY_MS ? null : Math.max(0, ms);
+	}
+	return BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() / 2);
+}
+
+function fromCache(entry: CachedResponse): RequestUrlResponse {
+	return {
+		status: entry.status,
+		headers: entry.headers,
+		text: entry.text,
+		get json() {
+			return JSON.parse(entry.text) as unknown;
+		},
+		get arrayBuffer() {
+			return new TextEncoder().encode(entry.text).buffer;
+		},
+	};
+}
+
+/**
+ * Ask for a resource's headers without downloading it. Returns null
+ * when the request fails; servers that do not support HEAD answer
+ * with an error status, which callers should treat as "unknown".
+ */
+export async function httpHead(url: string, accept = "*/*"): Promise<RequestUrlResponse | null> {
+	try {
+		return await requestUrl({
+			url,
+			method: "HEAD",
+			headers: { Accept: accept, "User-Agent": userAgent() },
+			throw: false,
+		});
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Perform a GET request without throwing on 4xx/5xx so callers can
+ * decide how to treat each status (e.g. fall through on 404).
+ *
+ * Rate limiting, server errors and network failures are retried with
+ * backoff. With `cache`, 200 and 404 answers are kept in the response
+ * cache: a fresh copy is served without a request, and a stale one
+ * when the provider cannot be reached.
+ */
+export async function httpGet(url: string, accept = "application/json", { cache = false } = {}): Promise<RequestUrlResponse> {
+	const store = cache ? config.cache : null;
+	const cached = store ? await store.get(url) : null;
+	if (store && cached && store.isFresh(cached)) return fromCache(cached);
+
+	let response: RequestUrlResponse | null = null;
+	let networkError: unknown = null;
+	for (let attempt = 0; ; attempt++) {
+		try {
+			response = await requestUrl({
+				url,
+				method: "GET",
+				headers: {
+					Accept: accept,
+					"User-Agent": userAgent(),
+				},
+				throw: false,
+			});
+			networkError = null;
+		} catch (error) {
+			response = null;
+			networkError = error;
+		}
+
+		// Being offline rarely fixes itself within seconds, so only retry once
+		const retries = response ? MAX_RETRIES : 1;
+		if ((response && !RETRY_STATUSES.includes(response.status)) || attempt >= retries) break;
+		const delay = retryDelay(response, attempt);
+		if (delay === null) break;
+		await new Promise((resolve) => window.setTimeout(resolve, delay));
+	}
+
+	if (response && (response.status === 200 || response.status === 404)) {
+		if (store) await store.set({ url, status: response.status, headers: response.headers, text: response.text, fetchedAt: Date.now() });
+		return response;
+	}
+	// Offline or the provider is down: an old answer beats none
+	if (cached) return fromCache(cached);
+	if (response) return response;
+
+	const message = networkError instanceof Error ? networkError.message : String(networkError);
+	throw new Error(`Could not reach ${new URL(url).host}, check your internet connection (${message})`);
+}
@@ -0,0 +1,188 @@
+import { TFile } from "obsidian";
+import { PaperMetadata, mergePapers } from "./types";
+import { fetchPaperMetadata } from "./doi";
+import { createPaperNote, fmList } from "./note";
+import { generateCitekey, uniqueCitekey } from "./citekey";
+import { syncAuthorNotes } from "./authors";
+import { linkReferences } from "./references";
+import { duplicateQuery } from "./indexer";
+import { PdfDownloadResult, downloadPdfForNote, linkPdfToNote } from "./pdf";
+import type EasyPaperImporter from "./main";
+
+/** One paper read from a library file, before it becomes a note. */
+export interface ImportRecord {
+	/** Short label for progress and the summary (e.g. the citekey). */
+	label: string;
+	paper: PaperMetadata;
+}
+
+export type ImportStatus = "created" | "updated" | "skipped" | "failed";
+
+export interface ImportReportItem {
+	label: string;
+	status: ImportStatus;
+	/** Created note, or the existing note for skipped duplicates. */
+	path?: string;
+	message?: string;
+}
+
+export interface BulkImportOptions {
+	/** Re-fetch records that carry a DOI/arXiv id and prefer that metadata. */
+	enrich: boolean;
+	/** Called after each record with the number processed so far. */
+	onProgress?: (done: number, total: number) => void;
+}
+
+/** Per-import overrides of the note settings, e.g. from an import link. */
+export interface ImportOptions {
+	/** Folder for the note instead of the paper folder. */
+	folder?: string;
+	/** Tags added to the note's `tags` property. */
+	tags?: string[];
+	/** Template file for the note body instead of the configured one. */
+	template?: string;
+}
+
+export interface CreatedNote {
+	path: string;
+	/** Outcome of the optional PDF download step. */
+	pdf?: PdfDownloadResult;
+}
+
+/**
+ * Create the note for a fetched paper and register it in the index
+ * straight away so later duplicate checks see it. The paper's citekey
+ * (from the source file, or generated from the configured pattern) is
+ * made unique against every key in the index first. New notes get the
+ * configured reading status. A chapter is linked to its book's note,
+ * and author notes and the reference list are added when enabled. A
+ * PDF already in the vault is linked as-is; otherwise, when PDF
+ * downloads are enabled, an open-access PDF is fetched and linked
+ * afterwards. A missing PDF never fails the import. `options` override
+ * the folder and template and add tags for this note only.
+ */
+export async function createNoteForPaper(plugin: EasyPaperImporter, paper: PaperMetadata, pdfFile?: TFile, options: ImportOptions = {}): Promise<CreatedNote> {
+	const base = paper.citekey || generateCitekey(paper, plugin.settings.citekeyPattern);
+	paper = { ...paper, citekey: uniqueCitekey(base, plugin.paperIndex.getCitekeys()) };
+	const settings = {
+		...plugin.settings,
+		paperFolder: options.folder || plugin.settings.paperFolder,
+		templateFilePath: options.template || plugin.settings.templateFilePath,
+	};
+	const path = await createPaperNote(plugin.app, paper, settings);
+	plugin.paperIndex.recordImport(path, {
+		doi: paper.doi,
+		title: paper.title,
+		arxiv: paper.arxivId,
+		citekey: paper.citekey,
+		authors: paper.authors.map((a) => a.name),
+		year: paper.year,
+		isbn: paper.isbn,
+		type: paper.type,
+	});
+	await plugin.metadataStore.remember(paper);
+
+	const note = plugin.app.vault.getAbstractFileByPath(path);
+	const status = plugin.settings.initialReadingStatus;
+	if ((options.tags?.length || status) && note instanceof TFile) {
+		await plugin.app.fileManager.processFrontMatter(note, (fm: Record<string, unknown>) => {
+			if (options.tags?.length) fm.tags = [...new Set([...fmList(fm.tags), ...options.tags])];
+			if (status) fm.status = status;
+		});
+	}
+	if (paper.type === "book-chapter" && note instanceof TFile) {
+		await linkParentBook(plugin, note, paper);
+	}
+	if (plugin.settings.authorNotes && note instanceof TFile) {
+		try {
+			await syncAuthorNotes(plugin, note, paper);
+		} catch (e) {
+			// The paper note is still usable with plain author names
+			console.error("Easy Paper Importer: Error updating author notes", e);
+		}
+	}
+	if (plugin.settings.importReferences && note instanceof TFile) {
+		try {
+			await linkReferences(plugin, note, paper);
+		} catch (e) {
+			console.error("Easy Paper Importer: Error adding references", e);
+		}
+	}
+	if (pdfFile && note instanceof TFile) {
+		await linkPdfToNote(plugin.app, note, pdfFile);
+		return { path };
+	}
+	if (!plugin.settings.downloadPdfs) return { path };
+
+	try {
+		return { path, pdf: await downloadPdfForNote(plugin, path, paper) };
+	} catch (e) {
+		const message = e instanceof Error ? e.message : String(e);
+		console.error("Easy Paper Importer: Error downloading PDF", e);
+		return { path, pdf: { status: "failed", message: `PDF download failed: ${message}` } };
+	}
+}
+
+/**
+ * Point a chapter's `book` property at the note of the book it appears
+ * in, found by ISBN or book title, when the book has a note.
+ */
+async function linkParentBook(plugin: EasyPaperImporter, note: TFile, chapter: PaperMetadata): Promise<void> {
+	const path = plugin.paperIndex.findBook(chapter.isbn, chapter.journal);
+	const book = path ? plugin.app.vault.getAbstractFileByPath(path) : null;
+	if (!(book instanceof TFile) || book.path === note.path) return;
+	const link = plugin.app.metadataCache.fileToLinktext(book, note.path, true);
+	await plugin.app.fileManager.processFrontMatter(note, (fm: Record<string, unknown>) => {
+		fm.book = `[[${link}]]`;
+	});
+}
+
+/** Short text for a PDF outcome, or "" when nothing needs saying. */
+export function describePdfResult(result: PdfDownloadResult | undefined): string {
+	if (!result) return "";
+	return result.status === "saved" ? `PDF saved to ${result.path}` : result.message;
+}
+
+/**
+ * Turn a list of parsed records into notes one by one. Duplicates
+ * already in the PaperIndex are skipped rather than prompted for, and
+ * a failing record never aborts the rest of the batch.
+ */
+export async function importRecords(
+	plugin: EasyPaperImporter,
+	records: ImportRecord[],
+	options: BulkImportOptions,
+): Promise<ImportReportItem[]> {
+	const report: ImportReportItem[] = [];
+
+	for (const [i, record] of records.entries()) {
+		try {
+			let paper = record.paper;
+			const identifier = paper.arxivId ? `arXiv:${paper.arxivId}${paper.arxivVersion}` : paper.doi;
+			if (options.enrich && identifier) {
+				try {
+					const fetched = await fetchPaperMetadata(identifier, plugin.settings.metadataProviders);
+					paper = mergePapers(fetched, paper);
+				} catch (e) {
+					// Keep the record's own fields when the lookup fails
+					console.warn("Easy Paper Importer: enrichment failed for", identifier, e);
+				}
+			}
+
+			const dup = plugin.paperIndex.findDuplicate(duplicateQuery(paper));
+			if (dup) {
+				report.push({ label: record.label, status: "skipped", path: dup.path, message: `duplicate ${dup.type}` });
+			} else {
+				const created = await createNoteForPaper(plugin, paper);
+				report.push({ label: record.label, status: "created", path: created.path, message: describePdfResult(created.pdf) || undefined });
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			report.push({ label: record.label, status: "failed", message });
+			console.error("Easy Paper Importer: Error importing", record.label, error);
+		}
+		options.onProgress?.(i + 1, records.length);
+	}
+
+	return report;
+}
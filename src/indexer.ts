@@ -1,22 +1,259 @@
-import { TFile } from "obsidian";
+import { TFile, debounce, normalizePath } from "obsidian";
+import { fmList, fmString, stripWikiLink } from "./note";
+import { splitName } from "./names";
+import { authorNameKey } from "./authors";
+import { PaperMetadata, isBookType } from "./types";
+import { normalizeIsbn } from "./isbn";
 import type EasyPaperImporter from "./main";
 
-type IndexData = {
-    byDOI: Record<string, string>;
-    byTitle: Record<string, string>;
-    meta?: { version?: number; lastBuilt?: string };
+/** Bumped when the stored keys change; older indexes are rebuilt on load. */
+const INDEX_VERSION = 4;
+
+/** Index file in the plugin folder, apart from the settings in data.json. */
+const INDEX_FILE = "paper-index.json";
+
+/** Quiet period before index changes are written to disk. */
+const SAVE_DELAY_MS = 2000;
+
+/** What the index keeps about each paper note for searching and display. */
+export interface PaperSummary {
+    title: string;
+    /** Author names without links. */
+    authors: string[];
+    year: string;
+    citekey: string;
+}
+
+export interface IndexedPaper extends PaperSummary {
+    path: string;
+}
+
+/** A possible duplicate of a paper and how sure the match is (0–1). */
+export interface DuplicateCandidate {
+    path: string;
+    /** What matched, e.g. "DOI" or "similar title". */
+    type: string;
+    score: number;
+}
+
+/** What duplicate detection looks at; everything but one identifier or the title is optional. */
+export interface DuplicateQuery {
+    doi?: string;
+    title?: string;
+    arxiv?: string;
+    authors?: string[];
+    year?: string | number | null;
+    /** DOIs of other versions (preprint, published version) of the same work. */
+    relatedDois?: string[];
+    isbn?: string[];
+    /** Work type; the ISBNs of a chapter are its book's and never match. */
+    type?: string;
+}
+
+/** Duplicate query for fetched metadata, including its known other versions. */
+export function duplicateQuery(paper: PaperMetadata): DuplicateQuery {
+    return {
+        doi: paper.doi,
+        title: paper.title,
+        arxiv: paper.arxivId,
+        authors: paper.authors.map((a) => a.name),
+        year: paper.year,
+        relatedDois: [paper.publishedDoi, ...paper.relatedDois].filter(Boolean),
+        isbn: paper.isbn,
+        type: paper.type,
+    };
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+/** Markup and entities removed, accents folded, lower case, punctuation as single spaces. */
+export function titleKey(title?: string): string {
+    return (title || "")
+        .replace(/<[^>]+>/g, " ")
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m: string, entity: string) => {
+            if (entity.startsWith("#")) {
+                const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+                return String.fromCharCode(code);
+            }
+            return HTML_ENTITIES[entity.toLowerCase()] ?? m;
+        })
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[\s!-/:-@[-`{-~\u00a0-\u00bf\u2000-\u206f\u3000-\u303f]+/g, " ")
+        .trim();
+}
+
+/** Title key of the part before a subtitle ("Deep learning: a review" → "deep learning"). */
+function mainTitleKey(title?: string): string {
+    return titleKey((title || "").split(/:|\s[-–—]\s/)[0]);
+}
+
+/** Dice coefficient of the character bigrams of two strings. */
+function bigramSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const counts = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.slice(i, i + 2);
+        counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.slice(i, i + 2);
+        const count = counts.get(bigram) ?? 0;
+        if (count > 0) {
+            shared++;
+            counts.set(bigram, count - 1);
+        }
+    }
+    return (2 * shared) / (a.length + b.length - 2);
+}
+
+/** A title's key with and without its subtitle. */
+interface TitleKeys {
+    full: string;
+    main: string;
+}
+
+const titleKeys = (title?: string): TitleKeys => ({ full: titleKey(title), main: mainTitleKey(title) });
+
+function keySimilarity(a: TitleKeys, b: TitleKeys): number {
+    if (!a.full || !b.full) return 0;
+    const subtitleDropped = (a.full === b.main && b.main.split(" ").length >= 3) || (b.full === a.main && a.main.split(" ").length >= 3);
+    if (subtitleDropped) return Math.max(bigramSimilarity(a.full, b.full), 0.95);
+    // Bigram similarity cannot reach the threshold across very different lengths
+    const ratio = Math.min(a.full.length, b.full.length) / Math.max(a.full.length, b.full.length);
+    return ratio < 0.5 ? 0 : bigramSimilarity(a.full, b.full);
+}
+
+/** Words too common in titles to narrow down a search. */
+const COMMON_TITLE_WORDS = new Set(["the", "and", "for", "with", "from", "into", "using", "via", "its", "are", "how", "what", "why", "new", "towards"]);
+
+/**
+ * Words of a title key that similar titles share, used to pick the
+ * entries worth scoring. Short and common words are left out unless
+ * the title has nothing else.
+ */
+function titleTokens(key: string): string[] {
+    const words = [...new Set(key.split(" ").filter(Boolean))];
+    const distinctive = words.filter((w) => w.length >= 3 && !COMMON_TITLE_WORDS.has(w));
+    return distinctive.length > 0 ? distinctive : words;
+}
+
+/**
+ * How alike two titles are (0–1). A title that lacks the other's
+ * subtitle still scores high, as long as the main title is more than
+ * a word or two.
+ */
+export function titleSimilarity(a: string, b: string): number {
+    return keySimilarity(titleKeys(a), titleKeys(b));
+}
+
+const familyKeys = (names: string[]) => new Set(names.map((n) => authorNameKey(splitName(n).family)).filter(Boolean));
+
+/**
+ * Whether two title matches can be the same paper: no author family
+ * name in common, or years more than two apart (a preprint usually
+ * precedes its publication by a year or so), rule it out. Missing
+ * authors or years never rule anything out.
+ */
+function plausibleMatch(query: DuplicateQuery, summary: PaperSummary): boolean {
+    const queryFamilies = familyKeys(query.authors ?? []);
+    const summaryFamilies = familyKeys(summary.authors);
+    if (queryFamilies.size > 0 && summaryFamilies.size > 0 && ![...queryFamilies].some((f) => summaryFamilies.has(f))) {
+        return false;
+    }
+    const queryYear = parseInt(String(query.year ?? ""), 10);
+    const summaryYear = parseInt(summary.year, 10);
+    return isNaN(queryYear) || isNaN(summaryYear) || Math.abs(queryYear - summaryYear) <= 2;
+}
+
+type PaperFields = {
+    doi?: string; title?: string; arxiv?: string; citekey?: string; authors?: string[]; year?: string | number | null;
+    isbn?: string[]; type?: string;
+};
+
+/** Everything the index knows about one paper note, stored by path. */
+interface IndexEntry extends PaperSummary {
+    /** Normalised DOIs, including those kept as aliases. */
+    dois: string[];
+    /** Normalised arXiv IDs, without version. */
+    arxivIds: string[];
+    /** ISBN-13s of a book, or of the book a chapter is in. */
+    isbns: string[];
+    type: string;
+    titleKey: string;
+    mainTitleKey: string;
+}
+
+/** Contents of the index file. */
+type IndexFile = {
+    version: number;
+    lastBuilt?: string;
+    entries: Record<string, IndexEntry>;
 };
 
+/** Lookup key → paths. A set, because duplicate notes share keys. */
+class KeyMap {
+    private map = new Map<string, Set<string>>();
+
+    add(key: string, path: string) {
+        if (!key) return;
+        const paths = this.map.get(key) ?? new Set<string>();
+        paths.add(path);
+        this.map.set(key, paths);
+    }
+
+    remove(key: string, path: string) {
+        const paths = this.map.get(key);
+        if (!paths) return;
+        paths.delete(path);
+        if (paths.size === 0) this.map.delete(key);
+    }
+
+    get(key: string): string[] {
+        return key ? [...(this.map.get(key) ?? [])] : [];
+    }
+
+    keys(): string[] {
+        return [...this.map.keys()];
+    }
+
+    clear() {
+        this.map.clear();
+    }
+}
+
+/**
+ * Index of the paper notes in the paper folder. Entries are stored per
+ * path (the reverse map), and the lookup maps by DOI, arXiv ID, ISBN
+ * (of books only), title, title word and citekey are rebuilt from them in memory. Notes are indexed when
+ * the metadata cache has parsed them, and changes are written to the
+ * index file in batches.
+ */
 export class PaperIndex {
     plugin: EasyPaperImporter;
-    index: IndexData = { byDOI: {}, byTitle: {}, meta: { version: 1, lastBuilt: undefined } };
+    private entries: Record<string, IndexEntry> = {};
+    private lastBuilt?: string;
+    private byDOI = new KeyMap();
+    private byArxiv = new KeyMap();
+    private byIsbn = new KeyMap();
+    private byTitle = new KeyMap();
+    /** Title word → paths; similar titles are only scored against entries sharing a word. */
+    private byTitleToken = new KeyMap();
+    private byCitekey = new KeyMap();
+
+    /** Write pending changes once updates have been quiet for a moment. */
+    private requestSave = debounce(() => void this.persist(), SAVE_DELAY_MS, true);
 
     constructor(plugin: EasyPaperImporter) {
         this.plugin = plugin;
     }
 
-    private normalise(s?: string) {
-        return (s || "").toLowerCase().trim();
+    private get filePath(): string {
+        const dir = this.plugin.manifest.dir ?? `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+        return normalizePath(`${dir}/${INDEX_FILE}`);
     }
 
     private normaliseDoi(s?: string) {
@@ -27,69 +264,281 @@ export class PaperIndex {
         return doi;
     }
 
+    /** Strip prefixes and the version so v1 and v2 of a preprint collide. */
+    private normaliseArxiv(s?: string) {
+        if (!s) return "";
+        let id = String(s).toLowerCase().trim();
+        id = id.replace(/^https?:\/\/(www\.)?arxiv\.org\/(abs|pdf)\//, "");
+        id = id.replace(/^arxiv:\s*/, "");
+        id = id.replace(/\.pdf$/, "");
+        id = id.replace(/v\d+$/, "");
+        return id;
+    }
+
+    /**
+     * Read the index file. A missing or outdated index is rebuilt once
+     * the workspace has loaded, so startup never waits for it.
+     */
     async load() {
-        const data = (await this.plugin.loadData()) as Partial<{ index: IndexData }>;
-        if (data?.index) this.index = Object.assign(this.index, data.index);
-        // If index empty, build from configured folder
-        if (Object.keys(this.index.byDOI).length === 0 && Object.keys(this.index.byTitle).length === 0) {
-            await this.rebuild();
+        const { adapter } = this.plugin.app.vault;
+        let stored: IndexFile | null = null;
+        try {
+            if (await adapter.exists(this.filePath)) stored = JSON.parse(await adapter.read(this.filePath)) as IndexFile;
+        } catch (e) {
+            console.warn("Easy Paper Importer: unreadable paper index, rebuilding", e);
+        }
+
+        // Indexes used to live in data.json; drop the old copy
+        const data = (await this.plugin.loadData()) as Record<string, unknown> | null;
+        if (data && "index" in data) {
+            delete data.index;
+            await this.plugin.saveData(data);
+        }
+
+        if (stored?.version === INDEX_VERSION && stored.entries) {
+            this.lastBuilt = stored.lastBuilt;
+            for (const [path, entry] of Object.entries(stored.entries)) this.setEntry(path, entry);
+        } else {
+            this.plugin.app.workspace.onLayoutReady(() => void this.rebuild());
         }
     }
 
     async rebuild() {
-        this.index = { byDOI: {}, byTitle: {}, meta: { version: 1, lastBuilt: new Date().toISOString() } };
-        const folder = (this.plugin.settings?.paperFolder || "Papers").replace(/^\/+/, "");
-        const files = this.plugin.app.vault.getFiles().filter((f: TFile) => f.path.startsWith(folder));
-        for (const f of files) this.indexFile(f);
+        this.clear();
+        this.lastBuilt = new Date().toISOString();
+        for (const f of this.plugin.app.vault.getMarkdownFiles()) {
+            if (this.plugin.isPaperNote(f)) this.indexFile(f);
+        }
         await this.persist();
     }
 
+    private clear() {
+        this.entries = {};
+        for (const map of [this.byDOI, this.byArxiv, this.byIsbn, this.byTitle, this.byTitleToken, this.byCitekey]) map.clear();
+    }
+
     private getFileTitle(f: TFile) {
         return f.name.replace(/\.[^/.]+$/, "");
     }
 
+    /** Store an entry and add its keys to the lookup maps, replacing any previous entry. */
+    private setEntry(path: string, entry: IndexEntry) {
+        this.removeEntry(path);
+        this.entries[path] = entry;
+        for (const doi of entry.dois) this.byDOI.add(doi, path);
+        for (const arxiv of entry.arxivIds) this.byArxiv.add(arxiv, path);
+        if (isBookType(entry.type)) for (const isbn of entry.isbns) this.byIsbn.add(isbn, path);
+        this.byTitle.add(entry.titleKey, path);
+        for (const token of titleTokens(entry.titleKey)) this.byTitleToken.add(token, path);
+        this.byCitekey.add(entry.citekey, path);
+    }
+
+    /** Remove an entry's keys using the entry itself, without scanning the maps. */
+    private removeEntry(path: string) {
+        const entry = this.entries[path];
+        if (!entry) return false;
+        for (const doi of entry.dois) this.byDOI.remove(doi, path);
+        for (const arxiv of entry.arxivIds) this.byArxiv.remove(arxiv, path);
+        for (const isbn of entry.isbns) this.byIsbn.remove(isbn, path);
+        this.byTitle.remove(entry.titleKey, path);
+        for (const token of titleTokens(entry.titleKey)) this.byTitleToken.remove(token, path);
+        this.byCitekey.remove(entry.citekey, path);
+        delete this.entries[path];
+        return true;
+    }
+
     private indexFile(f: TFile) {
         const cache = this.plugin.app.metadataCache.getFileCache(f);
         const fm = cache?.frontmatter ?? {};
-        const doi = this.normaliseDoi(fm.doi as string | undefined);
-        const title = this.normalise((fm.title as string | undefined) || this.getFileTitle(f));
-        if (doi) this.index.byDOI[doi] = f.path;
-        if (title) this.index.byTitle[title] = f.path;
+        const title = fmString(fm.title) || this.getFileTitle(f);
+        const keys = titleKeys(title);
+        // Identifiers of merged or other versions are kept as aliases
+        const aliases = fmList(fm.aliases);
+        const dois = [fmString(fm.doi), ...aliases.filter((a) => /^10\.\d{4,}\//.test(a))].map((d) => this.normaliseDoi(d));
+        const arxivIds = [fmString(fm.arxiv), ...aliases.filter((a) => /^arxiv:/i.test(a))].map((a) => this.normaliseArxiv(a));
+        this.setEntry(f.path, {
+            title,
+            authors: fmList(fm.authors).map(stripWikiLink),
+            year: fmString(fm.year),
+            citekey: fmString(fm.citekey),
+            dois: [...new Set(dois.filter(Boolean))],
+            arxivIds: [...new Set(arxivIds.filter(Boolean))],
+            isbns: [...new Set(fmList(fm.isbn).map(normalizeIsbn).filter(Boolean))],
+            type: fmString(fm.type),
+            titleKey: keys.full,
+            mainTitleKey: keys.main,
+        });
     }
 
-    async updateIndexForFile(f: TFile) {
-        this.removePathFromIndex(f.path);
-        this.indexFile(f);
-        await this.persist();
+    /**
+     * Re-index a file after the metadata cache parsed it. Notes outside
+     * the paper folder are dropped from the index.
+     */
+    updateIndexForFile(f: TFile) {
+        if (this.plugin.isPaperNote(f)) this.indexFile(f);
+        else if (!this.removeEntry(f.path)) return;
+        this.requestSave();
     }
 
-    async removeFromIndex(f: TFile | { path: string }) {
-        this.removePathFromIndex(f.path);
-        await this.persist();
+    /** Follow a rename; a note moved into or out of the paper folder is added or dropped. */
+    renameInIndex(f: TFile, oldPath: string) {
+        const entry = this.entries[oldPath];
+        this.removeEntry(oldPath);
+        if (this.plugin.isPaperNote(f)) {
+            if (entry) this.setEntry(f.path, entry);
+            else this.indexFile(f);
+        } else if (!entry) {
+            return;
+        }
+        this.requestSave();
     }
 
-    private removePathFromIndex(path: string) {
-        for (const k of Object.keys(this.index.byDOI)) {
-            if (this.index.byDOI[k] === path) delete this.index.byDOI[k];
+    /**
+     * Register a freshly created or updated note straight from its
+     * metadata, before the metadata cache has parsed the change, so the
+     * next duplicate check already sees it. Only the fields given are
+     * changed; identifiers are added to those the note already has.
+     */
+    recordImport(path: string, { doi, title, arxiv, citekey, authors, year, isbn, type }: PaperFields) {
+        const entry: IndexEntry = this.entries[path] ?? {
+            title: "", authors: [], year: "", citekey: "", dois: [], arxivIds: [], isbns: [], type: "", titleKey: "", mainTitleKey: "",
+        };
+        const d = this.normaliseDoi(doi);
+        const a = this.normaliseArxiv(arxiv);
+        const updated: IndexEntry = {
+            ...entry,
+            dois: d && !entry.dois.includes(d) ? [...entry.dois, d] : entry.dois,
+            arxivIds: a && !entry.arxivIds.includes(a) ? [...entry.arxivIds, a] : entry.arxivIds,
+            isbns: [...new Set([...entry.isbns, ...(isbn ?? []).map(normalizeIsbn).filter(Boolean)])],
+        };
+        if (type) updated.type = type;
+        if (title) {
+            const keys = titleKeys(title);
+            updated.title = title.trim();
+            updated.titleKey = keys.full;
+            updated.mainTitleKey = keys.main;
         }
-        for (const k of Object.keys(this.index.byTitle)) {
-            if (this.index.byTitle[k] === path) delete this.index.byTitle[k];
+        if (authors) updated.authors = authors;
+        if (year != null && year !== "") updated.year = String(year);
+        if (citekey?.trim()) updated.citekey = citekey.trim();
+        this.setEntry(path, updated);
+        this.requestSave();
+    }
+
+    removeFromIndex(path: string) {
+        if (this.removeEntry(path)) this.requestSave();
+    }
+
+    /** Every paper note the index knows about. */
+    getIndexedPaths(): string[] {
+        return Object.keys(this.entries).sort();
+    }
+
+    /** Every indexed paper note with its title, authors, year and citekey. */
+    getPapers(): IndexedPaper[] {
+        return Object.entries(this.entries).map(([path, e]) => ({ path, title: e.title, authors: e.authors, year: e.year, citekey: e.citekey }));
+    }
+
+    /** Every citekey already used by a paper note. */
+    getCitekeys(): Set<string> {
+        return new Set(this.byCitekey.keys());
+    }
+
+    /** Paths of the entries whose titles share a word with `key`, the only ones a similar title can match. */
+    private titleCandidates(key: string): string[] {
+        const paths = new Set<string>();
+        for (const token of titleTokens(key)) {
+            for (const path of this.byTitleToken.get(token)) paths.add(path);
         }
+        return [...paths];
     }
 
-    findDuplicate({ doi, title }: { doi?: string; title?: string }) {
-        const d = this.normaliseDoi(doi);
-        if (d && this.index.byDOI[d]) return { type: "doi", path: this.index.byDOI[d] };
-        const t = this.normalise(title);
-        if (t && this.index.byTitle[t]) return { type: "title", path: this.index.byTitle[t] };
-        return null;
+    /**
+     * Every indexed paper note that may be the same paper, best match
+     * first. Identifiers match exactly, also across the arXiv DOI
+     * (10.48550/arXiv.…) of a preprint and the known other versions of
+     * the paper, and books match by ISBN. Titles match by similarity above the configured
+     * threshold unless the authors or years rule the match out; only
+     * notes whose titles share a word with the query are scored.
+     */
+    findDuplicates(query: DuplicateQuery): DuplicateCandidate[] {
+        const candidates = new Map<string, DuplicateCandidate>();
+        const add = (paths: string[], type: string, score: number) => {
+            for (const path of paths) {
+                const current = candidates.get(path);
+                if (!current || current.score < score) candidates.set(path, { path, type, score });
+            }
+        };
+        const addDoi = (doi: string | undefined, type: string) => {
+            const d = this.normaliseDoi(doi);
+            if (!d) return;
+            add(this.byDOI.get(d), type, 1);
+            const arxiv = d.match(/^10\.48550\/arxiv\.(.+)$/)?.[1];
+            if (arxiv) add(this.byArxiv.get(this.normaliseArxiv(arxiv)), type, 1);
+        };
+
+        addDoi(query.doi, "DOI");
+        const a = this.normaliseArxiv(query.arxiv);
+        if (a) {
+            add(this.byArxiv.get(a), "arXiv ID", 1);
+            add(this.byDOI.get(`10.48550/arxiv.${a}`), "arXiv ID", 1);
+        }
+        for (const doi of query.relatedDois ?? []) addDoi(doi, "other version");
+        if (isBookType(query.type ?? "")) {
+            for (const isbn of query.isbn ?? []) add(this.byIsbn.get(normalizeIsbn(isbn)), "ISBN", 1);
+        }
+
+        const keys = titleKeys(query.title);
+        if (keys.full) {
+            const threshold = this.plugin.settings.duplicateTitleThreshold;
+            for (const path of this.titleCandidates(keys.full)) {
+                const entry = this.entries[path];
+                if (!entry || candidates.has(path)) continue;
+                const score = keySimilarity(keys, { full: entry.titleKey, main: entry.mainTitleKey });
+                if (score >= threshold && plausibleMatch(query, entry)) add([path], score === 1 ? "title" : "similar title", score);
+            }
+        }
+        return [...candidates.values()].sort((x, y) => y.score - x.score);
+    }
+
+    /**
+     * The note of the book a chapter appears in: a book with one of the
+     * chapter's ISBNs, else one whose title matches the chapter's book
+     * title. Null when the book has no note.
+     */
+    findBook(isbns: string[], bookTitle: string): string | null {
+        for (const isbn of isbns) {
+            const path = this.byIsbn.get(normalizeIsbn(isbn))[0];
+            if (path) return path;
+        }
+        const keys = titleKeys(bookTitle);
+        if (!keys.full) return null;
+        let best: { path: string; score: number } | null = null;
+        for (const path of this.titleCandidates(keys.full)) {
+            const entry = this.entries[path];
+            if (!entry || !isBookType(entry.type)) continue;
+            const score = keySimilarity(keys, { full: entry.titleKey, main: entry.mainTitleKey });
+            if (score >= this.plugin.settings.duplicateTitleThreshold && (!best || score > best.score)) best = { path, score };
+        }
+        return best?.path ?? null;
+    }
+
+    /** The most likely duplicate of a paper, or null. */
+    findDuplicate(query: DuplicateQuery): DuplicateCandidate | null {
+        return this.findDuplicates(query)[0] ?? null;
+    }
+
+    /** Write any pending changes now, e.g. when the plugin unloads. */
+    flush() {
+        this.requestSave.run();
     }
 
     async persist() {
-        this.index.meta = this.index.meta || {};
-        this.index.meta.lastBuilt = new Date().toISOString();
-        // Preserve other keys (e.g. settings) already in data.json
-        const existing = (await this.plugin.loadData()) ?? {};
-        await this.plugin.saveData({ ...existing, index: this.index });
+        const data: IndexFile = { version: INDEX_VERSION, lastBuilt: this.lastBuilt, entries: this.entries };
+        try {
+            await this.plugin.app.vault.adapter.write(this.filePath, JSON.stringify(data));
+        } catch (e) {
+            console.error("Easy Paper Importer: Error saving the paper index", e);
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,46 @@
+/**
+ * The digits of an input shaped like an ISBN-10 or ISBN-13, e.g.
+ * "ISBN 978-0-262-03384-8" → "9780262033848". Returns "" for anything
+ * else; the check digit is not verified here (see `isValidIsbn`).
+ */
+export function isbnDigits(input: string): string {
+	const match = input.trim().match(/^(?:isbn(?:-1[03])?:?\s*)?(\d[\d\s-]{8,16}[\dX])$/i);
+	if (!match?.[1]) return "";
+	const digits = match[1].replace(/[\s-]/g, "").toUpperCase();
+	if (digits.length === 10) return digits;
+	return digits.length === 13 && !digits.includes("X") ? digits : "";
+}
+
+/** Whether the check digit of an ISBN-10 or ISBN-13 (digits only) is right. */
+export function isValidIsbn(digits: string): boolean {
+	if (/^\d{9}[\dX]$/.test(digits)) {
+		let sum = 0;
+		for (let i = 0; i < 10; i++) sum += (10 - i) * (digits[i] === "X" ? 10 : Number(digits[i]));
+		return sum % 11 === 0;
+	}
+	if (/^\d{13}$/.test(digits)) {
+		let sum = 0;
+		for (let i = 0; i < 13; i++) sum += (i % 2 === 0 ? 1 : 3) * Number(digits[i]);
+		return sum % 10 === 0;
+	}
+	return false;
+}
+
+/** ISBN-13 form of a valid ISBN-10 or ISBN-13 (digits only). */
+export function toIsbn13(digits: string): string {
+	if (digits.length === 13) return digits;
+	const body = `978${digits.slice(0, 9)}`;
+	let sum = 0;
+	for (let i = 0; i < 12; i++) sum += (i % 2 === 0 ? 1 : 3) * Number(body[i]);
+	return `${body}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * Normalise an ISBN in any common notation to ISBN-13 digits, the form
+ * stored in notes and compared by the index. "" when it is not a
+ * valid ISBN.
+ */
+export function normalizeIsbn(value: string): string {
+	const digits = isbnDigits(value);
+	return digits && isValidIsbn(digits) ? toIsbn13(digits) : "";
+}
@@ -0,0 +1,95 @@
+import { App, TFile, normalizePath } from "obsidian";
+import { PaperMetadata } from "./types";
+import { ensureFolder, paperFromFrontmatter } from "./note";
+import { generateCitekey, uniqueCitekey } from "./citekey";
+import { BIBTEX_FORMAT, LibraryFormat } from "./formats";
+import type EasyPaperImporter from "./main";
+
+/** A paper note together with the metadata read from its frontmatter. */
+export interface LibraryEntry {
+	file: TFile;
+	paper: PaperMetadata;
+	citekey: string;
+}
+
+/**
+ * Read the frontmatter of every indexed paper note (or just `files`),
+ * filling what it leaves out from the stored metadata, and make sure
+ * each one has a citekey. Missing keys are generated
+ * deterministically, de-duplicated against every key already in the
+ * library and written back to the note so they never change again.
+ */
+export async function collectLibrary(plugin: EasyPaperImporter, files?: TFile[]): Promise<LibraryEntry[]> {
+	const { app } = plugin;
+	const allFiles = plugin.paperIndex.getIndexedPaths()
+		.map((p) => app.vault.getAbstractFileByPath(p))
+		.filter((f): f is TFile => f instanceof TFile);
+
+	// Reserve every stored key first so new keys never steal an existing one
+	const taken = plugin.paperIndex.getCitekeys();
+	const stored = new Map<string, string>();
+	for (const file of allFiles) {
+		const key = String(app.metadataCache.getFileCache(file)?.frontmatter?.citekey ?? "").trim();
+		if (key) {
+			taken.add(key);
+			stored.set(file.path, key);
+		}
+	}
+
+	const entries: LibraryEntry[] = [];
+	for (const file of files ?? allFiles) {
+		const fm = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const paper = await plugin.metadataStore.complete(paperFromFrontmatter(fm));
+		let citekey = stored.get(file.path);
+		if (!citekey) {
+			citekey = uniqueCitekey(generateCitekey(paper, plugin.settings.citekeyPattern), taken);
+			taken.add(citekey);
+			const key = citekey;
+			await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+				frontmatter.citekey = key;
+			});
+			plugin.paperIndex.recordImport(file.path, { citekey: key });
+		}
+		entries.push({ file, paper, citekey });
+	}
+	return entries;
+}
+
+/**
+ * Create or overwrite a file at a vault path, creating parent folders.
+ */
+export async function writeVaultFile(app: App, path: string, content: string): Promise<void> {
+	const normalised = normalizePath(path);
+	const existing = app.vault.getAbstractFileByPath(normalised);
+	if (existing instanceof TFile) {
+		await app.vault.modify(existing, content);
+		return;
+	}
+	const folder = normalised.split("/").slice(0, -1).join("/");
+	if (folder) await ensureFolder(app, folder);
+	await app.vault.create(normalised, content);
+}
+
+/**
+ * Write the indexed library (or only `files`) to `path` in the given
+ * format, sorted by citekey. Returns the number of exported entries.
+ */
+export async function exportLibrary(
+	plugin: EasyPaperImporter,
+	format: LibraryFormat,
+	path: string,
+	files?: TFile[],
+): Promise<number> {
+	const entries = await collectLibrary(plugin, files);
+	entries.sort((a, b) => a.citekey.localeCompare(b.citekey));
+	await writeVaultFile(plugin.app, path, format.write(entries));
+	return entries.length;
+}
+
+/**
+ * Write the whole indexed library to the configured BibTeX file.
+ * Returns the number of exported entries.
+ */
+export async function exportBibtex(plugin: EasyPaperImporter): Promise<number> {
+	return exportLibrary(plugin, BIBTEX_FORMAT, plugin.settings.bibtexExportPath);
+}
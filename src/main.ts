@@ -1,33 +1,80 @@
-import { Plugin, Notice, TFile } from "obsidian";
+import { Plugin, Notice, ObsidianProtocolData, TFile, debounce, normalizePath } from "obsidian";
 import { DEFAULT_SETTINGS, EasyPaperSettings, EasyPaperSettingTab } from "./settings";
 import { DoiInputModal } from "./ui/doi-modal";
+import { importPaper } from "./ui/import-paper";
 import { PaperIndex } from "./indexer";
+import { FileImportModal } from "./ui/file-import-modal";
+import { BIBTEX_FORMAT, CSL_JSON_FORMAT, RIS_FORMAT } from "./formats";
+import { ExportModal } from "./ui/export-modal";
+import { BatchImportModal } from "./ui/batch-import-modal";
+import { downloadPdfForNote } from "./pdf";
+import { importPaperFromPdf } from "./pdf-import";
+import { createSerialQueue } from "./concurrency";
+import { refreshLibrary, refreshNote } from "./refresh";
+import { RefreshReviewModal } from "./ui/refresh-modal";
+import { syncAuthorNotes } from "./authors";
+import { fmString, paperFromFrontmatter } from "./note";
+import { exportBibtex } from "./library";
+import { IMPORT_PROTOCOL_ACTION, parseImportRequest } from "./uri";
+import { CiteSuggest } from "./ui/cite-suggest";
+import { updateBibliography } from "./bibliography";
+import { findLibraryDuplicates } from "./duplicates";
+import { MergeDuplicatesModal } from "./ui/merge-duplicates-modal";
+import { ResponseCache } from "./cache";
+import { MetadataStore } from "./metadata-store";
+import { configureHttp } from "./http";
+import { parseZoteroExport, readZoteroExport, syncZoteroLibrary } from "./zotero";
+import { ImportSummaryModal } from "./ui/import-summary-modal";
+import { LIBRARY_VIEW_TYPE, LibraryView } from "./ui/library-view";
+import { advanceReadingStatus, markPaperReviewed, nextPaperToRead, papersDueForReview } from "./reading";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export default class EasyPaperImporter extends Plugin {
 	settings: EasyPaperSettings;
 	paperIndex: PaperIndex;
+	/** Raw provider responses kept on disk for offline use. */
+	responseCache: ResponseCache;
+	/** Full metadata of imported papers, for exports and bibliographies. */
+	metadataStore: MetadataStore;
+
+	/** Debounced BibTeX re-export used when auto-export is enabled. */
+	private requestAutoExport = debounce(() => {
+		if (this.settings.bibtexAutoExport) void this.exportBibtexLibrary(false);
+	}, 3000, true);
+
+	/** PDFs are imported one at a time so a dropped batch cannot race. */
+	private importPdfSerially = createSerialQueue();
 
 	async onload() {
 		await this.loadSettings();
 
+		const dir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.responseCache = new ResponseCache(this.app.vault.adapter, normalizePath(`${dir}/cache`), 0);
+		this.metadataStore = new MetadataStore(this.app.vault.adapter, normalizePath(`${dir}/paper-metadata.json`));
+		this.configureHttp();
+
 		// Initialize paper index
 		this.paperIndex = new PaperIndex(this);
 		await this.paperIndex.load();
 
-		// Keep index in sync with vault changes
+		// Keep index in sync with vault changes. Notes are indexed once
+		// the metadata cache has parsed them, which also covers new notes.
 		this.registerEvent(this.app.vault.on("create", (f) => {
-			if (f instanceof TFile) void this.paperIndex.updateIndexForFile(f);
+			// Create also fires for every file while the vault loads
+			if (f instanceof TFile && this.app.workspace.layoutReady && this.isWatchedPdf(f)) void this.importPdf(f, false);
 		}));
 		this.registerEvent(this.app.vault.on("delete", (f) => {
-			void this.paperIndex.removeFromIndex(f);
+			this.paperIndex.removeFromIndex(f.path);
+			this.requestAutoExport();
 		}));
 		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
-			if (typeof oldPath === "string") {
-				void this.paperIndex.removeFromIndex({ path: oldPath });
-			} else {
-				void this.paperIndex.removeFromIndex(oldPath);
-			}
-			if (file instanceof TFile) void this.paperIndex.updateIndexForFile(file);
+			if (file instanceof TFile) this.paperIndex.renameInIndex(file, oldPath);
+			this.requestAutoExport();
+		}));
+		this.registerEvent(this.app.metadataCache.on("changed", (file) => {
+			this.paperIndex.updateIndexForFile(file);
+			if (this.isPaperNote(file)) this.requestAutoExport();
 		}));
 
 		// Ribbon icon to quickly import a paper
@@ -35,6 +82,15 @@ export default class EasyPaperImporter extends Plugin {
 			this.openDoiModal();
 		});
 
+		// Table of every paper in the library
+		this.registerView(LIBRARY_VIEW_TYPE, (leaf) => new LibraryView(leaf, this));
+		this.addRibbonIcon("library", "Open paper library", () => void this.openLibraryView());
+		this.addCommand({
+			id: "open-paper-library",
+			name: "Open paper library",
+			callback: () => void this.openLibraryView(),
+		});
+
 		// Command palette entry
 		this.addCommand({
 			id: "import-paper-from-doi",
@@ -42,6 +98,204 @@ export default class EasyPaperImporter extends Plugin {
 			callback: () => this.openDoiModal(),
 		});
 
+		// Bulk import from a BibTeX/BibLaTeX library
+		this.addCommand({
+			id: "import-papers-from-bibtex",
+			name: "Import papers from BibTeX file",
+			callback: () => new FileImportModal(this.app, this, BIBTEX_FORMAT).open(),
+		});
+
+		this.addCommand({
+			id: "import-papers-from-ris",
+			name: "Import papers from RIS file",
+			callback: () => new FileImportModal(this.app, this, RIS_FORMAT).open(),
+		});
+		this.addCommand({
+			id: "import-papers-from-csl-json",
+			name: "Import papers from CSL JSON file",
+			callback: () => new FileImportModal(this.app, this, CSL_JSON_FORMAT).open(),
+		});
+
+		// Create and update notes from a Zotero auto-export
+		this.addCommand({
+			id: "sync-zotero-library",
+			name: "Sync Zotero library",
+			callback: () => void this.syncZotero(),
+		});
+
+		// Export the library or a selection as BibTeX, RIS or CSL-JSON
+		this.addCommand({
+			id: "export-library",
+			name: "Export library…",
+			callback: () => new ExportModal(this.app, this).open(),
+		});
+		this.registerEvent(this.app.workspace.on("file-menu", (menu, file) => {
+			if (!(file instanceof TFile) || !this.isPaperNote(file)) return;
+			menu.addItem((item) => item
+				.setTitle("Export paper citation…")
+				.setIcon("quote-glyph")
+				.onClick(() => new ExportModal(this.app, this, [file]).open()));
+		}));
+		this.registerEvent(this.app.workspace.on("files-menu", (menu, files) => {
+			const papers = files.filter((f): f is TFile => f instanceof TFile && this.isPaperNote(f));
+			if (papers.length === 0) return;
+			menu.addItem((item) => item
+				.setTitle(`Export ${papers.length} paper citations…`)
+				.setIcon("quote-glyph")
+				.onClick(() => new ExportModal(this.app, this, papers).open()));
+		}));
+
+		// Create a paper note from a PDF already in the vault
+		this.addCommand({
+			id: "create-paper-note-from-pdf",
+			name: "Create paper note from current PDF",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "pdf") return false;
+				if (!checking) void this.importPdf(file, true);
+				return true;
+			},
+		});
+		this.registerEvent(this.app.workspace.on("file-menu", (menu, file) => {
+			if (!(file instanceof TFile) || file.extension !== "pdf") return;
+			menu.addItem((item) => item
+				.setTitle("Create paper note from PDF")
+				.setIcon("file-plus")
+				.onClick(() => void this.importPdf(file, true)));
+		}));
+
+		// Export the library as BibTeX
+		this.addCommand({
+			id: "export-library-bibtex",
+			name: "Export library to BibTeX",
+			callback: () => void this.exportBibtexLibrary(true),
+		});
+
+		// Batch import every DOI/arXiv ID found in pasted text
+		this.addCommand({
+			id: "batch-import-papers",
+			name: "Batch import papers from text",
+			callback: () => new BatchImportModal(this.app, this).open(),
+		});
+
+		// Fetch an open-access PDF for an existing paper note
+		this.addCommand({
+			id: "download-open-access-pdf",
+			name: "Download open-access PDF for current paper",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isPaperNote(file)) return false;
+				if (!checking) void this.downloadPdf(file);
+				return true;
+			},
+		});
+
+		// Re-fetch metadata and review what changed before writing it
+		this.addCommand({
+			id: "refresh-paper-metadata",
+			name: "Refresh paper metadata",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isPaperNote(file)) return false;
+				if (!checking) void this.refreshPaper(file);
+				return true;
+			},
+		});
+		this.addCommand({
+			id: "refresh-library-metadata",
+			name: "Refresh metadata of all papers",
+			callback: () => void this.refreshAllPapers(),
+		});
+
+		// Reading workflow: to-read → reading → read → summarised
+		this.addCommand({
+			id: "advance-reading-status",
+			name: "Move current paper to next reading status",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isPaperNote(file)) return false;
+				if (!checking) void this.advanceReadingStatus(file);
+				return true;
+			},
+		});
+		this.addCommand({
+			id: "open-next-paper-to-read",
+			name: "Open next paper to read",
+			callback: () => {
+				const file = nextPaperToRead(this);
+				if (!file) {
+					new Notice("No papers left to read.");
+					return;
+				}
+				void this.app.workspace.getLeaf().openFile(file);
+			},
+		});
+
+		// Review reminders for papers read some time ago
+		this.addCommand({
+			id: "open-next-paper-to-review",
+			name: "Open next paper due for review",
+			callback: () => {
+				const file = papersDueForReview(this)[0];
+				if (!file) {
+					new Notice("No papers are due for review.");
+					return;
+				}
+				void this.app.workspace.getLeaf().openFile(file);
+			},
+		});
+		this.addCommand({
+			id: "mark-paper-reviewed",
+			name: "Mark current paper as reviewed",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isPaperNote(file)) return false;
+				if (!checking) void this.markPaperReviewed(file);
+				return true;
+			},
+		});
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.reviewIntervalDays <= 0) return;
+			const due = papersDueForReview(this).length;
+			if (due > 0) {
+				new Notice(`${due === 1 ? "1 paper is" : `${due} papers are`} due for review. Run "Open next paper due for review" to start.`, 10000);
+			}
+		});
+
+		// Link an existing paper note's authors to author notes
+		this.addCommand({
+			id: "update-author-notes",
+			name: "Create or update author notes for current paper",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isPaperNote(file)) return false;
+				if (!checking) void this.updateAuthorNotes(file);
+				return true;
+			},
+		});
+
+		// Walk through duplicate paper notes already in the library
+		this.addCommand({
+			id: "merge-duplicate-papers",
+			name: "Find and merge duplicate papers",
+			callback: () => void this.mergeDuplicatePapers(),
+		});
+
+		// References block for the papers a draft cites
+		this.addCommand({
+			id: "insert-bibliography",
+			name: "Insert or update bibliography",
+			editorCallback: async (editor, ctx) => {
+				if (!ctx.file) return;
+				const { count, incomplete } = await updateBibliography(this, editor, ctx.file);
+				new Notice(count > 0 ? `Bibliography updated with ${count} papers.` : "No links to paper notes found.");
+				if (incomplete.length > 0) {
+					const names = incomplete.map((f) => f.basename).join(", ");
+					new Notice(`No journal details in ${names}. Refresh their metadata to complete these entries.`, 10000);
+				}
+			},
+		});
+
 		// Rebuild paper index command
 		this.addCommand({
 			id: "rebuild-paper-index",
@@ -52,17 +306,59 @@ export default class EasyPaperImporter extends Plugin {
 			},
 		});
 
+		// Import links, e.g. from the bookmarklet or a reference list
+		this.registerObsidianProtocolHandler(IMPORT_PROTOCOL_ACTION, (params) => {
+			void this.importFromUri(params);
+		});
+
+		// Cite-while-you-write suggestions
+		this.registerEditorSuggest(new CiteSuggest(this.app, this));
+
 		// Settings tab
 		this.addSettingTab(new EasyPaperSettingTab(this.app, this));
 	}
 
-	onunload() {}
+	onunload() {
+		this.paperIndex?.flush();
+		this.metadataStore?.flush();
+	}
+
+	/**
+	 * Import the paper an import link names and open its note. Links
+	 * without an identifier open the import modal instead.
+	 */
+	private async importFromUri(params: ObsidianProtocolData): Promise<void> {
+		const request = parseImportRequest(params);
+		if (!request.input) {
+			this.openDoiModal();
+			return;
+		}
+		try {
+			const outcome = await importPaper(this, request.input, request.options);
+			if (outcome.path) await this.app.workspace.openLinkText(outcome.path, "", true);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error importing paper: ${message}`);
+			console.error("Easy Paper Importer: Error importing paper from link", request.input, error);
+		}
+	}
+
+	/** Show the library view, reusing an open one. */
+	private async openLibraryView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(LIBRARY_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({ type: LIBRARY_VIEW_TYPE, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
 
 	/**
 	 * Open the DOI input modal and handle the result.
 	 */
 	private openDoiModal(): void {
-		new DoiInputModal(this.app, this.settings, this, (filePath) => {
+		new DoiInputModal(this.app, this, (filePath) => {
 			// Open the newly created note
 			const file = this.app.vault.getAbstractFileByPath(filePath);
 			if (file) {
@@ -71,16 +367,203 @@ export default class EasyPaperImporter extends Plugin {
 		}).open();
 	}
 
+	/**
+	 * Whether a file is a paper note: a note in the configured paper
+	 * folder, outside the author folder. Without a paper folder the
+	 * whole vault is searched, so the note must also carry the citekey
+	 * or source every imported paper records.
+	 */
+	isPaperNote(file: TFile): boolean {
+		if (file.extension !== "md") return false;
+		const trim = (path: string) => (path || "").replace(/^\/+|\/+$/g, "");
+		const folder = trim(this.settings.paperFolder);
+		const authorFolder = trim(this.settings.authorFolder);
+		if (authorFolder && authorFolder !== folder && file.path.startsWith(`${authorFolder}/`)) return false;
+
+		if (folder) return file.path.startsWith(`${folder}/`);
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return !!fm && (!!fmString(fm.citekey) || !!fmString(fm.source));
+	}
+
+	/** Whether a file is a PDF inside the watched folder. */
+	private isWatchedPdf(file: TFile): boolean {
+		const folder = this.settings.pdfWatchFolder.replace(/^\/+|\/+$/g, "");
+		return !!folder && file.extension === "pdf" && file.path.startsWith(`${folder}/`);
+	}
+
+	/**
+	 * Create (or link) the paper note for a PDF in the vault. Manual
+	 * imports open the note; watched-folder imports only report.
+	 */
+	private async importPdf(file: TFile, open: boolean): Promise<void> {
+		try {
+			const result = await this.importPdfSerially(() => importPaperFromPdf(this, file));
+			if (result.status === "unidentified") {
+				new Notice(`No DOI or arXiv ID found in ${file.name}.`);
+				return;
+			}
+			const messages = {
+				created: `Created paper note for ${file.name}.`,
+				linked: `Linked ${file.name} to the existing paper note.`,
+				duplicate: `${file.name} is already in the library.`,
+			};
+			new Notice(messages[result.status]);
+			if (open) void this.app.workspace.openLinkText(result.path, "", true);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error importing ${file.name}: ${message}`);
+			console.error("Easy Paper Importer: Error importing PDF", file.path, error);
+		}
+	}
+
+	private async refreshPaper(file: TFile): Promise<void> {
+		new Notice(`Refreshing ${file.basename}…`);
+		const result = await refreshNote(this, file);
+		if (result.error) {
+			new Notice(`Error refreshing ${file.basename}: ${result.error}`);
+		} else if (result.changes.length === 0) {
+			new Notice(`${file.basename} is up to date.`);
+		} else {
+			new RefreshReviewModal(this.app, this, [result]).open();
+		}
+	}
+
+	private async refreshAllPapers(): Promise<void> {
+		const progress = new Notice("Refreshing paper metadata…", 0);
+		try {
+			const results = await refreshLibrary(this, (done, total) => progress.setMessage(`Refreshing paper metadata: ${done}/${total}`));
+			if (results.every((r) => r.changes.length === 0 && !r.error)) {
+				new Notice(`All ${results.length} papers are up to date.`);
+			} else {
+				new RefreshReviewModal(this.app, this, results).open();
+			}
+		} finally {
+			progress.hide();
+		}
+	}
+
+	private async mergeDuplicatePapers(): Promise<void> {
+		const progress = new Notice("Looking for duplicate papers…", 0);
+		try {
+			const pairs = await findLibraryDuplicates(this, (done, total) => progress.setMessage(`Looking for duplicate papers: ${done}/${total}`));
+			if (pairs.length === 0) {
+				new Notice("No duplicate papers found.");
+				return;
+			}
+			new MergeDuplicatesModal(this.app, this, pairs).open();
+		} finally {
+			progress.hide();
+		}
+	}
+
+	private async syncZotero(): Promise<void> {
+		const path = this.settings.zoteroExportPath;
+		if (!path) {
+			new Notice("Set the Zotero export file in the settings first.");
+			return;
+		}
+		const progress = new Notice("Syncing Zotero library…", 0);
+		try {
+			const items = parseZoteroExport(await readZoteroExport(this.app, path), path);
+			const { report, unchanged } = await syncZoteroLibrary(this, items, (done, total) => progress.setMessage(`Syncing Zotero library: ${done}/${total}`));
+			if (report.length === 0) {
+				new Notice(`All ${unchanged} Zotero items are up to date.`);
+			} else {
+				new ImportSummaryModal(this.app, `Synced Zotero library (${unchanged} unchanged)`, report).open();
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error syncing Zotero library: ${message}`);
+			console.error("Easy Paper Importer: Error syncing Zotero library", error);
+		} finally {
+			progress.hide();
+		}
+	}
+
+	private async advanceReadingStatus(file: TFile): Promise<void> {
+		try {
+			const status = await advanceReadingStatus(this, file);
+			new Notice(status ? `${file.basename}: ${status}` : `${file.basename} is already summarised.`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error updating reading status: ${message}`);
+			console.error("Easy Paper Importer: Error updating reading status", file.path, error);
+		}
+	}
+
+	private async markPaperReviewed(file: TFile): Promise<void> {
+		try {
+			const next = await markPaperReviewed(this, file);
+			new Notice(next ? `${file.basename}: next review on ${next}` : `${file.basename}: reviewed`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error recording review: ${message}`);
+			console.error("Easy Paper Importer: Error recording review", file.path, error);
+		}
+	}
+
+	private async updateAuthorNotes(file: TFile): Promise<void> {
+		const fm = (this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const paper = paperFromFrontmatter(fm);
+		try {
+			await syncAuthorNotes(this, file, paper);
+			new Notice(`Linked ${paper.authors.length} authors of ${file.basename}.`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error updating author notes: ${message}`);
+			console.error("Easy Paper Importer: Error updating author notes", error);
+		}
+	}
+
+	private async downloadPdf(file: TFile): Promise<void> {
+		const fm = (this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		new Notice("Looking for an open-access PDF…");
+		try {
+			const result = await downloadPdfForNote(this, file.path, paperFromFrontmatter(fm));
+			new Notice(result.status === "saved" ? `PDF saved to ${result.path}` : result.message);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error downloading PDF: ${message}`);
+			console.error("Easy Paper Importer: Error downloading PDF", error);
+		}
+	}
+
+	private async exportBibtexLibrary(notify: boolean): Promise<void> {
+		try {
+			const count = await exportBibtex(this);
+			if (notify) new Notice(`Exported ${count} papers to ${this.settings.bibtexExportPath}.`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error exporting BibTeX: ${message}`);
+			console.error("Easy Paper Importer: Error exporting BibTeX", error);
+		}
+	}
+
 	async loadSettings() {
 		const data = (await this.loadData()) ?? {};
 		// Strip internal keys so they don't leak into settings
 		const { index: _index, ...rest } = data as Record<string, unknown>;
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, rest as Partial<EasyPaperSettings>);
+		// Notes were named by the old default format until citekeys replaced it
+		if (this.settings.noteTitleFormat === "{{first_authors}}_{{year}}") {
+			this.settings.noteTitleFormat = DEFAULT_SETTINGS.noteTitleFormat;
+		}
 	}
 
 	async saveSettings() {
-		// Preserve other keys (e.g. index) already in data.json
+		// Preserve other keys already in data.json
 		const existing = (await this.loadData()) ?? {};
 		await this.saveData({ ...existing, ...this.settings });
+		this.configureHttp();
+	}
+
+	/** Apply the network settings to every provider request. */
+	private configureHttp() {
+		this.responseCache.ttlMs = this.settings.cacheTtlDays * DAY_MS;
+		configureHttp({
+			version: this.manifest.version,
+			contactEmail: this.settings.contactEmail,
+			cache: this.responseCache,
+		});
 	}
 }
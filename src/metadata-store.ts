@@ -0,0 +1,80 @@
+import { DataAdapter, debounce } from "obsidian";
+import { PaperMetadata } from "./types";
+
+/** Quiet period before changes are written to disk. */
+const SAVE_DELAY_MS = 2000;
+
+/** What is kept for each paper; reference lists are only needed at import. */
+export type StoredPaper = Omit<PaperMetadata, "references">;
+
+const isEmpty = (value: unknown) => value == null || value === "" || (Array.isArray(value) && value.length === 0);
+
+/**
+ * The full metadata of every imported paper, by citekey, in one JSON
+ * file of the plugin folder. Notes only get the metadata fields the
+ * user selected; exports and bibliographies fill the rest from here,
+ * so a library round-trips without extra properties in every note.
+ * The file is read the first time it is needed.
+ */
+export class MetadataStore {
+	private papers: Record<string, StoredPaper> | null = null;
+	private loading: Promise<Record<string, StoredPaper>> | null = null;
+
+	/** Write pending changes once updates have been quiet for a moment. */
+	private requestSave = debounce(() => void this.persist(), SAVE_DELAY_MS, true);
+
+	constructor(private adapter: DataAdapter, private filePath: string) {}
+
+	/** Read the file once; an unreadable file starts an empty store. */
+	load(): Promise<Record<string, StoredPaper>> {
+		this.loading ??= (async () => {
+			let papers: Record<string, StoredPaper> = {};
+			try {
+				if (await this.adapter.exists(this.filePath)) papers = JSON.parse(await this.adapter.read(this.filePath)) as Record<string, StoredPaper>;
+			} catch (e) {
+				console.warn("Easy Paper Importer: unreadable paper metadata, starting over", e);
+			}
+			this.papers = papers;
+			return papers;
+		})();
+		return this.loading;
+	}
+
+	/** Keep the metadata of a created, refreshed or synced paper. */
+	async remember(paper: PaperMetadata): Promise<void> {
+		if (!paper.citekey) return;
+		const papers = await this.load();
+		const stored: Partial<PaperMetadata> = { ...paper };
+		delete stored.references;
+		papers[paper.citekey] = stored as StoredPaper;
+		this.requestSave();
+	}
+
+	/**
+	 * Fill the fields a note leaves empty with the metadata kept for its
+	 * citekey. The note's own properties always win.
+	 */
+	async complete(paper: PaperMetadata): Promise<PaperMetadata> {
+		const stored = (await this.load())[paper.citekey];
+		if (!paper.citekey || !stored) return paper;
+		const completed: Record<string, unknown> = { ...paper };
+		for (const [key, value] of Object.entries(stored)) {
+			if (isEmpty(completed[key])) completed[key] = value;
+		}
+		return completed as unknown as PaperMetadata;
+	}
+
+	/** Write any pending changes now, e.g. when the plugin unloads. */
+	flush() {
+		this.requestSave.run();
+	}
+
+	async persist() {
+		if (!this.papers) return;
+		try {
+			await this.adapter.write(this.filePath, JSON.stringify(this.papers));
+		} catch (e) {
+			console.error("Easy Paper Importer: Error saving paper metadata", e);
+		}
+	}
+}
@@ -0,0 +1,42 @@
+/** A personal name split the way citation formats expect it. */
+export type NameParts = {
+	given: string;
+	family: string;
+};
+
+/**
+ * Split a "Given Family" name, keeping lower-case particles
+ * (van, de, von) with the family name. Single-token names are treated
+ * as a family name only (e.g. organisations or mononyms).
+ */
+export function splitName(name: string): NameParts {
+	const parts = (name ?? "").trim().split(/\s+/).filter(Boolean);
+	if (parts.length < 2) return { given: "", family: parts[0] ?? "" };
+	let familyStart = parts.length - 1;
+	for (let i = 1; i < parts.length - 1; i++) {
+		if (/^[a-z]/.test(parts[i] ?? "")) {
+			familyStart = i;
+			break;
+		}
+	}
+	return {
+		given: parts.slice(0, familyStart).join(" "),
+		family: parts.slice(familyStart).join(" "),
+	};
+}
+
+/** Join name parts back into a "Given Family" string. */
+export function joinName({ given, family }: NameParts): string {
+	return [given, family].map((p) => p.trim()).filter(Boolean).join(" ");
+}
+
+/**
+ * Parse "Family, Given" (or plain "Given Family") into name parts. The
+ * inverted form is kept as given, so multi-word family names such as
+ * "García Márquez, Gabriel" stay whole.
+ */
+export function fromInvertedName(value: string): NameParts {
+	const [family, ...rest] = value.split(",");
+	if (rest.length === 0) return splitName(value);
+	return { given: rest.join(",").trim(), family: (family ?? "").trim() };
+}
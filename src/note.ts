@@ -1,6 +1,7 @@
 import { App, TFolder, normalizePath, TFile } from "obsidian";
-import { PaperMetadata, normalizePaper } from "./types";
+import { IDENTIFIER_TYPES, PaperMetadata, normalizePaper } from "./types";
 import { EasyPaperSettings } from "./settings";
+import { TemplateContext, TemplateError, renderTemplate } from "./template";
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
@@ -8,7 +9,7 @@ import { EasyPaperSettings } from "./settings";
  * Sanitise a string for use as a filename.
  * Removes characters not allowed in filenames on most OSes.
  */
-function sanitiseFilename(name: string): string {
+export function sanitiseFilename(name: string): string {
 	return (name ?? "")
 		.replace(/[\\/:*?"<>|]/g, "")
 		.replace(/\s+/g, " ")
@@ -17,41 +18,52 @@ function sanitiseFilename(name: string): string {
 }
 
 /**
- * Return the surname (last token) for a given author string.
+ * Template tokens for a paper, shared by filenames, note bodies and
+ * property templates so each token means the same everywhere. Missing
+ * values are null rather than absent so templates can test for them.
  */
-function getAuthorSurname(name: string): string {
-	if (!name) return "";
-	const parts = name.trim().split(/\s+/);
-	const last = parts[parts.length - 1] ?? "";
-	return last.replace(/[.,;]$/g, "");
-}
-
-/**
- * Render a filename from a template using paper metadata tokens.
- * Supported tokens: {{title}}, {{year}}, {{doi}}, {{authors}}, {{first_authors}}, {{first_author}}
- * - {{authors}} / {{first_authors}} -> "Surname" or "Surname et al." if multiple authors
- */
-function renderFilenameTemplate(template: string, paper: PaperMetadata): string {
-	if (!template) return "";
-	return template.replace(/{{\s*(\w+)\s*}}/g, (_m, token) => {
-		switch (token) {
-			case "title":
-				return paper.title || "";
-			case "year":
-				return paper.year != null ? String(paper.year) : "";
-			case "doi":
-				return paper.doi || "";
-			case "authors":
-			case "first_authors":
-			case "first_author": {
-				if (!paper.authors || paper.authors.length === 0) return "";
-				const surname = getAuthorSurname(paper.authors[0] ?? '');
-				return paper.authors.length > 1 ? `${surname}` : surname;
-			}
-			default:
-				return "";
-		}
-	});
+export function paperTemplateContext(paper: PaperMetadata): TemplateContext {
+	const surname = paper.authors[0]?.family ?? "";
+	const date = paper.year == null
+		? null
+		: paper.month == null ? String(paper.year) : `${paper.year}-${String(paper.month).padStart(2, "0")}`;
+	return {
+		citekey: paper.citekey || null,
+		title: paper.title || null,
+		authors: paper.authors.map((a) => a.name),
+		first_author: surname || null,
+		first_authors: surname ? (paper.authors.length > 1 ? `${surname} et al.` : surname) : null,
+		year: paper.year,
+		month: paper.month,
+		date,
+		journal: paper.journal || null,
+		volume: paper.volume || null,
+		issue: paper.issue || null,
+		pages: paper.pages || null,
+		publisher: paper.publisher || null,
+		abstract: paper.abstract || null,
+		doi: paper.doi || null,
+		doi_url: paper.doiUrl || null,
+		doiurl: paper.doiUrl || null,
+		url: paper.doiUrl || null,
+		pdf: paper.pdfUrl || null,
+		pdf_url: paper.pdfUrl || null,
+		pdfurl: paper.pdfUrl || null,
+		issn: paper.issn,
+		subjects: paper.subjects,
+		type: paper.type || null,
+		source: paper.source || null,
+		arxiv: paper.arxivId || null,
+		arxiv_version: paper.arxivVersion || null,
+		arxiv_category: paper.arxivCategory || null,
+		primary_category: paper.arxivCategory || null,
+		editors: paper.editors.map((a) => a.name),
+		edition: paper.edition || null,
+		isbn: paper.isbn,
+		pmid: paper.pmid || null,
+		pmcid: paper.pmcid || null,
+		today: new Date().toISOString().split("T")[0] ?? null,
+	};
 }
 
 /** Escape double-quotes inside a YAML string value. */
@@ -59,6 +71,16 @@ function yamlStr(value: string): string {
 	return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
 }
 
+/** Render a paper template, saying where the template lives in errors. */
+function renderPaperTemplate(template: string, paper: PaperMetadata, origin: string): string {
+	try {
+		return renderTemplate(template, paperTemplateContext(paper));
+	} catch (e) {
+		if (e instanceof TemplateError) throw new TemplateError(`${origin}: ${e.message}`);
+		throw e;
+	}
+}
+
 /** Render a YAML list (returns empty string if array is empty). */
 function yamlList(key: string, items: string[], quote = true): string {
 	if (items.length === 0) return "";
@@ -68,127 +90,184 @@ function yamlList(key: string, items: string[], quote = true): string {
 
 // ── Frontmatter ─────────────────────────────────────────────────────
 
+/** Tag for a keyword or Zotero tag: lower case, "#" and spaces removed. */
+export function toTag(value: string): string {
+	return value.trim().replace(/^#/, "").toLowerCase().replace(/\s+/g, "-");
+}
+
+export type PropertyValue = string | number | string[];
+
+/**
+ * Property value for each metadata field a user can select. Every
+ * getter checks for presence itself and returns null for missing data.
+ * The `paper` object is already normalised (strings default to "",
+ * arrays default to []).
+ */
+const FIELD_VALUES: Record<string, (paper: PaperMetadata) => PropertyValue | null> = {
+	title: (p) => p.title || null,
+	authors: (p) => (p.authors.length ? p.authors.map((a) => a.name) : null),
+	journal: (p) => p.journal || null,
+	year: (p) => p.year,
+	month: (p) => p.month,
+	volume: (p) => p.volume || null,
+	issue: (p) => p.issue || null,
+	pages: (p) => p.pages || null,
+	publisher: (p) => p.publisher || null,
+	doi: (p) => p.doi || null,
+	url: (p) => p.doiUrl || null,
+	pdf: (p) => p.pdfUrl || null,
+	issn: (p) => (p.issn.length ? p.issn : null),
+	abstract: (p) => p.abstract || null,
+	tags: (p) => (p.subjects.length ? p.subjects.map(toTag) : null),
+};
+
+/**
+ * The properties a paper note owns, in frontmatter order: the metadata
+ * fields the user has selected followed by the ones that are always
+ * written. Empty values are left out. Anything else in a note's
+ * frontmatter belongs to the user.
+ */
+export function paperProperties(paper: PaperMetadata, settings: EasyPaperSettings): Array<[string, PropertyValue]> {
+	const entries: Array<[string, PropertyValue | null]> = [];
+	for (const field of settings.metadataFields) {
+		const value = FIELD_VALUES[field]; // unknown key → skip
+		if (value) entries.push([field, value(paper)]);
+	}
+
+	// Always record the citekey and which provider answered so refreshes can reuse it
+	entries.push(["citekey", paper.citekey || null]);
+	entries.push(["source", paper.source || null], ["type", paper.type || null]);
+
+	// arXiv identifiers are always written so duplicate detection works for preprints
+	if (paper.arxivId) {
+		entries.push(
+			["arxiv", paper.arxivId],
+			["arxiv_version", paper.arxivVersion || null],
+			["arxiv_category", paper.arxivCategory || null],
+		);
+	}
+
+	// Book details; chapters carry those of their book
+	entries.push(
+		["editors", paper.editors.length ? paper.editors.map((a) => a.name) : null],
+		["edition", paper.edition || null],
+		["isbn", paper.isbn.length ? paper.isbn : null],
+	);
+
+	// PubMed identifiers, and what the paper was imported by
+	entries.push(
+		["pmid", paper.pmid || null],
+		["pmcid", paper.pmcid || null],
+		["identifier_type", paper.identifierType || null],
+	);
+
+	// Stable key of the Zotero item the note is synced with
+	entries.push(["zotero_key", paper.zoteroKey || null]);
+
+	return entries.filter((entry): entry is [string, PropertyValue] => entry[1] != null);
+}
+
 /**
- * Build a plain object containing only the metadata fields the user
- * has selected, skipping any that are empty/missing.  Then serialise
- * to a YAML frontmatter string.
+ * Serialise the paper's properties, the import date and the user's
+ * custom properties to a YAML frontmatter string.
  */
 function buildFrontmatter(paper: PaperMetadata, settings: EasyPaperSettings): string {
 	const lines: string[] = ["---"];
 
-	/**
-	 * Each renderer checks for presence internally, so missing data
-	 * is silently skipped.  The `paper` object is already normalised
-	 * (strings default to "", arrays default to []).
-	 */
-	const fieldRenderers: Record<string, () => string | null> = {
-		title: () =>
-			paper.title ? `title: ${yamlStr(paper.title)}` : null,
-		authors: () =>
-			yamlList("authors", paper.authors) || null,
-		journal: () =>
-			paper.journal ? `journal: ${yamlStr(paper.journal)}` : null,
-		year: () =>
-			paper.year != null ? `year: ${paper.year}` : null,
-		volume: () =>
-			paper.volume ? `volume: ${yamlStr(paper.volume)}` : null,
-		issue: () =>
-			paper.issue ? `issue: ${yamlStr(paper.issue)}` : null,
-		pages: () =>
-			paper.pages ? `pages: ${yamlStr(paper.pages)}` : null,
-		publisher: () =>
-			paper.publisher ? `publisher: ${yamlStr(paper.publisher)}` : null,
-		doi: () =>
-			paper.doi ? `doi: ${yamlStr(paper.doi)}` : null,
-		url: () =>
-			paper.doiUrl ? `url: ${yamlStr(paper.doiUrl)}` : null,
-		pdf: () =>
-			paper.pdfUrl ? `pdf: ${yamlStr(paper.pdfUrl)}` : null,
-		issn: () =>
-			yamlList("issn", paper.issn) || null,
-		tags: () => {
-			const tags = paper.subjects.map((s) =>
-				s.toLowerCase().replace(/\s+/g, "-"),
-			);
-			return yamlList("tags", tags, false) || null;
-		},
-	};
-
-	for (const field of settings.metadataFields) {
-		const render = fieldRenderers[field];
-		if (!render) continue; // unknown key → skip
-		const result = render();
-		if (result) lines.push(result);
+	for (const [key, value] of paperProperties(paper, settings)) {
+		if (Array.isArray(value)) lines.push(yamlList(key, value, key !== "tags"));
+		else if (typeof value === "number") lines.push(`${key}: ${value}`);
+		else lines.push(`${key}: ${yamlStr(value)}`);
 	}
 
 	if (settings.includeImportDate) {
 		lines.push(`date_imported: "${new Date().toISOString().split("T")[0]}"`);
 	}
 
-	// Append user-defined custom properties as empty fields
+	// Property templates are rendered; other custom properties start empty
+	const templates = settings.propertyTemplates ?? {};
+	for (const [key, template] of Object.entries(templates)) {
+		lines.push(`${key}: ${yamlStr(renderPaperTemplate(template, paper, `Property template "${key}"`))}`);
+	}
 	for (const prop of settings.customProperties ?? []) {
 		const key = prop.trim();
-		if (key) lines.push(`${key}: `);
+		if (key && !(key in templates)) lines.push(`${key}: `);
 	}
 
 	lines.push("---");
 	return lines.join("\n");
 }
 
-// ── Body ────────────────────────────────────────────────────────────
+/** Read a frontmatter value as a trimmed string ("" when missing). */
+export function fmString(value: unknown): string {
+	if (value == null) return "";
+	return (typeof value === "string" ? value : String(value as string | number)).trim();
+}
+
+/** Read a frontmatter value that may be a list or a single string. */
+export function fmList(value: unknown): string[] {
+	if (Array.isArray(value)) return value.map(fmString).filter(Boolean);
+	const single = fmString(value);
+	return single ? [single] : [];
+}
 
 /**
- * Render a template string by replacing known tokens with paper metadata.
+ * Display text of an internal link ("[[Note|Alias]]" → "Alias",
+ * "[[Folder/Note]]" → "Note"); other values are returned unchanged.
  */
-function renderTemplate(template: string, paper: PaperMetadata, settings: EasyPaperSettings): string {
-	return template.replace(/{{\s*(\w+)\s*}}/g, (_m, token) => {
-		const t = token.toLowerCase();
-		switch (t) {
-			case "title":
-				return paper.title || "";
-			case "year":
-				return paper.year != null ? String(paper.year) : "";
-			case "doi":
-				return paper.doi || "";
-			case "doiurl":
-			case "doi_url":
-				return paper.doiUrl || "";
-			case "pdf":
-			case "pdfurl":
-			case "pdf_url":
-				return paper.pdfUrl || "";
-			case "journal":
-				return paper.journal || "";
-			case "volume":
-				return paper.volume || "";
-			case "issue":
-				return paper.issue || "";
-			case "pages":
-				return paper.pages || "";
-			case "publisher":
-				return paper.publisher || "";
-			case "abstract":
-				return paper.abstract || "";
-			case "authors":
-				return (paper.authors || []).join(", ");
-			case "first_authors":
-			case "first_author": {
-				if (!paper.authors || paper.authors.length === 0) return "";
-				const surname = getAuthorSurname(paper.authors[0] ?? '');
-				return paper.authors.length > 1 ? `${surname} et al.` : surname;
-			}
-			case "subjects":
-				return (paper.subjects || []).join(", ");
-			default:
-				return "";
-		}
+export function stripWikiLink(value: string): string {
+	const match = value.match(/^\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]+))?\]\]$/);
+	if (!match) return value;
+	return (match[2] ?? match[1]?.split("/").pop() ?? "").trim();
+}
+
+/**
+ * Rebuild PaperMetadata from a paper note's frontmatter. This is the
+ * inverse of `buildFrontmatter` and tolerates hand-edited values.
+ */
+export function paperFromFrontmatter(fm: Record<string, unknown>): PaperMetadata {
+	const year = Number(fmString(fm.year));
+	const month = Number(fmString(fm.month));
+	return normalizePaper({
+		title: fmString(fm.title),
+		// Authors may be links to author notes
+		authors: fmList(fm.authors).map(stripWikiLink),
+		abstract: fmString(fm.abstract),
+		journal: fmString(fm.journal),
+		volume: fmString(fm.volume),
+		issue: fmString(fm.issue),
+		pages: fmString(fm.pages),
+		year: fmString(fm.year) && !isNaN(year) ? year : null,
+		month: fmString(fm.month) && !isNaN(month) ? month : null,
+		doi: fmString(fm.doi),
+		doiUrl: fmString(fm.url),
+		pdfUrl: fmString(fm.pdf),
+		publisher: fmString(fm.publisher),
+		issn: fmList(fm.issn),
+		subjects: fmList(fm.tags),
+		type: fmString(fm.type),
+		source: fmString(fm.source),
+		arxivId: fmString(fm.arxiv),
+		arxivVersion: fmString(fm.arxiv_version),
+		arxivCategory: fmString(fm.arxiv_category),
+		editors: fmList(fm.editors).map(stripWikiLink),
+		edition: fmString(fm.edition),
+		isbn: fmList(fm.isbn),
+		pmid: fmString(fm.pmid),
+		pmcid: fmString(fm.pmcid),
+		zoteroKey: fmString(fm.zotero_key),
+		identifierType: IDENTIFIER_TYPES.find((t) => t === fmString(fm.identifier_type)) ?? "",
+		citekey: fmString(fm.citekey),
 	});
 }
 
+// ── Body ────────────────────────────────────────────────────────────
+
 /**
  * Build the body content of the paper note.
  * If a template file path is configured, load it from the vault and substitute tokens.
  * Falls back to a small autogenerated body when no template is set or if loading fails.
+ * Errors in the template itself (e.g. unknown tokens) are thrown, not ignored.
  */
 async function buildBody(app: App, paper: PaperMetadata, settings: EasyPaperSettings): Promise<string> {
 	// Try to load template if configured
@@ -209,12 +288,13 @@ async function buildBody(app: App, paper: PaperMetadata, settings: EasyPaperSett
 		}
 
 		if (templateFile) {
+			let tpl: string | null = null;
 			try {
-				const tpl = await app.vault.read(templateFile);
-				return renderTemplate(tpl, paper, settings);
+				tpl = await app.vault.read(templateFile);
 			} catch (e) {
 				console.warn("Easy Paper Importer: failed to read template", templateFile.path, e);
 			}
+			if (tpl != null) return renderPaperTemplate(tpl, paper, `Template ${templateFile.path}`);
 		} else {
 			console.warn("Easy Paper Importer: template not found:", normalised);
 		}
@@ -233,7 +313,7 @@ async function buildBody(app: App, paper: PaperMetadata, settings: EasyPaperSett
 /**
  * Ensure a folder exists in the vault, creating it if needed.
  */
-async function ensureFolder(app: App, folderPath: string): Promise<void> {
+export async function ensureFolder(app: App, folderPath: string): Promise<void> {
 	const normalised = normalizePath(folderPath);
 	const existing = app.vault.getAbstractFileByPath(normalised);
 	if (!existing) {
@@ -261,7 +341,7 @@ export async function createPaperNote(
 
 	await ensureFolder(app, settings.paperFolder);
 
-	const rawName = renderFilenameTemplate(settings.noteTitleFormat, safe) || safe.title;
+	const rawName = renderPaperTemplate(settings.noteTitleFormat, safe, "Note title format") || safe.title;
 	const filename = sanitiseFilename(rawName) || sanitiseFilename(safe.title) || "Untitled Paper";
 	let filePath = normalizePath(`${settings.paperFolder}/${filename}.md`);
 
@@ -0,0 +1,116 @@
+import { App, TFile, loadPdfJs } from "obsidian";
+import { extractIdentifiers, fetchPaperMetadata } from "./doi";
+import { createNoteForPaper } from "./importer";
+import { linkPdfToNote, linkedPdfFile } from "./pdf";
+import { duplicateQuery } from "./indexer";
+import type EasyPaperImporter from "./main";
+
+/** Identifiers tried before giving up on a PDF. */
+const MAX_CANDIDATES = 3;
+
+// The subset of the PDF.js API used here
+interface PdfJsTextItem {
+	str?: string;
+	hasEOL?: boolean;
+}
+
+interface PdfJsDocument {
+	numPages: number;
+	getMetadata(): Promise<{
+		info?: Record<string, unknown>;
+		metadata?: { getAll?(): Record<string, unknown> } | null;
+	}>;
+	getPage(pageNumber: number): Promise<{ getTextContent(): Promise<{ items: PdfJsTextItem[] }> }>;
+	destroy(): Promise<void>;
+}
+
+interface PdfJs {
+	getDocument(source: { data: Uint8Array }): { promise: Promise<PdfJsDocument> };
+}
+
+export type PdfImportResult =
+	| { status: "created"; path: string; identifier: string }
+	/** The paper already had a note; the PDF was linked to it. */
+	| { status: "linked"; path: string; identifier: string }
+	/** The paper already had a note that links a PDF; nothing changed. */
+	| { status: "duplicate"; path: string; identifier: string }
+	| { status: "unidentified" };
+
+/** Flatten metadata values (strings, arrays, nested objects) into text. */
+function metadataText(value: unknown): string {
+	if (typeof value === "string") return value;
+	if (Array.isArray(value)) return value.map(metadataText).join("\n");
+	if (value && typeof value === "object") return Object.values(value).map(metadataText).join("\n");
+	return "";
+}
+
+/**
+ * Collect DOI/arXiv candidates for a PDF, most reliable first: the
+ * embedded document info and XMP metadata, the file name and finally
+ * the text of the first page (where journals print the DOI and arXiv
+ * stamps its id in the margin).
+ */
+export async function findPdfIdentifiers(app: App, file: TFile): Promise<string[]> {
+	const pdfjs = (await loadPdfJs()) as PdfJs;
+	const data = new Uint8Array(await app.vault.readBinary(file));
+	const doc = await pdfjs.getDocument({ data }).promise;
+
+	try {
+		const sources: string[] = [];
+		const meta = await doc.getMetadata().catch(() => null);
+		if (meta) {
+			sources.push(metadataText(meta.info));
+			sources.push(metadataText(meta.metadata?.getAll?.()));
+		}
+		sources.push(file.basename);
+
+		if (doc.numPages > 0) {
+			const content = await (await doc.getPage(1)).getTextContent();
+			sources.push(content.items.map((item) => `${item.str ?? ""}${item.hasEOL ? "\n" : ""}`).join(""));
+		}
+
+		const seen = new Set<string>();
+		return sources
+			.flatMap((text) => extractIdentifiers(text))
+			.filter((id) => !seen.has(id.toLowerCase()) && seen.add(id.toLowerCase()));
+	} finally {
+		await doc.destroy();
+	}
+}
+
+/**
+ * Identify a PDF in the vault and import it through the normal
+ * pipeline, linking the PDF from the note. When the paper is already
+ * in the library the PDF is linked to the existing note instead,
+ * unless that note already links a PDF in the vault.
+ */
+export async function importPaperFromPdf(plugin: EasyPaperImporter, file: TFile): Promise<PdfImportResult> {
+	const { app, settings } = plugin;
+	const candidates = (await findPdfIdentifiers(app, file)).slice(0, MAX_CANDIDATES);
+	if (candidates.length === 0) return { status: "unidentified" };
+
+	const errors: string[] = [];
+	for (const identifier of candidates) {
+		let paper;
+		try {
+			paper = await fetchPaperMetadata(identifier, settings.metadataProviders);
+		} catch (e) {
+			errors.push(e instanceof Error ? e.message : String(e));
+			continue;
+		}
+
+		const dup = plugin.paperIndex.findDuplicate(duplicateQuery(paper));
+		if (dup) {
+			const note = app.vault.getAbstractFileByPath(dup.path);
+			// A publisher URL in `pdf` is replaced by the link to the file
+			if (!(note instanceof TFile) || linkedPdfFile(app, note)) return { status: "duplicate", path: dup.path, identifier };
+			await linkPdfToNote(app, note, file);
+			return { status: "linked", path: dup.path, identifier };
+		}
+
+		const created = await createNoteForPaper(plugin, paper, file);
+		return { status: "created", path: created.path, identifier };
+	}
+
+	throw new Error(`No metadata found for ${candidates.join(", ")} (${errors.join("; ")})`);
+}
@@ -0,0 +1,140 @@
+import { App, RequestUrlResponse, TFile, normalizePath } from "obsidian";
+import { PaperMetadata } from "./types";
+import { httpGet, httpHead, responseHeader } from "./http";
+import { ensureFolder } from "./note";
+import { OpenAlexProvider } from "./providers/openalex";
+import type EasyPaperImporter from "./main";
+
+export type PdfDownloadResult =
+	| { status: "saved"; path: string }
+	| { status: "unavailable"; message: string }
+	| { status: "failed"; message: string };
+
+/**
+ * Collect legal open-access PDF links for a paper, most reliable first:
+ * the arXiv PDF, OpenAlex/Unpaywall open-access locations and finally
+ * the PDF link advertised in the publisher metadata.
+ */
+export async function findPdfCandidates(paper: PaperMetadata): Promise<string[]> {
+	const candidates: string[] = [];
+	if (paper.arxivId) {
+		candidates.push(`https://arxiv.org/pdf/${paper.arxivId}${paper.arxivVersion}`);
+	}
+	if (paper.doi && !paper.arxivId) {
+		try {
+			candidates.push(...await new OpenAlexProvider().findOpenAccessPdfs(paper.doi));
+		} catch (e) {
+			console.warn("Easy Paper Importer: open-access lookup failed for", paper.doi, e);
+		}
+	}
+	// The DOI landing page is an HTML page, never a PDF
+	if (paper.pdfUrl && paper.pdfUrl !== paper.doiUrl && !paper.pdfUrl.startsWith("https://doi.org/")) {
+		candidates.push(paper.pdfUrl);
+	}
+	return Array.from(new Set(candidates));
+}
+
+/** Bytes in the megabyte of the size limit setting. */
+const MB = 1024 * 1024;
+
+/** True when the body starts with the "%PDF-" magic bytes. */
+function isPdf(data: ArrayBuffer): boolean {
+	const head = new Uint8Array(data.slice(0, 5));
+	return String.fromCharCode(...Array.from(head)) === "%PDF-";
+}
+
+/**
+ * Reject a response whose headers already rule it out: an HTML page
+ * (a paywall or login page) or a declared size over the limit.
+ */
+function checkHeaders(response: RequestUrlResponse, maxBytes: number): void {
+	const type = responseHeader(response, "content-type").toLowerCase();
+	if (type.startsWith("text/html")) throw new Error(`not a PDF (${type})`);
+	const declaredSize = Number(responseHeader(response, "content-length"));
+	if (declaredSize > maxBytes) throw new Error(`file is larger than ${Math.round(maxBytes / MB)} MB`);
+}
+
+/**
+ * Download one candidate, rejecting anything that is not a PDF (e.g.
+ * a paywall or login page served as HTML) or is larger than the limit.
+ * The headers are checked first so oversized files and HTML pages are
+ * not downloaded at all.
+ */
+async function downloadPdf(url: string, maxBytes: number): Promise<ArrayBuffer> {
+	const head = await httpHead(url, "application/pdf");
+	if (head?.status === 200) checkHeaders(head, maxBytes);
+
+	const response = await httpGet(url, "application/pdf");
+	if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
+	checkHeaders(response, maxBytes);
+
+	const data = response.arrayBuffer;
+	if (data.byteLength > maxBytes) throw new Error(`file is larger than ${Math.round(maxBytes / MB)} MB`);
+	if (!isPdf(data)) throw new Error(`not a PDF (${responseHeader(response, "content-type") || "unknown content type"})`);
+	return data;
+}
+
+/**
+ * The vault PDF a note's `pdf` property links to, or null when it holds
+ * a URL (e.g. the publisher's PDF link) or nothing.
+ */
+export function linkedPdfFile(app: App, note: TFile): TFile | null {
+	const value = app.metadataCache.getFileCache(note)?.frontmatter?.pdf as unknown;
+	const link = typeof value === "string" ? value.match(/^\[\[([^\]|#]+)/)?.[1] : undefined;
+	return link ? app.metadataCache.getFirstLinkpathDest(link.trim(), note.path) : null;
+}
+
+/** Point a note's `pdf` property at a PDF in the vault. */
+export async function linkPdfToNote(app: App, note: TFile, pdfFile: TFile): Promise<void> {
+	const link = app.metadataCache.fileToLinktext(pdfFile, note.path, false);
+	await app.fileManager.processFrontMatter(note, (fm: Record<string, unknown>) => {
+		fm.pdf = `[[${link}]]`;
+	});
+}
+
+/**
+ * Find and save an open-access PDF for a paper note into the
+ * attachments folder, named like the note, then point the note's
+ * `pdf` property at the saved file as an internal link.
+ */
+export async function downloadPdfForNote(
+	plugin: EasyPaperImporter,
+	notePath: string,
+	paper: PaperMetadata,
+): Promise<PdfDownloadResult> {
+	const { app, settings } = plugin;
+	const note = app.vault.getAbstractFileByPath(notePath);
+	if (!(note instanceof TFile)) return { status: "failed", message: `note not found: ${notePath}` };
+
+	const candidates = await findPdfCandidates(paper);
+	if (candidates.length === 0) {
+		return { status: "unavailable", message: "No open-access PDF is available for this paper." };
+	}
+
+	const maxBytes = settings.pdfMaxSizeMb * MB;
+	const errors: string[] = [];
+	for (const url of candidates) {
+		let data: ArrayBuffer;
+		try {
+			data = await downloadPdf(url, maxBytes);
+		} catch (e) {
+			errors.push(`${url}: ${e instanceof Error ? e.message : String(e)}`);
+			continue;
+		}
+
+		const folder = normalizePath(settings.pdfFolder || settings.paperFolder);
+		await ensureFolder(app, folder);
+		let pdfPath = normalizePath(`${folder}/${note.basename}.pdf`);
+		let counter = 1;
+		while (app.vault.getAbstractFileByPath(pdfPath)) {
+			pdfPath = normalizePath(`${folder}/${note.basename} (${counter}).pdf`);
+			counter++;
+		}
+		const pdfFile = await app.vault.createBinary(pdfPath, data);
+		await linkPdfToNote(app, note, pdfFile);
+		return { status: "saved", path: pdfPath };
+	}
+
+	console.warn("Easy Paper Importer: no PDF candidate worked", errors);
+	return { status: "unavailable", message: `No downloadable open-access PDF found (${errors.length} links tried).` };
+}
@@ -0,0 +1,103 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { describeStatus, httpGet } from "../http";
+
+const ARXIV_API = "https://export.arxiv.org/api/query";
+
+const ATOM_NS = "http://www.w3.org/2005/Atom";
+const ARXIV_NS = "http://arxiv.org/schemas/atom";
+
+/** An arXiv identifier split into its base id and optional version. */
+export type ArxivId = {
+	/** e.g. "2401.01234" or "hep-th/9901001" */
+	id: string;
+	/** e.g. "v2", or "" for the latest version */
+	version: string;
+};
+
+/**
+ * arXiv Atom API. Resolves new-style (2401.01234v2) and old-style
+ * (hep-th/9901001) identifiers, optionally pinned to a version.
+ */
+export class ArxivProvider {
+	readonly id = "arxiv";
+	readonly label = "arXiv";
+
+	constructor(private baseUrl = ARXIV_API) {}
+
+	async fetchById(arxiv: ArxivId): Promise<PaperMetadata | null> {
+		const query = `${arxiv.id}${arxiv.version}`;
+		const response = await httpGet(`${this.baseUrl}?id_list=${encodeURIComponent(query)}&max_results=1`, "application/atom+xml", { cache: true });
+
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to fetch arXiv metadata: ${describeStatus(response.status)}`);
+		}
+
+		const doc = new DOMParser().parseFromString(response.text, "application/xml");
+		const entry = doc.getElementsByTagNameNS(ATOM_NS, "entry")[0];
+		if (!entry) return null;
+
+		// Unknown ids come back as a single entry whose id points at the error docs
+		const entryId = atomText(entry, "id");
+		if (!entryId || entryId.includes("/api/errors")) return null;
+
+		return parseArxivEntry(entry, arxiv);
+	}
+}
+
+/** Text content of the first direct Atom child with the given name. */
+function atomText(parent: Element, name: string, ns = ATOM_NS): string {
+	const el = parent.getElementsByTagNameNS(ns, name)[0];
+	return (el?.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parse an Atom `<entry>` into our PaperMetadata format.
+ */
+function parseArxivEntry(entry: Element, requested: ArxivId): PaperMetadata {
+	// The entry id is the abs URL including the version actually returned
+	const absUrl = atomText(entry, "id");
+	const versionMatch = absUrl.match(/v(\d+)$/);
+	const version = versionMatch ? `v${versionMatch[1]}` : requested.version;
+
+	const authors = Array.from(entry.getElementsByTagNameNS(ATOM_NS, "author")).map((a) => ({
+		name: atomText(a, "name"),
+		affiliations: Array.from(a.getElementsByTagNameNS(ARXIV_NS, "affiliation")).map((af) => af.textContent ?? ""),
+	}));
+
+	// Date – <published> is the v1 submission date
+	const dateMatch = atomText(entry, "published").match(/^(\d{4})-(\d{2})/);
+
+	const primaryCategory = entry.getElementsByTagNameNS(ARXIV_NS, "primary_category")[0]?.getAttribute("term") ?? "";
+	const subjects = Array.from(entry.getElementsByTagNameNS(ATOM_NS, "category"))
+		.map((c) => c.getAttribute("term") ?? "")
+		.filter(Boolean);
+
+	// Direct PDF link pinned to the returned version
+	const links = Array.from(entry.getElementsByTagNameNS(ATOM_NS, "link"));
+	const pdfLink = links.find((l) => l.getAttribute("title") === "pdf")?.getAttribute("href");
+	const pdfUrl = (pdfLink ?? `https://arxiv.org/pdf/${requested.id}${version}`).replace(/^http:/, "https:");
+
+	// arXiv mints a DataCite DOI for every preprint (version independent)
+	const doi = `10.48550/arXiv.${requested.id}`;
+
+	return normalizePaper({
+		title: atomText(entry, "title") || "Untitled",
+		authors,
+		abstract: atomText(entry, "summary"),
+		journal: atomText(entry, "journal_ref", ARXIV_NS) || "arXiv",
+		year: dateMatch?.[1] ? Number(dateMatch[1]) : null,
+		month: dateMatch?.[2] ? Number(dateMatch[2]) : null,
+		doi,
+		doiUrl: `https://doi.org/${doi}`,
+		pdfUrl,
+		publisher: "arXiv",
+		subjects,
+		type: "posted-content",
+		source: "arxiv",
+		arxivId: requested.id,
+		arxivVersion: version,
+		arxivCategory: primaryCategory,
+		publishedDoi: atomText(entry, "doi", ARXIV_NS),
+	});
+}
@@ -0,0 +1,153 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { describeStatus, httpGet } from "../http";
+import { normalizeIsbn } from "../isbn";
+import { MetadataProvider, stripMarkup } from "./provider";
+
+const CROSSREF_API = "https://api.crossref.org/works/";
+
+/** `relation` types that link versions of the same work. */
+const VERSION_RELATIONS = ["is-preprint-of", "has-preprint", "is-version-of", "has-version", "is-identical-to"];
+
+/**
+ * CrossRef `/works/` endpoint. Covers most journal and conference DOIs.
+ */
+export class CrossRefProvider implements MetadataProvider {
+	readonly id = "crossref";
+	readonly label = "CrossRef";
+
+	constructor(private baseUrl = CROSSREF_API) {}
+
+	async fetchByDoi(doi: string): Promise<PaperMetadata | null> {
+		const response = await httpGet(`${this.baseUrl}${encodeURIComponent(doi)}`, "application/json", { cache: true });
+
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to fetch DOI metadata from ${this.label}: ${describeStatus(response.status)}`);
+		}
+
+		const data = response.json as Record<string, unknown>;
+		const work = data.message as Record<string, unknown>;
+
+		return parseCrossRefResponse(work, doi);
+	}
+}
+
+/**
+ * Parse the CrossRef API response into our PaperMetadata format.
+ */
+function parseCrossRefResponse(work: Record<string, unknown>, doi: string): PaperMetadata {
+	// Title
+	const titleArray = work.title as string[] | undefined;
+	const title = titleArray?.[0] ?? "Untitled";
+
+	// Authors – organisations only have a name
+	type Contributor = {
+		given?: string; family?: string; name?: string; ORCID?: string; sequence?: string;
+		affiliation?: Array<{ name?: string }>;
+	};
+	const toPerson = (a: Contributor) => ({
+		given: a.given,
+		family: a.family ?? a.name,
+		name: a.name,
+		orcid: a.ORCID,
+		affiliations: (a.affiliation ?? []).map((af) => af.name ?? ""),
+		sequence: a.sequence,
+	});
+	const authors = ((work.author as Contributor[] | undefined) ?? []).map(toPerson);
+	// Editors of an edited book, or of the book a chapter is in
+	const editors = ((work.editor as Contributor[] | undefined) ?? []).map(toPerson);
+
+	// Abstract – CrossRef sometimes includes JATS XML tags
+	const abstract = stripMarkup((work.abstract as string) ?? "");
+
+	// Journal / container title
+	const containerTitle = work["container-title"] as string[] | undefined;
+	const journal = containerTitle?.[0] ?? "";
+
+	// Volume, issue, pages
+	const volume = (work.volume as string) ?? "";
+	const issue = (work.issue as string) ?? "";
+	const pages = (work.page as string) ?? "";
+
+	// Date
+	const datePublished = work["published-print"] as { "date-parts"?: number[][] } | undefined;
+	const dateOnline = work["published-online"] as { "date-parts"?: number[][] } | undefined;
+	const dateParts = datePublished?.["date-parts"]?.[0] ?? dateOnline?.["date-parts"]?.[0];
+	const year = dateParts?.[0] ?? null;
+	const month = dateParts?.[1] ?? null;
+
+	// Publisher
+	const publisher = (work.publisher as string) ?? "";
+
+	// ISSN
+	const issnArray = work.ISSN as string[] | undefined;
+	const issn = issnArray ?? [];
+
+	// ISBN – chapters carry the ISBNs of their book
+	const isbn = [...new Set(((work.ISBN as string[] | undefined) ?? []).map(normalizeIsbn).filter(Boolean))];
+	const edition = String((work["edition-number"] as string | undefined) ?? "");
+
+	// Subjects
+	const subjectArray = work.subject as string[] | undefined;
+	const subjects = subjectArray ?? [];
+
+	// Work type – CrossRef types are the vocabulary used throughout
+	const type = (work.type as string) ?? "";
+
+	// Reference list – only deposited by some publishers
+	const referenceArray = (work.reference as Array<Record<string, string | undefined>> | undefined) ?? [];
+	const references = referenceArray.map((r) => ({
+		doi: r.DOI ?? "",
+		title: r["article-title"] ?? r["volume-title"] ?? "",
+		author: r.author ?? "",
+		year: r.year ?? "",
+		journal: r["journal-title"] ?? r["series-title"] ?? "",
+		unstructured: stripMarkup(r.unstructured ?? ""),
+	}));
+
+	// Preprint and published versions of the same work
+	const relation = (work.relation as Record<string, Array<{ "id-type"?: string; id?: string }>> | undefined) ?? {};
+	const relatedDois = VERSION_RELATIONS
+		.flatMap((key) => relation[key] ?? [])
+		.filter((r) => r["id-type"] === "doi" && r.id)
+		.map((r) => r.id as string);
+
+	// PDF link – look for the best open-access or primary link
+	const links = work.link as Array<{ URL: string; "content-type"?: string }> | undefined;
+	let pdfUrl = "";
+	if (links && links.length > 0) {
+		const pdfLink = links.find(
+			(l) => l["content-type"] === "application/pdf"
+		);
+		pdfUrl = pdfLink?.URL ?? links[0]?.URL ?? "";
+	}
+	// Fallback: use the DOI URL itself as the PDF link
+	if (!pdfUrl) {
+		pdfUrl = `https://doi.org/${doi}`;
+	}
+
+	return normalizePaper({
+		title,
+		authors,
+		abstract,
+		journal,
+		volume,
+		issue,
+		pages,
+		year,
+		month,
+		doi,
+		doiUrl: `https://doi.org/${doi}`,
+		pdfUrl,
+		publisher,
+		issn,
+		editors,
+		edition,
+		isbn,
+		subjects,
+		type,
+		source: "crossref",
+		references,
+		relatedDois,
+	});
+}
@@ -0,0 +1,152 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { describeStatus, httpGet } from "../http";
+import { MetadataProvider, joinPages, stripMarkup } from "./provider";
+
+const DATACITE_API = "https://api.datacite.org/dois/";
+
+/** relationTypes that link versions of the same work. */
+const VERSION_RELATIONS = ["IsPreprintOf", "HasPreprint", "IsVersionOf", "HasVersion", "IsIdenticalTo"];
+
+/** DataCite resourceTypeGeneral → work type. */
+const DATACITE_TYPES: Record<string, string> = {
+	JournalArticle: "journal-article",
+	ConferencePaper: "proceedings-article",
+	Preprint: "posted-content",
+	Book: "book",
+	BookChapter: "book-chapter",
+	Dissertation: "dissertation",
+	Report: "report",
+	Dataset: "dataset",
+	Software: "software",
+};
+
+type DataCiteCreator = {
+	name?: string;
+	givenName?: string;
+	familyName?: string;
+	nameType?: string;
+	nameIdentifiers?: Array<{ nameIdentifier?: string; nameIdentifierScheme?: string }>;
+	affiliation?: Array<string | { name?: string }>;
+};
+
+/**
+ * DataCite REST API. Covers datasets and software (Zenodo, figshare, …)
+ * whose DOIs CrossRef does not know about.
+ */
+export class DataCiteProvider implements MetadataProvider {
+	readonly id = "datacite";
+	readonly label = "DataCite";
+
+	constructor(private baseUrl = DATACITE_API) {}
+
+	async fetchByDoi(doi: string): Promise<PaperMetadata | null> {
+		const response = await httpGet(`${this.baseUrl}${encodeURIComponent(doi)}`, "application/vnd.api+json", { cache: true });
+
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to fetch DOI metadata from ${this.label}: ${describeStatus(response.status)}`);
+		}
+
+		const data = response.json as { data?: { attributes?: Record<string, unknown> } };
+		const attrs = data.data?.attributes;
+		if (!attrs) return null;
+
+		return parseDataCiteResponse(attrs, doi);
+	}
+}
+
+/**
+ * Parse a DataCite `attributes` object into our PaperMetadata format.
+ */
+function parseDataCiteResponse(attrs: Record<string, unknown>, doi: string): PaperMetadata {
+	// Title – prefer the entry without a titleType (the main title)
+	const titles = (attrs.titles as Array<{ title?: string; titleType?: string }> | undefined) ?? [];
+	const title = (titles.find((t) => !t.titleType) ?? titles[0])?.title ?? "Untitled";
+
+	// Authors – personal names come as "Family, Given"
+	const creators = (attrs.creators as DataCiteCreator[] | undefined) ?? [];
+	const authors = creators.map((c) => {
+		const details = {
+			orcid: c.nameIdentifiers?.find((id) => id.nameIdentifierScheme?.toUpperCase() === "ORCID")?.nameIdentifier,
+			affiliations: (c.affiliation ?? []).map((a) => (typeof a === "string" ? a : a.name ?? "")),
+		};
+		if (c.givenName || c.familyName) return { ...details, given: c.givenName, family: c.familyName };
+		const name = c.name ?? "";
+		if (c.nameType !== "Organizational" && name.includes(",")) {
+			const [family, given] = name.split(",", 2).map((s) => s.trim());
+			return { ...details, given, family };
+		}
+		return { ...details, name, family: name };
+	});
+
+	// Abstract
+	const descriptions = (attrs.descriptions as Array<{ description?: string; descriptionType?: string }> | undefined) ?? [];
+	const abstractEntry = descriptions.find((d) => d.descriptionType === "Abstract") ?? descriptions[0];
+	const abstract = stripMarkup(abstractEntry?.description ?? "");
+
+	// Container (journal, series or repository)
+	const container = (attrs.container as {
+		title?: string; volume?: string; issue?: string; firstPage?: string; lastPage?: string;
+	} | undefined) ?? {};
+
+	// Publisher – older API versions return a string, newer an object
+	const rawPublisher = attrs.publisher as string | { name?: string } | undefined;
+	const publisher = typeof rawPublisher === "string" ? rawPublisher : rawPublisher?.name ?? "";
+
+	// Date – prefer the "Issued" date, fall back to publicationYear
+	const dates = (attrs.dates as Array<{ date?: string; dateType?: string }> | undefined) ?? [];
+	const issued = dates.find((d) => d.dateType === "Issued")?.date ?? "";
+	const issuedMatch = issued.match(/^(\d{4})(?:-(\d{2}))?/);
+	const year = issuedMatch?.[1] ? Number(issuedMatch[1]) : (attrs.publicationYear != null ? Number(attrs.publicationYear) : null);
+	const month = issuedMatch?.[2] ? Number(issuedMatch[2]) : null;
+
+	// Subjects
+	const subjectArray = (attrs.subjects as Array<{ subject?: string }> | undefined) ?? [];
+	const subjects = subjectArray.map((s) => s.subject ?? "").filter(Boolean);
+
+	// ISSN from related identifiers of the container
+	const related = (attrs.relatedIdentifiers as Array<{
+		relatedIdentifier?: string; relatedIdentifierType?: string; relationType?: string;
+	}> | undefined) ?? [];
+	const issn = related
+		.filter((r) => r.relatedIdentifierType === "ISSN" && r.relatedIdentifier)
+		.map((r) => r.relatedIdentifier as string);
+
+	// Cited works are only known by identifier
+	const references = related
+		.filter((r) => r.relationType === "References" && r.relatedIdentifierType === "DOI" && r.relatedIdentifier)
+		.map((r) => ({ doi: r.relatedIdentifier as string, title: "", author: "", year: "", journal: "", unstructured: "" }));
+	const relatedDois = related
+		.filter((r) => VERSION_RELATIONS.includes(r.relationType ?? "") && r.relatedIdentifierType === "DOI" && r.relatedIdentifier)
+		.map((r) => r.relatedIdentifier as string);
+
+	// Work type
+	const types = (attrs.types as { resourceTypeGeneral?: string } | undefined) ?? {};
+	const type = DATACITE_TYPES[types.resourceTypeGeneral ?? ""] ?? (types.resourceTypeGeneral ? "other" : "");
+
+	// PDF link – DataCite exposes direct content URLs for some repositories
+	const contentUrls = (attrs.contentUrl as string[] | null | undefined) ?? [];
+	const pdfUrl = contentUrls.find((u) => /\.pdf($|\?)/i.test(u)) ?? `https://doi.org/${doi}`;
+
+	return normalizePaper({
+		title,
+		authors,
+		abstract,
+		journal: container.title ?? "",
+		volume: container.volume ?? "",
+		issue: container.issue ?? "",
+		pages: joinPages(container.firstPage, container.lastPage),
+		year: year != null && !isNaN(year) ? year : null,
+		month,
+		doi,
+		doiUrl: `https://doi.org/${doi}`,
+		pdfUrl,
+		publisher,
+		issn,
+		subjects,
+		type,
+		source: "datacite",
+		references,
+		relatedDois,
+	});
+}
@@ -0,0 +1,44 @@
+import { PaperMetadata } from "../types";
+import { MetadataProvider } from "./provider";
+import { CrossRefProvider } from "./crossref";
+import { DataCiteProvider } from "./datacite";
+import { OpenAlexProvider } from "./openalex";
+
+export type { MetadataProvider } from "./provider";
+
+/** Factories for every provider a user can put in the chain. */
+const PROVIDER_FACTORIES: Record<string, () => MetadataProvider> = {
+	crossref: () => new CrossRefProvider(),
+	datacite: () => new DataCiteProvider(),
+	openalex: () => new OpenAlexProvider(),
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_FACTORIES);
+
+export const DEFAULT_PROVIDER_CHAIN = ["crossref", "datacite", "openalex"];
+
+/**
+ * Turn a list of provider ids (from settings) into provider instances.
+ * Unknown ids are skipped; an empty result falls back to the default chain.
+ */
+export function buildProviderChain(ids: string[]): MetadataProvider[] {
+	const chain = ids
+		.map((id) => PROVIDER_FACTORIES[id.trim().toLowerCase()])
+		.filter((factory): factory is () => MetadataProvider => factory !== undefined)
+		.map((factory) => factory());
+	if (chain.length > 0) return chain;
+	return DEFAULT_PROVIDER_CHAIN.map((id) => (PROVIDER_FACTORIES[id] as () => MetadataProvider)());
+}
+
+/**
+ * Ask each provider in order, falling through when one does not know
+ * the DOI. Errors other than "not found" stop the chain.
+ */
+export async function fetchFromChain(doi: string, chain: MetadataProvider[]): Promise<PaperMetadata> {
+	for (const provider of chain) {
+		const paper = await provider.fetchByDoi(doi);
+		if (paper) return paper;
+	}
+	const tried = chain.map((p) => p.label).join(", ");
+	throw new Error(`DOI ${doi} was not found (tried ${tried}).`);
+}
@@ -0,0 +1,143 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { describeStatus, httpGet } from "../http";
+import { MetadataProvider, joinPages } from "./provider";
+
+const OPENALEX_API = "https://api.openalex.org/works/";
+
+/** OpenAlex work types that differ from the CrossRef names. */
+const OPENALEX_TYPES: Record<string, string> = {
+	article: "journal-article",
+	preprint: "posted-content",
+};
+
+type OpenAlexSource = {
+	display_name?: string;
+	host_organization_name?: string;
+	issn?: string[] | null;
+};
+
+type OpenAlexLocation = {
+	source?: OpenAlexSource | null;
+	pdf_url?: string | null;
+};
+
+/**
+ * OpenAlex works API. Broad coverage, used as a last resort for DOIs
+ * neither CrossRef nor DataCite can resolve.
+ */
+export class OpenAlexProvider implements MetadataProvider {
+	readonly id = "openalex";
+	readonly label = "OpenAlex";
+
+	constructor(private baseUrl = OPENALEX_API) {}
+
+	async fetchByDoi(doi: string): Promise<PaperMetadata | null> {
+		const response = await httpGet(`${this.baseUrl}doi:${encodeURIComponent(doi)}`, "application/json", { cache: true });
+
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to fetch DOI metadata from ${this.label}: ${describeStatus(response.status)}`);
+		}
+
+		return parseOpenAlexResponse(response.json as Record<string, unknown>, doi);
+	}
+
+	/**
+	 * Open-access PDF links OpenAlex knows for a DOI (its locations are
+	 * built from Unpaywall data), best location first.
+	 */
+	async findOpenAccessPdfs(doi: string): Promise<string[]> {
+		const response = await httpGet(`${this.baseUrl}doi:${encodeURIComponent(doi)}`, "application/json", { cache: true });
+		if (response.status !== 200) return [];
+
+		const work = response.json as { best_oa_location?: OpenAlexLocation | null; locations?: OpenAlexLocation[] };
+		const urls = [work.best_oa_location, ...(work.locations ?? [])]
+			.map((l) => l?.pdf_url ?? "")
+			.filter(Boolean);
+		return Array.from(new Set(urls));
+	}
+}
+
+/**
+ * OpenAlex ships abstracts as an inverted index (word → positions).
+ * Rebuild the plain text by placing every word at its positions.
+ */
+function rebuildAbstract(index: Record<string, number[]> | null | undefined): string {
+	if (!index) return "";
+	const words: string[] = [];
+	for (const [word, positions] of Object.entries(index)) {
+		for (const pos of positions) words[pos] = word;
+	}
+	return words.filter((w) => w !== undefined).join(" ");
+}
+
+/**
+ * Parse an OpenAlex work object into our PaperMetadata format.
+ */
+function parseOpenAlexResponse(work: Record<string, unknown>, doi: string): PaperMetadata {
+	const title = (work.title as string | null) ?? (work.display_name as string | null) ?? "Untitled";
+
+	// Authors
+	const authorships = (work.authorships as Array<{
+		author?: { display_name?: string; orcid?: string | null };
+		author_position?: string;
+		institutions?: Array<{ display_name?: string }>;
+	}> | undefined) ?? [];
+	const authors = authorships.map((a) => ({
+		name: a.author?.display_name ?? "",
+		orcid: a.author?.orcid ?? "",
+		affiliations: (a.institutions ?? []).map((i) => i.display_name ?? ""),
+		sequence: a.author_position === "first" ? "first" : "additional",
+	}));
+
+	const abstract = rebuildAbstract(work.abstract_inverted_index as Record<string, number[]> | null);
+
+	// Journal / source
+	const primary = (work.primary_location as OpenAlexLocation | null) ?? {};
+	const source = primary.source ?? {};
+
+	// Volume, issue, pages
+	const biblio = (work.biblio as {
+		volume?: string | null; issue?: string | null; first_page?: string | null; last_page?: string | null;
+	} | undefined) ?? {};
+
+	// Date – publication_date is "YYYY-MM-DD"
+	const dateMatch = ((work.publication_date as string | null) ?? "").match(/^(\d{4})-(\d{2})/);
+	const year = (work.publication_year as number | null) ?? (dateMatch?.[1] ? Number(dateMatch[1]) : null);
+	const month = dateMatch?.[2] ? Number(dateMatch[2]) : null;
+
+	// Subjects – prefer keywords, fall back to top-level concepts
+	const keywords = (work.keywords as Array<{ display_name?: string }> | undefined) ?? [];
+	const concepts = (work.concepts as Array<{ display_name?: string; level?: number }> | undefined) ?? [];
+	const subjects = (keywords.length > 0 ? keywords : concepts.filter((c) => c.level === 0))
+		.map((k) => k.display_name ?? "")
+		.filter(Boolean);
+
+	// Work type
+	const rawType = (work.type as string | null) ?? "";
+	const type = OPENALEX_TYPES[rawType] ?? rawType;
+
+	// PDF link – best open-access location first
+	const bestOa = (work.best_oa_location as OpenAlexLocation | null) ?? {};
+	const pdfUrl = bestOa.pdf_url ?? primary.pdf_url ?? `https://doi.org/${doi}`;
+
+	return normalizePaper({
+		title,
+		authors,
+		abstract,
+		journal: source.display_name ?? "",
+		volume: biblio.volume ?? "",
+		issue: biblio.issue ?? "",
+		pages: joinPages(biblio.first_page, biblio.last_page),
+		year,
+		month,
+		doi,
+		doiUrl: `https://doi.org/${doi}`,
+		pdfUrl,
+		publisher: source.host_organization_name ?? "",
+		issn: source.issn ?? [],
+		subjects,
+		type,
+		source: "openalex",
+	});
+}
@@ -0,0 +1,84 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { describeStatus, httpGet } from "../http";
+import { normalizeIsbn } from "../isbn";
+
+const OPENLIBRARY_API = "https://openlibrary.org/api/books";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** The parts of an Open Library edition record we use. */
+interface OpenLibraryEdition {
+	title?: string;
+	subtitle?: string;
+	authors?: Array<{ name?: string }>;
+	contributors?: Array<{ role?: string; name?: string }>;
+	publishers?: string[];
+	publish_date?: string;
+	edition_name?: string;
+	isbn_10?: string[];
+	isbn_13?: string[];
+	subjects?: Array<string | { name?: string }>;
+	description?: string | { value?: string };
+}
+
+/**
+ * Open Library books API. Resolves ISBN-10s and ISBN-13s to book
+ * metadata, including editors and the edition.
+ */
+export class OpenLibraryProvider {
+	readonly id = "openlibrary";
+	readonly label = "Open Library";
+
+	constructor(private baseUrl = OPENLIBRARY_API) {}
+
+	async fetchByIsbn(isbn: string): Promise<PaperMetadata | null> {
+		const key = `ISBN:${isbn}`;
+		const response = await httpGet(`${this.baseUrl}?format=json&jscmd=details&bibkeys=${encodeURIComponent(key)}`, "application/json", { cache: true });
+
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to fetch book metadata from ${this.label}: ${describeStatus(response.status)}`);
+		}
+
+		// Unknown ISBNs are left out of the answer
+		const record = (response.json as Record<string, { details?: OpenLibraryEdition; info_url?: string } | undefined>)[key];
+		if (!record?.details) return null;
+		return parseOpenLibraryEdition(record.details, isbn, record.info_url ?? "");
+	}
+}
+
+/**
+ * Parse an Open Library edition record into our PaperMetadata format.
+ */
+function parseOpenLibraryEdition(edition: OpenLibraryEdition, isbn: string, url: string): PaperMetadata {
+	const title = [edition.title, edition.subtitle].filter(Boolean).join(": ");
+	const authors = (edition.authors ?? []).map((a) => a.name ?? "").filter(Boolean);
+	const editors = (edition.contributors ?? [])
+		.filter((c) => /editor/i.test(c.role ?? ""))
+		.map((c) => c.name ?? "")
+		.filter(Boolean);
+
+	// Dates come as "2009", "Sep 2009" or "September 1, 2009"
+	const date = edition.publish_date ?? "";
+	const year = date.match(/\d{4}/)?.[0];
+	const monthIndex = MONTHS.indexOf((date.match(/[A-Za-z]{3,}/)?.[0] ?? "").slice(0, 3).toLowerCase());
+
+	const isbns = [isbn, ...(edition.isbn_13 ?? []), ...(edition.isbn_10 ?? [])].map(normalizeIsbn).filter(Boolean);
+	const description = typeof edition.description === "string" ? edition.description : edition.description?.value ?? "";
+
+	return normalizePaper({
+		title: title || "Untitled",
+		authors,
+		editors,
+		abstract: description.trim(),
+		year: year ? Number(year) : null,
+		month: monthIndex >= 0 ? monthIndex + 1 : null,
+		doiUrl: url,
+		publisher: edition.publishers?.[0] ?? "",
+		edition: edition.edition_name ?? "",
+		isbn: [...new Set(isbns)],
+		subjects: (edition.subjects ?? []).map((s) => (typeof s === "string" ? s : s.name ?? "")).filter(Boolean),
+		type: authors.length === 0 && editors.length > 0 ? "edited-book" : "book",
+		source: "openlibrary",
+	});
+}
@@ -0,0 +1,27 @@
+import { PaperMetadata } from "../types";
+
+/**
+ * A metadata source that can resolve a DOI into PaperMetadata.
+ *
+ * Providers return `null` when the source does not know the DOI
+ * (HTTP 404) so the chain can fall through to the next one. Any
+ * other failure is thrown.
+ */
+export interface MetadataProvider {
+	/** Stable identifier used in settings and frontmatter. */
+	readonly id: string;
+	/** Human readable name for notices. */
+	readonly label: string;
+	fetchByDoi(doi: string): Promise<PaperMetadata | null>;
+}
+
+/** Remove JATS/HTML tags that some APIs embed in abstracts. */
+export function stripMarkup(value: string): string {
+	return (value ?? "").replace(/<[^>]+>/g, "").trim();
+}
+
+/** Join first/last page into a single "12-34" style range. */
+export function joinPages(first?: string | null, last?: string | null): string {
+	if (first && last && first !== last) return `${first}-${last}`;
+	return first ?? last ?? "";
+}
@@ -0,0 +1,128 @@
+import { PaperMetadata, normalizePaper } from "../types";
+import { describeStatus, httpGet } from "../http";
+
+const EFETCH_API = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi";
+const IDCONV_API = "https://www.ncbi.nlm.nih.gov/pmc/utils/idconv/v1.0/";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** Identifiers NCBI knows for a PubMed Central article. */
+export interface PmcIds {
+	pmid: string;
+	doi: string;
+}
+
+/**
+ * PubMed E-utilities. Resolves PubMed IDs to metadata (including the
+ * DOI when PubMed has one) and PMCIDs to PubMed IDs and DOIs.
+ */
+export class PubMedProvider {
+	readonly id = "pubmed";
+	readonly label = "PubMed";
+
+	constructor(private efetchUrl = EFETCH_API, private idconvUrl = IDCONV_API) {}
+
+	async fetchByPmid(pmid: string): Promise<PaperMetadata | null> {
+		const response = await httpGet(`${this.efetchUrl}?db=pubmed&retmode=xml&id=${encodeURIComponent(pmid)}`, "application/xml", { cache: true });
+
+		// Unknown or malformed ids are rejected with 400
+		if (response.status === 404 || response.status === 400) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to fetch PubMed metadata: ${describeStatus(response.status)}`);
+		}
+
+		const doc = new DOMParser().parseFromString(response.text, "application/xml");
+		const article = doc.getElementsByTagName("PubmedArticle")[0];
+		return article ? parsePubmedArticle(article, pmid) : null;
+	}
+
+	/** The PubMed ID and DOI of a PubMed Central article, or null when unknown. */
+	async idsForPmcid(pmcid: string): Promise<PmcIds | null> {
+		const response = await httpGet(`${this.idconvUrl}?format=json&ids=${encodeURIComponent(pmcid)}`, "application/json", { cache: true });
+
+		if (response.status === 404) return null;
+		if (response.status !== 200) {
+			throw new Error(`Failed to resolve ${pmcid}: ${describeStatus(response.status)}`);
+		}
+
+		const record = (response.json as { records?: Array<{ pmid?: string; doi?: string; status?: string }> }).records?.[0];
+		if (!record || record.status === "error" || (!record.pmid && !record.doi)) return null;
+		return { pmid: record.pmid ?? "", doi: record.doi ?? "" };
+	}
+}
+
+/** Trimmed text of the first descendant with the given tag name. */
+function xmlText(parent: Element, name: string): string {
+	return (parent.getElementsByTagName(name)[0]?.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** Value of the first descendant `tag` whose `attr` equals `value`. */
+function xmlTextWhere(parent: Element, tag: string, attr: string, value: string): string {
+	const el = Array.from(parent.getElementsByTagName(tag)).find((e) => e.getAttribute(attr) === value);
+	return (el?.textContent ?? "").trim();
+}
+
+/** Month of a PubMed date: "Aug", "08", or the first month of a "Jul-Aug" MedlineDate. */
+function parseMonth(value: string): number | null {
+	const numeric = Number(value);
+	if (value && !Number.isNaN(numeric)) return numeric >= 1 && numeric <= 12 ? numeric : null;
+	const index = MONTHS.indexOf(value.slice(0, 3).toLowerCase());
+	return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Parse a `<PubmedArticle>` from efetch into our PaperMetadata format.
+ */
+function parsePubmedArticle(article: Element, pmid: string): PaperMetadata {
+	const authors = Array.from(article.getElementsByTagName("Author")).map((a) => {
+		const collective = xmlText(a, "CollectiveName");
+		if (collective) return { name: collective };
+		return {
+			given: xmlText(a, "ForeName") || xmlText(a, "Initials"),
+			family: xmlText(a, "LastName"),
+			orcid: xmlTextWhere(a, "Identifier", "Source", "ORCID"),
+			affiliations: Array.from(a.getElementsByTagName("Affiliation")).map((af) => af.textContent ?? ""),
+		};
+	});
+
+	// Structured abstracts come in labelled sections
+	const abstract = Array.from(article.getElementsByTagName("AbstractText"))
+		.map((p) => {
+			const label = p.getAttribute("Label");
+			const text = (p.textContent ?? "").replace(/\s+/g, " ").trim();
+			return label ? `${label}: ${text}` : text;
+		})
+		.join("\n\n");
+
+	const pubDate = article.getElementsByTagName("PubDate")[0];
+	const medlineDate = pubDate ? xmlText(pubDate, "MedlineDate") : "";
+	const yearText = (pubDate ? xmlText(pubDate, "Year") : "") || (medlineDate.match(/\d{4}/)?.[0] ?? "");
+	const monthText = (pubDate ? xmlText(pubDate, "Month") : "") || (medlineDate.match(/^\d{4}\s+([A-Za-z]{3})/)?.[1] ?? "");
+
+	// The reference list has ArticleIdLists of its own; the article's comes first
+	const ids = article.getElementsByTagName("PubmedData")[0]?.getElementsByTagName("ArticleIdList")[0];
+	const articleId = (type: string) => (ids ? xmlTextWhere(ids, "ArticleId", "IdType", type) : "");
+	const doi = articleId("doi") || xmlTextWhere(article, "ELocationID", "EIdType", "doi");
+	const issn = Array.from(article.getElementsByTagName("ISSN")).map((i) => (i.textContent ?? "").trim()).filter(Boolean);
+	const keywords = Array.from(article.getElementsByTagName("Keyword")).map((k) => (k.textContent ?? "").trim()).filter(Boolean);
+
+	return normalizePaper({
+		title: xmlText(article, "ArticleTitle").replace(/\.$/, "") || "Untitled",
+		authors,
+		abstract,
+		journal: xmlText(article, "Title") || xmlText(article, "ISOAbbreviation"),
+		volume: xmlText(article, "Volume"),
+		issue: xmlText(article, "Issue"),
+		pages: xmlText(article, "MedlinePgn"),
+		year: yearText ? Number(yearText) : null,
+		month: parseMonth(monthText),
+		doi,
+		doiUrl: doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+		issn,
+		subjects: keywords,
+		type: "journal-article",
+		source: "pubmed",
+		pmid,
+		pmcid: articleId("pmc"),
+	});
+}
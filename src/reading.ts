@@ -0,0 +1,130 @@
+import { TFile } from "obsidian";
+import { fmString } from "./note";
+import type EasyPaperImporter from "./main";
+
+/** The reading workflow, in order. Notes move along it one step at a time. */
+export const READING_STATUSES = ["to-read", "reading", "read", "summarised"] as const;
+export type ReadingStatus = typeof READING_STATUSES[number];
+
+/** Date properties stamped when a paper reaches a status. */
+const STATUS_DATES: Partial<Record<ReadingStatus, string>> = {
+	reading: "date_started",
+	read: "date_read",
+};
+
+/** Property holding the date a read paper is next due for review. */
+const REVIEW_DATE = "review_date";
+
+/** Words accepted in the `priority` property, as their numeric priority. */
+const PRIORITY_WORDS: Record<string, number> = { high: 1, medium: 2, low: 3 };
+
+/**
+ * The status after `current`, or null when the paper is summarised.
+ * Notes without a status, or with one outside the workflow (such as a
+ * custom initial status), start at "to-read".
+ */
+export function nextReadingStatus(current: string): ReadingStatus | null {
+	const index = READING_STATUSES.findIndex((s) => s === current);
+	if (index < 0) return READING_STATUSES[0];
+	return READING_STATUSES[index + 1] ?? null;
+}
+
+/** The date `days` after today, as YYYY-MM-DD. */
+function isoDate(days = 0): string {
+	return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split("T")[0] ?? "";
+}
+
+/**
+ * Move a paper note to its next reading status and stamp the date it
+ * started or finished reading, unless the note already has one. A
+ * paper that is read is also given a review date when reminders are
+ * on. Only the frontmatter is written. Returns the new status, or null
+ * when the paper is already summarised.
+ */
+export async function advanceReadingStatus(plugin: EasyPaperImporter, file: TFile): Promise<ReadingStatus | null> {
+	const fm = plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+	const status = nextReadingStatus(fmString(fm.status));
+	if (!status) return null;
+
+	const interval = plugin.settings.reviewIntervalDays;
+	await plugin.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		frontmatter.status = status;
+		const dateKey = STATUS_DATES[status];
+		if (dateKey && !fmString(frontmatter[dateKey])) frontmatter[dateKey] = isoDate();
+		if (status === "read" && interval > 0 && !fmString(frontmatter[REVIEW_DATE])) {
+			frontmatter[REVIEW_DATE] = isoDate(interval);
+		}
+	});
+	return status;
+}
+
+/**
+ * Record that a paper was reviewed today and schedule its next review,
+ * or drop the review date when reminders are off. Returns the next
+ * review date, or null when none is set.
+ */
+export async function markPaperReviewed(plugin: EasyPaperImporter, file: TFile): Promise<string | null> {
+	const interval = plugin.settings.reviewIntervalDays;
+	const next = interval > 0 ? isoDate(interval) : null;
+	await plugin.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		frontmatter.date_reviewed = isoDate();
+		if (next) frontmatter[REVIEW_DATE] = next;
+		else delete frontmatter[REVIEW_DATE];
+	});
+	return next;
+}
+
+/** Paper notes whose review date has come, the longest overdue first. */
+export function papersDueForReview(plugin: EasyPaperImporter): TFile[] {
+	const { app } = plugin;
+	const today = Date.parse(isoDate());
+	const due: Array<{ file: TFile; date: number }> = [];
+	for (const path of plugin.paperIndex.getIndexedPaths()) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) continue;
+		const fm = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const date = Date.parse(fmString(fm[REVIEW_DATE]));
+		if (!isNaN(date) && date <= today) due.push({ file, date });
+	}
+	return due.sort((a, b) => a.date - b.date).map((d) => d.file);
+}
+
+/** Numeric priority of a note (1 is the most urgent), or null when it has none. */
+function priorityOf(fm: Record<string, unknown>): number | null {
+	const value = fmString(fm.priority).toLowerCase();
+	if (!value) return null;
+	const numeric = Number(value);
+	return isNaN(numeric) ? PRIORITY_WORDS[value] ?? null : numeric;
+}
+
+/**
+ * The paper to read next among the notes waiting to be read (status
+ * "to-read" or the configured initial status). Ordered by age, oldest
+ * import first, or with "priority" by the `priority` property first
+ * (1 or "high" before 2 or "medium"; notes without one last). Returns
+ * null when the queue is empty.
+ */
+export function nextPaperToRead(plugin: EasyPaperImporter): TFile | null {
+	const { app, settings } = plugin;
+	const queued = new Set<string>([READING_STATUSES[0], settings.initialReadingStatus].filter(Boolean));
+
+	const queue: Array<{ file: TFile; priority: number | null; imported: number }> = [];
+	for (const path of plugin.paperIndex.getIndexedPaths()) {
+		const file = app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) continue;
+		const fm = (app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		if (!queued.has(fmString(fm.status))) continue;
+		const imported = Date.parse(fmString(fm.date_imported));
+		queue.push({ file, priority: priorityOf(fm), imported: isNaN(imported) ? file.stat.ctime : imported });
+	}
+
+	queue.sort((a, b) => {
+		if (settings.readingQueueOrder === "priority" && a.priority !== b.priority) {
+			if (a.priority == null) return 1;
+			if (b.priority == null) return -1;
+			return a.priority - b.priority;
+		}
+		return a.imported - b.imported;
+	});
+	return queue[0]?.file ?? null;
+}
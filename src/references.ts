@@ -0,0 +1,60 @@
+import { TFile } from "obsidian";
+import { PaperMetadata, Reference } from "./types";
+import { importUri } from "./uri";
+import type EasyPaperImporter from "./main";
+
+/**
+ * Plain citation for a reference without a note, e.g.
+ * "Smith (2020). Deep learning. *Nature*." The raw citation text is used
+ * when the source gives nothing better.
+ */
+export function formatReference(ref: Reference): string {
+	if (!ref.title && ref.unstructured) return ref.unstructured;
+	const parts: string[] = [];
+	if (ref.author || ref.year) parts.push(`${ref.author || "Unknown"}${ref.year ? ` (${ref.year})` : ""}.`);
+	if (ref.title) parts.push(`${ref.title.replace(/\.$/, "")}.`);
+	if (ref.journal) parts.push(`*${ref.journal}*.`);
+	return parts.join(" ") || ref.doi;
+}
+
+/**
+ * Append a "References" section to a paper note and list the cited
+ * papers that already have notes in its `cites` property. References
+ * known to the index become links to their notes; the rest are written
+ * as citations with a link to import them. Returns the number of
+ * references linked to existing notes.
+ */
+export async function linkReferences(plugin: EasyPaperImporter, file: TFile, paper: PaperMetadata): Promise<number> {
+	const { app } = plugin;
+	if (paper.references.length === 0) return 0;
+
+	const cites: string[] = [];
+	const lines = paper.references.map((ref, i) => {
+		const dup = plugin.paperIndex.findDuplicates({
+			doi: ref.doi,
+			title: ref.title,
+			authors: ref.author ? [ref.author] : undefined,
+			year: ref.year,
+		}).find((d) => d.path !== file.path);
+		const target = dup ? app.vault.getAbstractFileByPath(dup.path) : null;
+		let entry: string;
+		if (target instanceof TFile) {
+			const link = `[[${app.metadataCache.fileToLinktext(target, file.path, true)}]]`;
+			if (!cites.includes(link)) cites.push(link);
+			entry = link;
+		} else if (ref.doi) {
+			entry = `${formatReference(ref)} [${ref.doi}](https://doi.org/${ref.doi}) · [Import](${importUri(ref.doi)})`;
+		} else {
+			entry = formatReference(ref);
+		}
+		return `${i + 1}. ${entry}`;
+	});
+
+	if (cites.length > 0) {
+		await app.fileManager.processFrontMatter(file, (fm: Record<string, unknown>) => {
+			fm.cites = cites;
+		});
+	}
+	await app.vault.process(file, (content) => `${content.replace(/\s*$/, "")}\n\n## References\n\n${lines.join("\n")}\n`);
+	return cites.length;
+}
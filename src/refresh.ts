@@ -0,0 +1,163 @@
+import { TFile } from "obsidian";
+import { PaperMetadata, mergePapers } from "./types";
+import { fetchPaperMetadata } from "./doi";
+import { PropertyValue, fmList, fmString, paperFromFrontmatter, paperProperties, stripWikiLink } from "./note";
+import { syncAuthorNotes } from "./authors";
+import { createRateLimiter } from "./concurrency";
+import type EasyPaperImporter from "./main";
+
+/** Minimum spacing between lookups during a library-wide refresh. */
+const REQUEST_INTERVAL_MS = 250;
+
+export interface FieldChange {
+	key: string;
+	/** Current frontmatter value; undefined when the property is missing. */
+	before: unknown;
+	after: PropertyValue;
+	/** Whether the change will be written. */
+	accepted: boolean;
+}
+
+export interface RefreshResult {
+	file: TFile;
+	/** The freshly fetched metadata. */
+	paper?: PaperMetadata;
+	changes: FieldChange[];
+	error?: string;
+}
+
+/** Compare values as text so that 2020 and "2020" and a link to "Name" and "Name" are equal. */
+function sameValue(before: unknown, after: PropertyValue): boolean {
+	const asList = (v: unknown) => (Array.isArray(v) ? v : v == null || v === "" ? [] : [v]).map((x) => stripWikiLink(fmString(x)));
+	return JSON.stringify(asList(before)) === JSON.stringify(asList(after));
+}
+
+/** Display text for a property value. */
+export function formatValue(value: unknown): string {
+	if (Array.isArray(value)) return value.map(fmString).join("; ") || "(empty)";
+	return fmString(value) || "(empty)";
+}
+
+/**
+ * Fetch the current metadata for a note by its `doi` (or `arxiv`, or
+ * `pmid`) property. When the arXiv record of a preprint names a
+ * published version, that version of record is fetched and takes
+ * precedence, keeping the arXiv fields. The identifier the note was
+ * imported by is kept.
+ */
+async function fetchLatest(plugin: EasyPaperImporter, current: PaperMetadata): Promise<PaperMetadata> {
+	const providers = plugin.settings.metadataProviders;
+	const identifier = current.doi || (current.arxivId ? `arXiv:${current.arxivId}` : "") || (current.pmid ? `PMID:${current.pmid}` : "");
+	if (!identifier) throw new Error("The note has no doi, arxiv or pmid property.");
+
+	const fetched = { ...await fetchPaperMetadata(identifier, providers), identifierType: current.identifierType };
+	if (!fetched.publishedDoi) return fetched;
+	try {
+		return mergePapers(await fetchPaperMetadata(fetched.publishedDoi, providers), fetched);
+	} catch (e) {
+		console.warn("Easy Paper Importer: version of record lookup failed for", fetched.publishedDoi, e);
+		return fetched;
+	}
+}
+
+/**
+ * Re-fetch a paper note and list the properties that would change.
+ * Only properties the plugin writes are compared, never the body or
+ * custom properties, and a value the provider no longer returns is
+ * kept rather than removed.
+ */
+export async function refreshNote(plugin: EasyPaperImporter, file: TFile): Promise<RefreshResult> {
+	const fm = (plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+	let paper: PaperMetadata;
+	try {
+		const current = paperFromFrontmatter(fm);
+		paper = { ...await fetchLatest(plugin, current), citekey: current.citekey };
+	} catch (e) {
+		return { file, changes: [], error: e instanceof Error ? e.message : String(e) };
+	}
+
+	return { file, paper, changes: compareProperties(plugin, fm, paper) };
+}
+
+/**
+ * The plugin's properties for `paper` that differ from a note's
+ * frontmatter, all accepted. A value the paper lacks is never listed.
+ * Tags are merged rather than replaced: only subjects the note lacks
+ * are added, so tags from the user, Zotero or import links are kept.
+ */
+export function compareProperties(plugin: EasyPaperImporter, fm: Record<string, unknown>, paper: PaperMetadata): FieldChange[] {
+	const changes: FieldChange[] = [];
+	for (const [key, value] of paperProperties(paper, plugin.settings)) {
+		const before = fm[key];
+		// A PDF saved in the vault beats the publisher's link
+		if (key === "pdf" && typeof before === "string" && before.startsWith("[[")) continue;
+		let after = value;
+		if (key === "tags" && Array.isArray(value)) {
+			const current = fmList(before);
+			const added = value.filter((t) => !current.includes(t));
+			if (added.length === 0) continue;
+			after = [...current, ...added];
+		}
+		if (!sameValue(before, after)) changes.push({ key, before, after, accepted: true });
+	}
+	return changes;
+}
+
+/**
+ * Refresh every indexed paper note one at a time, spacing out the
+ * lookups. Notes without changes are included with an empty list.
+ */
+export async function refreshLibrary(
+	plugin: EasyPaperImporter,
+	onProgress?: (done: number, total: number) => void,
+): Promise<RefreshResult[]> {
+	const files = plugin.paperIndex.getIndexedPaths()
+		.map((path) => plugin.app.vault.getAbstractFileByPath(path))
+		.filter((f): f is TFile => f instanceof TFile);
+	const rateLimit = createRateLimiter(REQUEST_INTERVAL_MS);
+
+	const results: RefreshResult[] = [];
+	for (const [i, file] of files.entries()) {
+		await rateLimit();
+		results.push(await refreshNote(plugin, file));
+		onProgress?.(i + 1, files.length);
+	}
+	return results;
+}
+
+/**
+ * Write the accepted changes into the note's frontmatter, leaving every
+ * other property and the body untouched, and keep the fetched metadata
+ * for exports. Returns the number of properties written.
+ */
+export async function applyRefresh(plugin: EasyPaperImporter, result: RefreshResult): Promise<number> {
+	if (result.paper) await plugin.metadataStore.remember(result.paper);
+	const accepted = result.changes.filter((c) => c.accepted);
+	if (accepted.length === 0) return 0;
+
+	await plugin.app.fileManager.processFrontMatter(result.file, (fm: Record<string, unknown>) => {
+		for (const change of accepted) fm[change.key] = change.after;
+	});
+
+	// Register a new DOI/title and search fields straight away; the old keys keep pointing here too
+	const after = (key: string) => accepted.find((c) => c.key === key)?.after;
+	const value = (key: string) => {
+		const v = after(key);
+		return typeof v === "string" ? v : undefined;
+	};
+	const authors = after("authors");
+	const year = after("year");
+	plugin.paperIndex.recordImport(result.file.path, {
+		doi: value("doi"),
+		title: value("title"),
+		arxiv: value("arxiv"),
+		authors: Array.isArray(authors) ? authors : undefined,
+		year: Array.isArray(year) ? undefined : year,
+	});
+
+	// New author names replace the links; link them to author notes again
+	if (plugin.settings.authorNotes && result.paper && accepted.some((c) => c.key === "authors")) {
+		await syncAuthorNotes(plugin, result.file, result.paper);
+	}
+	return accepted.length;
+}
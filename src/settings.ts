@@ -1,29 +1,129 @@
-import { App, FuzzySuggestModal, PluginSettingTab, Setting, TFile, TFolder, TextComponent } from "obsidian";
+import { App, FuzzySuggestModal, Notice, PluginSettingTab, Setting, TFile, TFolder, TextComponent } from "obsidian";
 import EasyPaperImporter from "./main";
+import { DEFAULT_PROVIDER_CHAIN, PROVIDER_IDS } from "./providers";
+import { paperTemplateContext } from "./note";
+import { renderTemplate } from "./template";
+import { normalizePaper } from "./types";
+import { DEFAULT_CITEKEY_PATTERN, generateCitekey } from "./citekey";
+import { BibliographyOrder, CITATION_STYLES, CitationStyle } from "./bibliography";
+import { bookmarklet } from "./uri";
 
 export interface EasyPaperSettings {
 	/** Folder in the vault where paper notes are saved. */
 	paperFolder: string;
 	noteTitleFormat: string;
+	/** Pattern for generated citekeys, e.g. "[auth:lower][year][shorttitle:1]". */
+	citekeyPattern: string;
 	metadataFields: string[];
 	includeImportDate: boolean;
 	includePdfField: boolean;
 	templateFilePath?: string;
 	confirmDuplicateImports: boolean;
+	/** Title similarity (0–1) from which two papers count as duplicates. */
+	duplicateTitleThreshold: number;
 	customProperties: string[];
+	/** Frontmatter properties whose value is rendered from a template. */
+	propertyTemplates: Record<string, string>;
+	/** Ordered provider ids to try when resolving a DOI. */
+	metadataProviders: string[];
+	/** Contact address sent to metadata providers; puts CrossRef requests in its polite pool. */
+	contactEmail: string;
+	/** Days a cached provider response is reused without asking again; 0 disables the cache. */
+	cacheTtlDays: number;
+	/** Re-fetch metadata for bulk-imported entries that carry a DOI. */
+	enrichBulkImports: boolean;
+	/** Write the reference list into new notes and link cited papers. */
+	importReferences: boolean;
+	/** `status` given to new notes, e.g. "to-read"; empty leaves it unset. */
+	initialReadingStatus: string;
+	/** How "Open next paper to read" picks from the queue. */
+	readingQueueOrder: "priority" | "age";
+	/** Days after a paper is read (or last reviewed) until it is due for review; 0 turns reminders off. */
+	reviewIntervalDays: number;
+	/** Better BibTeX or CSL-JSON export of a Zotero library: an absolute path or a vault path. */
+	zoteroExportPath: string;
+	/** Vault path of the exported BibTeX library. */
+	bibtexExportPath: string;
+	/** Re-export the BibTeX library whenever a paper note changes. */
+	bibtexAutoExport: boolean;
+	/** Download an open-access PDF for each imported paper. */
+	downloadPdfs: boolean;
+	/** Attachments folder for downloaded PDFs. */
+	pdfFolder: string;
+	/** Downloads larger than this are rejected. */
+	pdfMaxSizeMb: number;
+	/** New PDFs in this folder become paper notes; empty disables it. */
+	pdfWatchFolder: string;
+	/** Keep one note per author and link paper notes to them. */
+	authorNotes: boolean;
+	/** Folder for author notes. */
+	authorFolder: string;
+	/** Text that opens the citation suggester in the editor; empty disables it. */
+	citePrefix: string;
+	/** What choosing a paper in the citation suggester inserts. */
+	citeFormat: "wikilink" | "pandoc";
+	/** Style of the generated bibliography block. */
+	bibliographyStyle: CitationStyle;
+	/** Order of the bibliography entries. */
+	bibliographyOrder: BibliographyOrder;
 }
 
 export const DEFAULT_SETTINGS: EasyPaperSettings = {
 	paperFolder: "Papers",
-	noteTitleFormat: "{{first_authors}}_{{year}}",
+	noteTitleFormat: "{{citekey}}",
+	citekeyPattern: DEFAULT_CITEKEY_PATTERN,
 	metadataFields: ['title', 'authors', 'year', 'doi'],
 	includeImportDate: true,
 	includePdfField: true,
 	templateFilePath: "",
 	confirmDuplicateImports: true,
+	duplicateTitleThreshold: 0.9,
 	customProperties: [],
+	propertyTemplates: {},
+	metadataProviders: [...DEFAULT_PROVIDER_CHAIN],
+	contactEmail: "",
+	cacheTtlDays: 30,
+	enrichBulkImports: true,
+	importReferences: false,
+	initialReadingStatus: "to-read",
+	readingQueueOrder: "priority",
+	reviewIntervalDays: 30,
+	zoteroExportPath: "",
+	bibtexExportPath: "library.bib",
+	bibtexAutoExport: false,
+	downloadPdfs: false,
+	pdfFolder: "Papers/PDFs",
+	pdfMaxSizeMb: 50,
+	pdfWatchFolder: "",
+	authorNotes: false,
+	authorFolder: "Authors",
+	citePrefix: "[@",
+	citeFormat: "wikilink",
+	bibliographyStyle: "apa",
+	bibliographyOrder: "appearance",
 };
 
+/** Error message for an invalid paper template, or "" when it renders. */
+function templateError(template: string): string {
+	try {
+		renderTemplate(template, paperTemplateContext(normalizePaper({})));
+		return "";
+	} catch (e) {
+		return e instanceof Error ? e.message : String(e);
+	}
+}
+
+/** Parse "key: template" lines into property templates. */
+function parsePropertyTemplates(text: string): Record<string, string> {
+	const templates: Record<string, string> = {};
+	for (const line of text.split("\n")) {
+		const sep = line.indexOf(":");
+		const key = line.slice(0, sep).trim();
+		if (sep > 0 && key) templates[key] = line.slice(sep + 1).trim();
+	}
+	return templates;
+}
+
 class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
 	private onChoose: (folder: TFolder) => void;
 
@@ -54,16 +154,18 @@ class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
 	}
 }
 
-class FileSuggestModal extends FuzzySuggestModal<TFile> {
+export class FileSuggestModal extends FuzzySuggestModal<TFile> {
 	private onChoose: (file: TFile) => void;
+	private extensions: string[];
 
-	constructor(app: App, onChoose: (file: TFile) => void) {
+	constructor(app: App, onChoose: (file: TFile) => void, extensions: string[] = ['md']) {
 		super(app);
 		this.onChoose = onChoose;
+		this.extensions = extensions;
 	}
 
 	getItems(): TFile[] {
-		return this.app.vault.getFiles().filter(f => f.extension === 'md');
+		return this.app.vault.getFiles().filter(f => this.extensions.includes(f.extension));
 	}
 
 	getItemText(item: TFile): string {
@@ -121,16 +223,43 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 				})
 			);
 		
-		new Setting(containerEl)
+		const titleSetting = new Setting(containerEl)
 			.setName("Note title")
-			.setDesc("Define the note title format using metadata keys in double curly braces. E.g. {{title}} - {{authors}} ({{year}}). The default behaviour of {{authors}} is to only include the first author followed.")
-			.addText((text) => text
-					.setPlaceholder("{{first_authors}}_{{year}}")
+			.setDesc("Define the note title format with the same template language as note bodies. E.g. {{first_authors}} - {{title | truncate:50}} ({{year}}). {{first_author}} is the first author's surname, {{first_authors}} adds \"et al.\" when there are more authors and {{authors}} lists them all.");
+		const titleError = titleSetting.descEl.createDiv({ cls: "mod-warning" });
+		titleSetting.addText((text) => text
+					.setPlaceholder(DEFAULT_SETTINGS.noteTitleFormat)
 					.setValue(this.plugin.settings.noteTitleFormat)
 					.onChange(async (value) => {
-						this.plugin.settings.noteTitleFormat = value.trim() || "{{first_authors}}_{{year}}";
+						this.plugin.settings.noteTitleFormat = value.trim() || DEFAULT_SETTINGS.noteTitleFormat;
+						titleError.setText(templateError(this.plugin.settings.noteTitleFormat));
 						await this.plugin.saveSettings();
 					}));
+		titleError.setText(templateError(this.plugin.settings.noteTitleFormat));
+
+		const citekeySetting = new Setting(containerEl)
+			.setName("Citekey pattern")
+			.setDesc("Pattern for the citekey of new notes, available as {{citekey}}. Fields: [auth], [authors:N], [authetal], [year], [shortyear], [shorttitle:N], [title], [journal]; modifiers: lower, upper, capitalize. Clashing keys get a, b, c… suffixes.");
+		const citekeyExample = citekeySetting.descEl.createDiv();
+		const showCitekeyExample = () => {
+			try {
+				const sample = normalizePaper({ title: "On the Électrodynamics of Moving Bodies", authors: ["Albert Einstein"], year: 1905 });
+				citekeyExample.setText(`Example: ${generateCitekey(sample, this.plugin.settings.citekeyPattern)}`);
+				citekeyExample.removeClass("mod-warning");
+			} catch (e) {
+				citekeyExample.setText(e instanceof Error ? e.message : String(e));
+				citekeyExample.addClass("mod-warning");
+			}
+		};
+		citekeySetting.addText((text) => text
+			.setPlaceholder(DEFAULT_CITEKEY_PATTERN)
+			.setValue(this.plugin.settings.citekeyPattern)
+			.onChange(async (value) => {
+				this.plugin.settings.citekeyPattern = value.trim() || DEFAULT_CITEKEY_PATTERN;
+				showCitekeyExample();
+				await this.plugin.saveSettings();
+			}));
+		showCitekeyExample();
 
 		new Setting(containerEl).setName("Metadata").setHeading();
 		containerEl.createEl("p", {
@@ -149,6 +278,48 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 				await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Metadata providers')
+			.setDesc(`Comma-separated, ordered list of sources to query for a DOI. The next one is tried when a source does not know the DOI. Available: ${PROVIDER_IDS.join(', ')}.`)
+			.addText(t => t
+				.setPlaceholder(DEFAULT_PROVIDER_CHAIN.join(', '))
+				.setValue(this.plugin.settings.metadataProviders.join(', '))
+				.onChange(async v => {
+					this.plugin.settings.metadataProviders = v.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Contact email')
+			.setDesc('Sent along with metadata requests. CrossRef answers requests that include a contact address from a faster, more reliable pool of servers.')
+			.addText(t => t
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setPlaceholder('you@example.org')
+				.setValue(this.plugin.settings.contactEmail)
+				.onChange(async v => {
+					this.plugin.settings.contactEmail = v.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Response cache')
+			.setDesc('Days to keep provider responses on disk. Re-imports and refreshes within this time need no network, and older responses are still used when offline. Set to 0 to disable.')
+			.addText(t => t
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.cacheTtlDays))
+				.onChange(async v => {
+					const days = Number(v);
+					if (!Number.isFinite(days) || days < 0) return;
+					this.plugin.settings.cacheTtlDays = days;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(b => b
+				.setButtonText('Clear cache')
+				.onClick(async () => {
+					const removed = await this.plugin.responseCache.clear();
+					new Notice(`Removed ${removed} cached responses.`);
+				}));
+
 		new Setting(containerEl)
 			.setName('Include import date')
 			.setDesc('Toggle including the date when the paper was imported as part of the note metadata. This does not modify existing imports and only applies to imports when the setting is enabled.')
@@ -175,9 +346,15 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 		});
 
 		let templateInput: TextComponent;
-		new Setting(containerEl)
+		const templateSetting = new Setting(containerEl)
 			.setName('Template file path')
-			.setDesc('Set the path to a markdown file in your vault to use as a template. If empty, no template will be used.')
+			.setDesc('Set the path to a markdown file in your vault to use as a template. If empty, no template will be used.');
+		const templateFileError = templateSetting.descEl.createDiv({ cls: "mod-warning" });
+		const checkTemplateFile = async () => {
+			const file = this.app.vault.getAbstractFileByPath(this.plugin.settings.templateFilePath ?? '');
+			templateFileError.setText(file instanceof TFile ? templateError(await this.app.vault.cachedRead(file)) : '');
+		};
+		templateSetting
 			.addText(t => {
 				templateInput = t;
 				t.setPlaceholder('No template selected')
@@ -191,6 +368,7 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 						this.plugin.settings.templateFilePath = file.path;
 						await this.plugin.saveSettings();
 						templateInput.setValue(file.path);
+						await checkTemplateFile();
 					}).open();
 				})
 			)
@@ -200,8 +378,10 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 					this.plugin.settings.templateFilePath = '';
 					await this.plugin.saveSettings();
 					templateInput.setValue('');
+					templateFileError.setText('');
 				})
 			);
+		void checkTemplateFile();
 
 		new Setting(containerEl)
 			.setName('Custom properties')
@@ -214,6 +394,29 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		const propertySetting = new Setting(containerEl)
+			.setName('Property templates')
+			.setDesc('One "property: template" per line. The value is rendered with the note template language, e.g. "status: {{#if pdf}}to-read{{else}}no-pdf{{/if}}".');
+		const propertyError = propertySetting.descEl.createDiv({ cls: "mod-warning" });
+		const checkPropertyTemplates = () => {
+			const errors = Object.entries(this.plugin.settings.propertyTemplates)
+				.map(([key, template]) => {
+					const error = templateError(template);
+					return error ? `${key}: ${error}` : "";
+				})
+				.filter(Boolean);
+			propertyError.setText(errors.join("\n"));
+		};
+		propertySetting.addTextArea(t => t
+			.setPlaceholder('citation: {{first_authors}} ({{year}})')
+			.setValue(Object.entries(this.plugin.settings.propertyTemplates).map(([k, v]) => `${k}: ${v}`).join('\n'))
+			.onChange(async v => {
+				this.plugin.settings.propertyTemplates = parsePropertyTemplates(v);
+				checkPropertyTemplates();
+				await this.plugin.saveSettings();
+			}));
+		checkPropertyTemplates();
+
 		new Setting(containerEl).setName("Extras").setHeading();
 		containerEl.createEl("p", {
 			text: "More functionality."
@@ -228,5 +431,307 @@ export class EasyPaperSettingTab extends PluginSettingTab {
 					this.plugin.settings.confirmDuplicateImports = v;
 					await this.plugin.saveSettings();
 			}));
+
+		new Setting(containerEl)
+			.setName('Duplicate title similarity')
+			.setDesc('How alike two titles must be (in percent) to count as the same paper. Differences in punctuation, accents or a missing subtitle are tolerated. Title matches with no author in common, or years far apart, are never duplicates.')
+			.addSlider(s => s
+				.setLimits(70, 100, 1)
+				.setDynamicTooltip()
+				.setValue(Math.round(this.plugin.settings.duplicateTitleThreshold * 100))
+				.onChange(async v => {
+					this.plugin.settings.duplicateTitleThreshold = v / 100;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Enrich bulk imports')
+			.setDesc('When importing a library file, fetch fresh metadata for entries that have a DOI or arXiv ID. Entries without one, or whose lookup fails, use the fields from the file.')
+			.addToggle(t => t
+				.setValue(this.plugin.settings.enrichBulkImports)
+				.onChange(async v => {
+					this.plugin.settings.enrichBulkImports = v;
+					await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl)
+			.setName('Import reference lists')
+			.setDesc('Add a references section to new notes when the source lists the cited works. Papers already in the vault become links and are listed in the cites property; the others get a link to import them.')
+			.addToggle(t => t
+				.setValue(this.plugin.settings.importReferences)
+				.onChange(async v => {
+					this.plugin.settings.importReferences = v;
+					await this.plugin.saveSettings();
+			}));
+
+		new Setting(containerEl).setName("Authors").setHeading();
+
+		new Setting(containerEl)
+			.setName('Author notes')
+			.setDesc('Create or update one note per author, with their ORCID, affiliations and papers. The authors property of paper notes then links to these notes.')
+			.addToggle(t => t
+				.setValue(this.plugin.settings.authorNotes)
+				.onChange(async v => {
+					this.plugin.settings.authorNotes = v;
+					await this.plugin.saveSettings();
+			}));
+
+		let authorFolderInput: TextComponent;
+		new Setting(containerEl)
+			.setName('Author folder')
+			.setDesc('Folder for author notes. Keep it outside the paper folder.')
+			.addText(t => {
+				authorFolderInput = t;
+				t.setPlaceholder('Authors')
+					.setValue(this.plugin.settings.authorFolder)
+					.onChange(async v => {
+						this.plugin.settings.authorFolder = v.trim() || DEFAULT_SETTINGS.authorFolder;
+						await this.plugin.saveSettings();
+					});
+			})
+			.addButton(b => b
+				.setButtonText('Browse')
+				.onClick(() => {
+					new FolderSuggestModal(this.app, (folder) => void (async () => {
+						this.plugin.settings.authorFolder = folder.path;
+						await this.plugin.saveSettings();
+						authorFolderInput.setValue(folder.path);
+					})()).open();
+				})
+			);
+
+		new Setting(containerEl).setName("PDFs").setHeading();
+		containerEl.createEl("p", {
+			text: "Save a legal open-access copy of each paper (arXiv, open-access repositories or publisher links) next to your notes, or create notes from PDF files already in your vault."
+		});
+
+		new Setting(containerEl)
+			.setName('Download open-access PDF files')
+			.setDesc('After importing, look for an open-access PDF and save it with the same name as the note. The note then links to the saved file.')
+			.addToggle(t => t
+				.setValue(this.plugin.settings.downloadPdfs)
+				.onChange(async v => {
+					this.plugin.settings.downloadPdfs = v;
+					await this.plugin.saveSettings();
+			}));
+
+		let pdfFolderInput: TextComponent;
+		new Setting(containerEl)
+			.setName('PDF folder')
+			.setDesc('Attachments folder where downloaded PDF files are saved.')
+			.addText(t => {
+				pdfFolderInput = t;
+				t.setPlaceholder('Papers/PDFs')
+					.setValue(this.plugin.settings.pdfFolder)
+					.onChange(async v => {
+						this.plugin.settings.pdfFolder = v.trim();
+						await this.plugin.saveSettings();
+					});
+			})
+			.addButton(b => b
+				.setButtonText('Browse')
+				.onClick(() => {
+					new FolderSuggestModal(this.app, (folder) => void (async () => {
+						this.plugin.settings.pdfFolder = folder.path;
+						await this.plugin.saveSettings();
+						pdfFolderInput.setValue(folder.path);
+					})()).open();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Maximum PDF size (MB)')
+			.setDesc('Larger downloads are rejected.')
+			.addText(t => t
+				.setPlaceholder('50')
+				.setValue(String(this.plugin.settings.pdfMaxSizeMb))
+				.onChange(async v => {
+					const size = Number(v);
+					this.plugin.settings.pdfMaxSizeMb = size > 0 ? size : DEFAULT_SETTINGS.pdfMaxSizeMb;
+					await this.plugin.saveSettings();
+				}));
+
+		let watchFolderInput: TextComponent;
+		new Setting(containerEl)
+			.setName('Watched folder')
+			.setDesc('New PDF files added to this folder are identified by their DOI or arXiv ID and turned into paper notes automatically. Leave empty to disable.')
+			.addText(t => {
+				watchFolderInput = t;
+				t.setPlaceholder('Inbox')
+					.setValue(this.plugin.settings.pdfWatchFolder)
+					.setDisabled(true);
+			})
+			.addButton(b => b
+				.setButtonText('Browse')
+				.onClick(() => {
+					new FolderSuggestModal(this.app, (folder) => void (async () => {
+						this.plugin.settings.pdfWatchFolder = folder.path;
+						await this.plugin.saveSettings();
+						watchFolderInput.setValue(folder.path);
+					})()).open();
+				})
+			)
+			.addButton(b => b
+				.setButtonText('Clear')
+				.onClick(async () => {
+					this.plugin.settings.pdfWatchFolder = '';
+					await this.plugin.saveSettings();
+					watchFolderInput.setValue('');
+				})
+			);
+
+		new Setting(containerEl).setName("Citations").setHeading();
+
+		new Setting(containerEl)
+			.setName('Citation trigger')
+			.setDesc('Typing this in a note suggests papers by title, author, year or citekey. Leave empty to turn the suggestions off.')
+			.addText(t => t
+				.setPlaceholder('[@')
+				.setValue(this.plugin.settings.citePrefix)
+				.onChange(async v => {
+					this.plugin.settings.citePrefix = v.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Insert as')
+			.setDesc('A link to the paper note, or a Pandoc citation of its citekey. Papers without a citekey are always linked.')
+			.addDropdown(d => d
+				.addOption('wikilink', 'Link to the note')
+				.addOption('pandoc', 'Pandoc citation')
+				.setValue(this.plugin.settings.citeFormat)
+				.onChange(async v => {
+					this.plugin.settings.citeFormat = v === 'pandoc' ? 'pandoc' : 'wikilink';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Bibliography style')
+			.setDesc('Style of the references block that the bibliography command inserts into a note.')
+			.addDropdown(d => d
+				.addOptions(CITATION_STYLES)
+				.setValue(this.plugin.settings.bibliographyStyle)
+				.onChange(async v => {
+					this.plugin.settings.bibliographyStyle = v as CitationStyle;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Bibliography order')
+			.addDropdown(d => d
+				.addOption('appearance', 'Order of first citation')
+				.addOption('alphabetical', 'Alphabetical by author')
+				.setValue(this.plugin.settings.bibliographyOrder)
+				.onChange(async v => {
+					this.plugin.settings.bibliographyOrder = v === 'alphabetical' ? 'alphabetical' : 'appearance';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName("Reading").setHeading();
+		containerEl.createEl("p", {
+			text: "Track reading in the status property: to-read, reading, read, summarised. Moving a paper on records date_started and date_read, and a read paper gets a review_date for its review reminder."
+		});
+
+		new Setting(containerEl)
+			.setName('Status of new papers')
+			.setDesc('Status given to every imported paper. Leave empty to import papers without one.')
+			.addText(t => t
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setPlaceholder('to-read')
+				.setValue(this.plugin.settings.initialReadingStatus)
+				.onChange(async v => {
+					this.plugin.settings.initialReadingStatus = v.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Next paper to read')
+			.setDesc('How the next paper is picked from those still to read. Priority uses the priority property (1 or high first) and then age.')
+			.addDropdown(d => d
+				.addOption('priority', 'By priority')
+				.addOption('age', 'Oldest import first')
+				.setValue(this.plugin.settings.readingQueueOrder)
+				.onChange(async v => {
+					this.plugin.settings.readingQueueOrder = v === 'age' ? 'age' : 'priority';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Review reminders')
+			.setDesc('Days after a paper is read, and after each review, until it is due for review again. Due papers are announced when the vault opens. Set to 0 to turn reminders off.')
+			.addText(t => t
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.reviewIntervalDays))
+				.onChange(async v => {
+					const days = Number(v);
+					if (!Number.isFinite(days) || days < 0) return;
+					this.plugin.settings.reviewIntervalDays = days;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName("Browser import").setHeading();
+		containerEl.createEl("p", {
+			text: "Add this bookmarklet to your browser's bookmarks bar. Clicking it on a paper's page imports the paper into this vault and opens its note; the duplicate check applies as usual. Import links also accept folder, tags and template parameters."
+		});
+
+		const code = bookmarklet(this.app.vault.getName());
+		new Setting(containerEl)
+			.setName('Bookmarklet')
+			.setDesc('Create a bookmark and paste this as its address.')
+			.addTextArea(t => {
+				t.setValue(code);
+				t.inputEl.readOnly = true;
+				t.inputEl.rows = 4;
+				t.inputEl.addClass('easy-paper-bookmarklet');
+			})
+			.addButton(b => b
+				.setButtonText('Copy')
+				.onClick(async () => {
+					await navigator.clipboard.writeText(code);
+					new Notice('Bookmarklet copied.');
+				}));
+
+		new Setting(containerEl).setName("Zotero").setHeading();
+		containerEl.createEl("p", {
+			text: "Sync paper notes with a Zotero library through a Better BibTeX auto-export. Each note keeps its Zotero item key in a property, collections become subfolders of the paper folder and tags become note tags. Syncing only ever changes properties, never note bodies."
+		});
+
+		new Setting(containerEl)
+			.setName('Export file')
+			.setDesc('Absolute path or vault path of the export. Better BibTeX JSON carries collections; CSL-JSON and BibTeX exports are synced without them.')
+			.addText(t => t
+				.setPlaceholder('/Users/me/Zotero/library.json')
+				.setValue(this.plugin.settings.zoteroExportPath)
+				.onChange(async v => {
+					this.plugin.settings.zoteroExportPath = v.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl).setName("Export").setHeading();
+		containerEl.createEl("p", {
+			text: "Keep a BibTeX file in sync with your paper notes for LaTeX writing."
+		});
+
+		new Setting(containerEl)
+			.setName('BibTeX file path')
+			.setDesc('Vault path of the exported library. Each note gets a citekey stored in its frontmatter so keys stay stable between exports.')
+			.addText(t => t
+				// eslint-disable-next-line obsidianmd/ui/sentence-case
+				.setPlaceholder('library.bib')
+				.setValue(this.plugin.settings.bibtexExportPath)
+				.onChange(async v => {
+					this.plugin.settings.bibtexExportPath = v.trim() || 'library.bib';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export automatically')
+			.setDesc('Re-export the BibTeX file whenever a paper note is added, changed, renamed or deleted.')
+			.addToggle(t => t
+				.setValue(this.plugin.settings.bibtexAutoExport)
+				.onChange(async v => {
+					this.plugin.settings.bibtexAutoExport = v;
+					await this.plugin.saveSettings();
+			}));
 	}
 }
@@ -0,0 +1,299 @@
+import { moment } from "obsidian";
+import { splitName } from "./names";
+
+/*
+ * A small Handlebars-like template language shared by note bodies,
+ * filenames and frontmatter values:
+ *
+ *   {{title}}                      value of a token
+ *   {{title | lower | truncate:50}} value passed through filters
+ *   {{#if abstract}}…{{else}}…{{/if}}, {{#unless pdf}}…{{/unless}}
+ *   {{#each authors}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+ *
+ * A block tag alone on its line removes the whole line, so templates
+ * can be laid out readably without leaving blank lines behind. Token
+ * names are case-insensitive.
+ */
+
+export type TemplateValue = string | number | boolean | string[] | null;
+export type TemplateContext = Record<string, TemplateValue>;
+
+/** A template that does not parse or refers to an unknown token or filter. */
+export class TemplateError extends Error {
+	constructor(message: string, line?: number) {
+		super(line ? `${message} (line ${line})` : message);
+		this.name = "TemplateError";
+	}
+}
+
+interface Filter {
+	name: string;
+	arg?: string;
+}
+
+interface Expression {
+	name: string;
+	filters: Filter[];
+	line: number;
+}
+
+type TemplateNode =
+	| { kind: "text"; text: string }
+	| { kind: "output"; expr: Expression }
+	| { kind: "if"; expr: Expression; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+	| { kind: "each"; expr: Expression; body: TemplateNode[] };
+
+/** Names available inside `{{#each}}` in addition to the context. */
+const LOOP_NAMES = ["this", "@index", "@number", "@first", "@last"];
+
+// ── Filters ─────────────────────────────────────────────────────────
+
+function toText(value: TemplateValue): string {
+	if (value == null || value === false) return "";
+	if (Array.isArray(value)) return value.join(", ");
+	return String(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	return Array.isArray(value) ? value.length > 0 : value != null && value !== false && value !== "";
+}
+
+/** Apply a text transformation to a value, element-wise for lists. */
+function mapText(value: TemplateValue, fn: (text: string) => string): TemplateValue {
+	return Array.isArray(value) ? value.map(fn) : fn(toText(value));
+}
+
+type FilterFn = (value: TemplateValue, arg: string | undefined, line: number) => TemplateValue;
+
+const FILTERS: Record<string, FilterFn> = {
+	lower: (v) => mapText(v, (t) => t.toLowerCase()),
+	upper: (v) => mapText(v, (t) => t.toUpperCase()),
+	trim: (v) => mapText(v, (t) => t.trim()),
+	truncate: (v, arg, line) => {
+		const length = Number(arg);
+		if (!arg || !Number.isInteger(length) || length < 0) {
+			throw new TemplateError(`Filter "truncate" needs a length, e.g. truncate:50`, line);
+		}
+		return mapText(v, (t) => t.slice(0, length).trimEnd());
+	},
+	slug: (v) => mapText(v, (t) => t
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")),
+	date: (v, arg) => mapText(v, (t) => {
+		const date = moment(t, ["YYYY-MM-DD", "YYYY-MM", "YYYY"], true);
+		return t && date.isValid() ? date.format(arg || "YYYY-MM-DD") : t;
+	}),
+	surname: (v) => mapText(v, (t) => splitName(t).family),
+	join: (v, arg) => (Array.isArray(v) ? v.join(arg ?? ", ") : v),
+	first: (v) => (Array.isArray(v) ? v[0] ?? null : v),
+	last: (v) => (Array.isArray(v) ? v[v.length - 1] ?? null : v),
+	default: (v, arg) => (isTruthy(v) ? v : arg ?? ""),
+};
+
+// ── Parsing ─────────────────────────────────────────────────────────
+
+/** Parse `name | filter | filter:arg` into an expression. */
+function parseExpression(source: string, line: number): Expression {
+	const parts: string[] = [];
+	let current = "";
+	let quote = "";
+	for (const ch of source) {
+		if (quote) {
+			current += ch;
+			if (ch === quote) quote = "";
+		} else if (ch === '"' || ch === "'") {
+			current += ch;
+			quote = ch;
+		} else if (ch === "|") {
+			parts.push(current.trim());
+			current = "";
+		} else {
+			current += ch;
+		}
+	}
+	if (quote) throw new TemplateError(`Unclosed quote in "{{${source}}}"`, line);
+	parts.push(current.trim());
+
+	const [rawName = "", ...filterSources] = parts;
+	const name = rawName.toLowerCase();
+	if (!/^[\w@.]+$/.test(name)) throw new TemplateError(`Invalid token "${rawName}"`, line);
+
+	const filters = filterSources.map((f): Filter => {
+		const match = f.match(/^(\w+)(?:\s*:\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?$/);
+		if (!match?.[1]) throw new TemplateError(`Invalid filter "${f}"`, line);
+		if (!FILTERS[match[1]]) {
+			throw new TemplateError(`Unknown filter "${match[1]}" (available: ${Object.keys(FILTERS).join(", ")})`, line);
+		}
+		return { name: match[1], arg: match[2] ?? match[3] ?? match[4] };
+	});
+	return { name, filters, line };
+}
+
+type Token =
+	| { type: "text"; text: string }
+	| { type: "tag"; content: string; line: number };
+
+const isBlockTag = (token: Token) => token.type === "tag" && /^(#|\/|else$)/.test(token.content);
+
+/** Split a template into alternating text and tag tokens. */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	const tagPattern = /{{\s*([\s\S]*?)\s*}}/g;
+	let last = 0;
+	for (const m of source.matchAll(tagPattern)) {
+		const index = m.index ?? 0;
+		tokens.push({ type: "text", text: source.slice(last, index) });
+		tokens.push({ type: "tag", content: m[1] ?? "", line: source.slice(0, index).split("\n").length });
+		last = index + m[0].length;
+	}
+	tokens.push({ type: "text", text: source.slice(last) });
+
+	// Drop the line of block tags that stand alone on it
+	const standalone = tokens.map((token, i) => {
+		if (!isBlockTag(token)) return false;
+		const prev = tokens[i - 1];
+		const next = tokens[i + 1];
+		const prevText = prev?.type === "text" ? prev.text : "";
+		const nextText = next?.type === "text" ? next.text : "";
+		const lineStart = /\n[ \t]*$/.test(prevText) || (i === 1 && /^[ \t]*$/.test(prevText));
+		const lineEnd = /^[ \t]*\r?\n/.test(nextText) || (i === tokens.length - 2 && /^[ \t]*$/.test(nextText));
+		return lineStart && lineEnd;
+	});
+	standalone.forEach((isStandalone, i) => {
+		if (!isStandalone) return;
+		const prev = tokens[i - 1];
+		const next = tokens[i + 1];
+		if (prev?.type === "text") prev.text = prev.text.replace(/[ \t]*$/, "");
+		if (next?.type === "text") next.text = next.text.replace(/^[ \t]*(\r?\n)?/, "");
+	});
+	return tokens;
+}
+
+function parse(source: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	type Open = { node: Extract<TemplateNode, { kind: "if" | "each" }>; tag: string; line: number; inElse: boolean };
+	const stack: Open[] = [];
+	const target = (): TemplateNode[] => {
+		const open = stack[stack.length - 1];
+		if (!open) return root;
+		if (open.node.kind === "each") return open.node.body;
+		return open.inElse ? open.node.otherwise : open.node.then;
+	};
+
+	for (const token of tokenize(source)) {
+		if (token.type === "text") {
+			if (token.text) target().push({ kind: "text", text: token.text });
+			continue;
+		}
+
+		const { content, line } = token;
+		const open = content.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+		if (open?.[1] && open[2]) {
+			const expr = parseExpression(open[2], line);
+			const node: Open["node"] = open[1] === "each"
+				? { kind: "each", expr, body: [] }
+				: { kind: "if", expr, negate: open[1] === "unless", then: [], otherwise: [] };
+			target().push(node);
+			stack.push({ node, tag: open[1], line, inElse: false });
+		} else if (content === "else") {
+			const current = stack[stack.length - 1];
+			if (!current || current.node.kind !== "if" || current.inElse) {
+				throw new TemplateError("{{else}} outside of an {{#if}} block", line);
+			}
+			current.inElse = true;
+		} else if (content.startsWith("/")) {
+			const name = content.slice(1).trim();
+			const current = stack.pop();
+			if (!current) throw new TemplateError(`{{/${name}}} without a matching {{#${name}}}`, line);
+			if (current.tag !== name) {
+				throw new TemplateError(`{{/${name}}} closes {{#${current.tag}}} from line ${current.line}`, line);
+			}
+		} else if (content.startsWith("#")) {
+			throw new TemplateError(`Unknown block "{{${content}}}" (use #if, #unless or #each)`, line);
+		} else {
+			target().push({ kind: "output", expr: parseExpression(content, line) });
+		}
+	}
+
+	const unclosed = stack.pop();
+	if (unclosed) throw new TemplateError(`{{#${unclosed.tag}}} is never closed`, unclosed.line);
+	return root;
+}
+
+// ── Rendering ───────────────────────────────────────────────────────
+
+/** Report unknown tokens anywhere in the template, not only in the branches taken. */
+function checkTokens(nodes: TemplateNode[], known: Set<string>, inLoop: boolean): void {
+	for (const node of nodes) {
+		if (node.kind === "text") continue;
+		const { name, line } = node.expr;
+		if (!known.has(name) && !(inLoop && LOOP_NAMES.includes(name))) {
+			throw new TemplateError(`Unknown token "${name}"`, line);
+		}
+		if (node.kind === "if") {
+			checkTokens(node.then, known, inLoop);
+			checkTokens(node.otherwise, known, inLoop);
+		} else if (node.kind === "each") {
+			checkTokens(node.body, known, true);
+		}
+	}
+}
+
+function evaluate(expr: Expression, context: TemplateContext): TemplateValue {
+	let value = context[expr.name] ?? null;
+	for (const filter of expr.filters) {
+		value = (FILTERS[filter.name] as FilterFn)(value, filter.arg, expr.line);
+	}
+	return value;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+	let out = "";
+	for (const node of nodes) {
+		switch (node.kind) {
+			case "text":
+				out += node.text;
+				break;
+			case "output":
+				out += toText(evaluate(node.expr, context));
+				break;
+			case "if": {
+				const truthy = isTruthy(evaluate(node.expr, context)) !== node.negate;
+				out += renderNodes(truthy ? node.then : node.otherwise, context);
+				break;
+			}
+			case "each": {
+				const value = evaluate(node.expr, context);
+				const items = Array.isArray(value) ? value : isTruthy(value) ? [toText(value)] : [];
+				items.forEach((item, i) => {
+					out += renderNodes(node.body, {
+						...context,
+						this: item,
+						"@index": i,
+						"@number": i + 1,
+						"@first": i === 0,
+						"@last": i === items.length - 1,
+					});
+				});
+				break;
+			}
+		}
+	}
+	return out;
+}
+
+/**
+ * Render a template against a context. Every token the template uses
+ * must be a key of the context (missing values should be null), so a
+ * typo fails loudly instead of silently rendering nothing.
+ *
+ * @throws TemplateError on syntax errors and unknown tokens or filters
+ */
+export function renderTemplate(source: string, context: TemplateContext): string {
+	const nodes = parse(source);
+	checkTokens(nodes, new Set(Object.keys(context)), false);
+	return renderNodes(nodes, context);
+}
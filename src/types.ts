@@ -1,9 +1,52 @@
+import { joinName, splitName } from "./names";
+
+/**
+ * A paper author as reported by the metadata source.
+ */
+export interface Author {
+	/** Display name, "Given Family" (or an organisation's name). */
+	name: string;
+	given: string;
+	family: string;
+	/** ORCID iD without the URL prefix (e.g. "0000-0002-1825-0097"). */
+	orcid: string;
+	affiliations: string[];
+	/** CrossRef author sequence: "first" or "additional". */
+	sequence: string;
+}
+
 /**
- * Represents metadata for an academic paper fetched from a DOI.
+ * One entry of a paper's reference list. Any field may be empty;
+ * `unstructured` is the raw citation text when the source has one.
+ */
+export interface Reference {
+	doi: string;
+	title: string;
+	/** First author as given by the source (often just a surname). */
+	author: string;
+	year: string;
+	journal: string;
+	unstructured: string;
+}
+
+/** Identifiers a paper can be looked up by. */
+export const IDENTIFIER_TYPES = ["doi", "arxiv", "pmid", "pmcid", "isbn"] as const;
+export type IdentifierType = typeof IDENTIFIER_TYPES[number];
+
+/** Work types of whole books, as opposed to their chapters. */
+const BOOK_TYPES = ["book", "monograph", "edited-book", "reference-book", "book-set"];
+
+export function isBookType(type: string): boolean {
+	return BOOK_TYPES.includes(type);
+}
+
+/**
+ * Represents metadata for an academic paper or book fetched from a DOI,
+ * arXiv ID, PubMed ID or ISBN.
  */
 export interface PaperMetadata {
 	title: string;
-	authors: string[];
+	authors: Author[];
 	abstract: string;
 	journal: string;
 	volume: string;
@@ -17,17 +60,81 @@ export interface PaperMetadata {
 	publisher: string;
 	issn: string[];
 	subjects: string[];
+	/** CrossRef-style work type (e.g. "journal-article", "posted-content", "dataset"). */
+	type: string;
+	/** Id of the metadata provider that answered (e.g. "crossref"). */
+	source: string;
+	/** arXiv identifier without version (e.g. "2401.01234"). */
+	arxivId: string;
+	/** arXiv version suffix (e.g. "v2"). */
+	arxivVersion: string;
+	/** arXiv primary category (e.g. "cs.LG"). */
+	arxivCategory: string;
+	/** Editors of an edited book, or of the book a chapter appears in. */
+	editors: Author[];
+	/** Edition of a book (e.g. "3" or "3rd ed."). */
+	edition: string;
+	/** ISBN-13s of a book, or of the book a chapter appears in. */
+	isbn: string[];
+	/** PubMed ID (e.g. "31452104"). */
+	pmid: string;
+	/** PubMed Central ID (e.g. "PMC6814409"). */
+	pmcid: string;
+	/** Zotero item key of a paper synced from a Zotero export. */
+	zoteroKey: string;
+	/** Kind of identifier the paper was imported by. */
+	identifierType: IdentifierType | "";
+	/** DOI of the published version of a preprint, when arXiv knows it. */
+	publishedDoi: string;
+	/** Citation key; generated on import unless the source provides one. */
+	citekey: string;
+	/** The paper's reference list, when the source provides it. */
+	references: Reference[];
+	/** DOIs of other versions of the same work, e.g. its preprint or published version. */
+	relatedDois: string[];
+}
+
+/** Extract the bare ORCID iD from an ORCID URL or iD ("" when invalid). */
+export function normalizeOrcid(value: string | undefined): string {
+	const match = (value ?? "").match(/(\d{4}-\d{4}-\d{4}-\d{3}[\dX])/i);
+	return match?.[1]?.toUpperCase() ?? "";
+}
+
+/**
+ * Build an Author from a "Given Family" string or partial details,
+ * filling the name from the parts and the parts from the name.
+ */
+export function toAuthor(raw: string | Partial<Author>): Author {
+	const partial = typeof raw === "string" ? { name: raw } : raw;
+	const given = (partial.given ?? "").trim();
+	const family = (partial.family ?? "").trim();
+	const name = (partial.name ?? "").trim() || joinName({ given, family });
+	const parts = given || family ? { given, family } : splitName(name);
+	return {
+		name,
+		given: parts.given,
+		family: parts.family,
+		orcid: normalizeOrcid(partial.orcid),
+		affiliations: (partial.affiliations ?? []).map((a) => a.trim()).filter(Boolean),
+		sequence: partial.sequence ?? "",
+	};
 }
 
+/** Paper fields as providers and parsers produce them; authors may be plain names. */
+export type PaperInput = Omit<Partial<PaperMetadata>, "authors" | "editors"> & {
+	authors?: Array<string | Partial<Author>>;
+	editors?: Array<string | Partial<Author>>;
+};
+
 /**
  * Normalise a raw/partial PaperMetadata object so every field has a
  * safe default value. Call this once after fetching to guarantee no
  * undefined properties downstream.
  */
-export function normalizePaper(raw: Partial<PaperMetadata>): PaperMetadata {
+export function normalizePaper(raw: PaperInput): PaperMetadata {
 	return {
 		title: String(raw.title ?? ""),
-		authors: (raw.authors ?? []).map((a) => String(a)),
+		authors: (raw.authors ?? []).map(toAuthor).filter((a) => a.name),
 		abstract: String(raw.abstract ?? ""),
 		journal: String(raw.journal ?? ""),
 		volume: String(raw.volume ?? ""),
@@ -41,5 +148,36 @@ export function normalizePaper(raw: Partial<PaperMetadata>): PaperMetadata {
 		publisher: String(raw.publisher ?? ""),
 		issn: (raw.issn ?? []).map((i) => String(i)),
 		subjects: (raw.subjects ?? []).map((s) => String(s)),
+		type: String(raw.type ?? ""),
+		source: String(raw.source ?? ""),
+		arxivId: String(raw.arxivId ?? ""),
+		arxivVersion: String(raw.arxivVersion ?? ""),
+		arxivCategory: String(raw.arxivCategory ?? ""),
+		editors: (raw.editors ?? []).map(toAuthor).filter((a) => a.name),
+		edition: String(raw.edition ?? ""),
+		isbn: (raw.isbn ?? []).map((i) => String(i)),
+		pmid: String(raw.pmid ?? ""),
+		pmcid: String(raw.pmcid ?? ""),
+		zoteroKey: String(raw.zoteroKey ?? ""),
+		identifierType: raw.identifierType ?? "",
+		publishedDoi: String(raw.publishedDoi ?? ""),
+		citekey: String(raw.citekey ?? ""),
+		references: raw.references ?? [],
+		relatedDois: raw.relatedDois ?? [],
 	};
 }
+
+/**
+ * Fill the empty fields of `primary` from `fallback`. Used when a
+ * freshly fetched record should win but locally known values (e.g.
+ * from a BibTeX entry) are better than nothing.
+ */
+export function mergePapers(primary: PaperMetadata, fallback: PaperMetadata): PaperMetadata {
+	const merged = { ...primary };
+	for (const key of Object.keys(fallback) as Array<keyof PaperMetadata>) {
+		const current = merged[key];
+		const empty = current == null || current === "" || (Array.isArray(current) && current.length === 0);
+		if (empty) (merged as Record<string, unknown>)[key] = fallback[key];
+	}
+	return merged;
+}
@@ -0,0 +1,209 @@
+import { App, ButtonComponent, Modal, Notice, Setting, TextAreaComponent } from "obsidian";
+import { PaperMetadata } from "../types";
+import { extractIdentifiers, fetchPaperMetadata } from "../doi";
+import { createNoteForPaper, describePdfResult } from "../importer";
+import { duplicateQuery } from "../indexer";
+import { createRateLimiter, createSerialQueue, runWithConcurrency } from "../concurrency";
+import type EasyPaperImporter from "../main";
+
+/** Parallel metadata requests per batch. */
+const BATCH_CONCURRENCY = 3;
+/** Minimum spacing between request starts, to stay polite to public APIs. */
+const REQUEST_INTERVAL_MS = 250;
+
+type BatchStatus = "pending" | "fetching" | "fetched" | "duplicate" | "created" | "error";
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+	pending: "Pending",
+	fetching: "Fetching…",
+	fetched: "Fetched",
+	duplicate: "Duplicate",
+	created: "Created",
+	error: "Error",
+};
+
+interface BatchItem {
+	input: string;
+	status: BatchStatus;
+	paper?: PaperMetadata;
+	/** Created note, or the existing note for duplicates. */
+	path?: string;
+	message?: string;
+	rowEl?: HTMLElement;
+}
+
+/**
+ * Modal that extracts every DOI/arXiv ID from pasted text and imports
+ * them in parallel, showing the state of each item. Failed items can
+ * be retried without touching the ones that already succeeded.
+ */
+export class BatchImportModal extends Modal {
+	private plugin: EasyPaperImporter;
+	private text = "";
+	private items: BatchItem[] = [];
+	private running = false;
+	private listEl: HTMLElement;
+	private summaryEl: HTMLElement;
+	private importButton: ButtonComponent;
+	private retryButton: ButtonComponent;
+	private rateLimit = createRateLimiter(REQUEST_INTERVAL_MS);
+	private createSerially = createSerialQueue();
+
+	constructor(app: App, plugin: EasyPaperImporter) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: "Batch import papers" });
+		contentEl.createEl("p", {
+			text: "Paste any text, such as a reference list. Every DOI and arXiv ID in it will be imported.",
+			cls: "setting-item-description",
+		});
+
+		const textArea = new TextAreaComponent(contentEl)
+			.setPlaceholder("10.1038/s41586-020-2649-2\narXiv:2401.01234")
+			.onChange((v) => {
+				this.text = v;
+				if (!this.running) this.extract();
+			});
+		textArea.inputEl.addClass("easy-paper-batch-input");
+		textArea.inputEl.rows = 8;
+
+		this.summaryEl = contentEl.createEl("p", { cls: "setting-item-description" });
+		this.listEl = contentEl.createDiv({ cls: "easy-paper-batch-list" });
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				this.retryButton = btn
+					.setButtonText("Retry failed")
+					.setDisabled(true)
+					.onClick(() => void this.run((i) => i.status === "error"));
+			})
+			.addButton((btn) => {
+				this.importButton = btn
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => void this.run((i) => i.status === "pending"));
+			});
+
+		this.renderSummary();
+	}
+
+	/** Rebuild the item list from the current text, keeping known items' state. */
+	private extract(): void {
+		const known = new Map(this.items.map((i) => [i.input, i]));
+		this.items = extractIdentifiers(this.text).map((input) => known.get(input) ?? { input, status: "pending" });
+		this.listEl.empty();
+		for (const item of this.items) {
+			item.rowEl = undefined;
+			this.renderItem(item);
+		}
+		this.renderSummary();
+	}
+
+	private async run(filter: (item: BatchItem) => boolean): Promise<void> {
+		const queue = this.items.filter(filter);
+		if (queue.length === 0) {
+			new Notice("Nothing to import.");
+			return;
+		}
+
+		this.running = true;
+		this.renderSummary();
+		await runWithConcurrency(queue, BATCH_CONCURRENCY, (item) => this.process(item));
+		this.running = false;
+		this.renderSummary();
+	}
+
+	private async process(item: BatchItem): Promise<void> {
+		try {
+			// Failed items may have fetched fine and failed on note creation
+			if (!item.paper) {
+				this.update(item, "fetching");
+				await this.rateLimit();
+				item.paper = await fetchPaperMetadata(item.input, this.plugin.settings.metadataProviders);
+				this.update(item, "fetched");
+			}
+
+			await this.create(item, true);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			this.update(item, "error", message);
+			console.error("Easy Paper Importer: Error importing", item.input, error);
+		}
+	}
+
+	/**
+	 * Create the note, unless `checkDuplicates` finds the paper already
+	 * in the library. Checking and creating are serialised together, so
+	 * two lines naming the same paper (e.g. its DOI and arXiv ID) never
+	 * both create a note, and filenames never race.
+	 */
+	private async create(item: BatchItem, checkDuplicates: boolean): Promise<void> {
+		const paper = item.paper;
+		if (!paper) return;
+		await this.createSerially(async () => {
+			const dup = checkDuplicates ? this.plugin.paperIndex.findDuplicate(duplicateQuery(paper)) : null;
+			if (dup) {
+				item.path = dup.path;
+				this.update(item, "duplicate", `matching ${dup.type}`);
+				return;
+			}
+			const created = await createNoteForPaper(this.plugin, paper);
+			item.path = created.path;
+			this.update(item, "created", describePdfResult(created.pdf) || undefined);
+		});
+	}
+
+	private update(item: BatchItem, status: BatchStatus, message?: string): void {
+		item.status = status;
+		item.message = message;
+		this.renderItem(item);
+		this.renderSummary();
+	}
+
+	private renderItem(item: BatchItem): void {
+		const row = item.rowEl ?? this.listEl.createDiv({ cls: "easy-paper-batch-item" });
+		item.rowEl = row;
+		row.empty();
+		row.dataset.status = item.status;
+
+		row.createSpan({ text: STATUS_LABELS[item.status], cls: "easy-paper-batch-status" });
+		row.createSpan({ text: item.paper?.title || item.input, cls: "easy-paper-batch-label" });
+		if (item.message) row.createSpan({ text: item.message, cls: "setting-item-description" });
+
+		if (item.path) {
+			const path = item.path;
+			row.createEl("a", { text: "Open", href: "#" }).addEventListener("click", (e) => {
+				e.preventDefault();
+				void this.app.workspace.openLinkText(path, "", true);
+			});
+		}
+		if (item.status === "duplicate") {
+			new ButtonComponent(row)
+				.setButtonText("Import anyway")
+				.onClick(() => {
+					this.create(item, false).catch((error) => {
+						this.update(item, "error", error instanceof Error ? error.message : String(error));
+					});
+				});
+		}
+	}
+
+	private renderSummary(): void {
+		const count = (status: BatchStatus) => this.items.filter((i) => i.status === status).length;
+		this.summaryEl.setText(this.items.length === 0
+			? "No identifiers found yet."
+			: `${this.items.length} identifiers: ${count("created")} created, ${count("duplicate")} duplicates, ${count("error")} errors.`);
+		this.importButton.setDisabled(this.running || count("pending") === 0);
+		this.retryButton.setDisabled(this.running || count("error") === 0);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,100 @@
+import {
+	App,
+	Editor,
+	EditorPosition,
+	EditorSuggest,
+	EditorSuggestContext,
+	EditorSuggestTriggerInfo,
+	TFile,
+	prepareFuzzySearch,
+} from "obsidian";
+import { IndexedPaper } from "../indexer";
+import type EasyPaperImporter from "../main";
+
+/** Longest query the suggester reacts to; longer text is ordinary writing. */
+const MAX_QUERY_LENGTH = 60;
+
+/**
+ * Cite-while-you-write: typing the configured prefix (e.g. "[@") in the
+ * editor suggests paper notes by title, author, year or citekey, and
+ * inserts a link to the note or a Pandoc citation. Everything is read
+ * from the paper index, never from the files themselves.
+ */
+export class CiteSuggest extends EditorSuggest<IndexedPaper> {
+	private plugin: EasyPaperImporter;
+
+	constructor(app: App, plugin: EasyPaperImporter) {
+		super(app);
+		this.plugin = plugin;
+		this.limit = 50;
+		this.setInstructions([
+			{ command: "↑↓", purpose: "to navigate" },
+			{ command: "↵", purpose: "to cite" },
+			{ command: "esc", purpose: "to dismiss" },
+		]);
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		const prefix = this.plugin.settings.citePrefix;
+		if (!prefix) return null;
+
+		const before = editor.getLine(cursor.line).slice(0, cursor.ch);
+		const start = before.lastIndexOf(prefix);
+		if (start < 0) return null;
+		// "@" in an email address or a word is not a citation
+		if (start > 0 && !/[\s([{]/.test(before.charAt(start - 1))) return null;
+
+		const query = before.slice(start + prefix.length);
+		if (query.length > MAX_QUERY_LENGTH || /[\][]/.test(query) || /^\s/.test(query)) return null;
+		return { start: { line: cursor.line, ch: start }, end: cursor, query };
+	}
+
+	getSuggestions(context: EditorSuggestContext): IndexedPaper[] {
+		const papers = this.plugin.paperIndex.getPapers().filter((p) => p.path !== context.file.path);
+		const query = context.query.trim();
+		if (!query) return papers.sort((a, b) => a.title.localeCompare(b.title));
+
+		const search = prepareFuzzySearch(query);
+		return papers
+			.map((paper) => ({ paper, match: search([paper.citekey, paper.title, paper.authors.join(" "), paper.year].join(" ")) }))
+			.filter((m) => m.match)
+			.sort((a, b) => (b.match?.score ?? 0) - (a.match?.score ?? 0))
+			.map((m) => m.paper);
+	}
+
+	renderSuggestion(paper: IndexedPaper, el: HTMLElement): void {
+		el.addClass("mod-complex");
+		const content = el.createDiv({ cls: "suggestion-content" });
+		content.createDiv({ text: paper.title, cls: "suggestion-title" });
+
+		const authors = paper.authors.length > 2 ? `${paper.authors[0]} et al.` : paper.authors.join(" & ");
+		const details = [paper.citekey, authors, paper.year].filter(Boolean).join(" · ");
+		if (details) content.createDiv({ text: details, cls: "suggestion-note" });
+	}
+
+	selectSuggestion(paper: IndexedPaper): void {
+		const context = this.context;
+		if (!context) return;
+		const { editor, start, file } = context;
+
+		// The closing bracket Obsidian pairs with "[" is part of the citation
+		let end = context.end;
+		if (this.plugin.settings.citePrefix.startsWith("[") && editor.getRange(end, { line: end.line, ch: end.ch + 1 }) === "]") {
+			end = { line: end.line, ch: end.ch + 1 };
+		}
+
+		const citation = this.citation(paper, file);
+		editor.replaceRange(citation, start, end);
+		editor.setCursor(editor.offsetToPos(editor.posToOffset(start) + citation.length));
+	}
+
+	/** A Pandoc citation, or a link when asked for one or the note has no citekey. */
+	private citation(paper: IndexedPaper, from: TFile): string {
+		if (this.plugin.settings.citeFormat === "pandoc" && paper.citekey) return `[@${paper.citekey}]`;
+		const target = this.app.vault.getAbstractFileByPath(paper.path);
+		const linktext = target instanceof TFile
+			? this.app.metadataCache.fileToLinktext(target, from.path, true)
+			: paper.path.replace(/\.md$/, "");
+		return `[[${linktext}]]`;
+	}
+}
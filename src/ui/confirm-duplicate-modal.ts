@@ -1,10 +1,26 @@
-import { App, Modal, ButtonComponent } from "obsidian";
+import { App, Modal, ButtonComponent, Setting } from "obsidian";
+import { DuplicateCandidate } from "../indexer";
 
+/**
+ * What to do about a paper that may already be in the library:
+ * - cancel: import nothing
+ * - open: open the existing note
+ * - update: review the fetched metadata against the existing note
+ * - alias: add the new identifier to the existing note as an alias
+ * - link: create the new note and link it with the existing one
+ * - import: create the new note anyway
+ */
+export type DuplicateChoice =
+    | { action: "cancel" }
+    | { action: "import" }
+    | { action: "open" | "update" | "alias" | "link"; path: string };
+
+/** Lists the notes a new paper may duplicate, with what matched and how well. */
 export class ConfirmDuplicateModal extends Modal {
-    private resolve!: (v: boolean) => void;
-    public result: Promise<boolean>;
+    private resolve!: (v: DuplicateChoice) => void;
+    public result: Promise<DuplicateChoice>;
 
-    constructor(app: App, private existingPath: string, private duplicateType: string) {
+    constructor(app: App, private candidates: DuplicateCandidate[]) {
         super(app);
         this.result = new Promise((res) => (this.resolve = res));
     }
@@ -13,31 +29,60 @@ export class ConfirmDuplicateModal extends Modal {
         const { contentEl } = this;
         contentEl.empty();
         contentEl.createEl("h3", { text: "Duplicate import detected" });
-        contentEl.createEl("p", { text: `A paper with matching ${this.duplicateType} already exists: ${this.existingPath}` });
-        const btnRow = contentEl.createDiv();
+        contentEl.createEl("p", {
+            text: this.candidates.length === 1
+                ? "This paper may already be in your library:"
+                : `This paper may already be in your library as one of ${this.candidates.length} notes:`,
+        });
+
+        for (const candidate of this.candidates) {
+            const path = candidate.path;
+            new Setting(contentEl)
+                .setName(path)
+                .setDesc(`${candidate.type}, ${Math.round(candidate.score * 100)}% match`)
+                .addButton((b) => b
+                    .setButtonText("Open")
+                    .setTooltip("Open the existing note and import nothing")
+                    .onClick(() => this.choose({ action: "open", path })))
+                .addButton((b) => b
+                    .setButtonText("Update")
+                    .setTooltip("Review the fetched metadata against the existing note")
+                    .onClick(() => this.choose({ action: "update", path })))
+                .addButton((b) => b
+                    .setButtonText("Add identifier")
+                    .setTooltip("Add the new DOI or arXiv ID to the existing note as an alias")
+                    .onClick(() => this.choose({ action: "alias", path })))
+                .addButton((b) => b
+                    .setButtonText("Import and link")
+                    .setTooltip("Create the new note and link the two notes")
+                    .onClick(() => this.choose({ action: "link", path })));
+        }
+
+        const btnRow = contentEl.createDiv({ cls: "modal-button-container" });
         new ButtonComponent(btnRow)
             .setButtonText("Cancel")
-            .onClick(() => {
-                this.resolve(false);
-                this.close();
-            });
+            .onClick(() => this.choose({ action: "cancel" }));
         new ButtonComponent(btnRow)
             .setButtonText("Import anyway")
             .setCta()
-            .onClick(() => {
-                this.resolve(true);
-                this.close();
-            });
+            .onClick(() => this.choose({ action: "import" }));
+    }
+
+    private choose(choice: DuplicateChoice) {
+        this.resolve(choice);
+        this.close();
     }
 
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
+        // Closing without a choice cancels; a later resolve is ignored
+        this.resolve({ action: "cancel" });
     }
 
     // convenience helper
-    openAndWait(): Promise<boolean> {
+    openAndWait(): Promise<DuplicateChoice> {
         this.open();
         return this.result;
     }
-}
\ No newline at end of file
+}
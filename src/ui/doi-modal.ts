@@ -1,42 +1,46 @@
 import { App, Modal, Setting, Notice } from "obsidian";
-import { EasyPaperSettings } from "../settings";
-import { fetchPaperMetadata } from "../doi";
-import { createPaperNote } from "../note";
-import { ConfirmDuplicateModal } from "./confirm-duplicate-modal";
+import { BatchImportModal } from "./batch-import-modal";
+import { importPaper } from "./import-paper";
+import { isValidIsbn, isbnDigits } from "../isbn";
 import type EasyPaperImporter from "../main";
 
 /**
- * Modal that prompts the user for a DOI and imports the paper.
+ * Modal that prompts the user for a DOI or arXiv ID and imports the paper.
  */
 export class DoiInputModal extends Modal {
 	private doiInput = "";
-	private settings: EasyPaperSettings;
 	private plugin: EasyPaperImporter;
 	private onSuccess: (filePath: string) => void;
 
-	constructor(app: App, settings: EasyPaperSettings, plugin: EasyPaperImporter, onSuccess: (filePath: string) => void) {
+	constructor(app: App, plugin: EasyPaperImporter, onSuccess: (filePath: string) => void) {
 		super(app);
 
-		this.settings = settings;
 		this.plugin = plugin;
 		this.onSuccess = onSuccess;
-	} 
+	}
 
 	onOpen(): void {
 		const { contentEl } = this;
 
 		contentEl.createEl("h2", { text: "Import paper from DOI" });
 		contentEl.createEl("p", {
-			text: "Enter a DOI (e.g. 10.1038/s41586-020-2649-2) or a full DOI URL.",
+			text: "Enter a DOI (e.g. 10.1038/s41586-020-2649-2), an arXiv ID (e.g. 2401.01234v2), a PubMed ID or PMCID, an ISBN for books, or the URL of the paper's page.",
 			cls: "setting-item-description",
 		});
 
-		new Setting(contentEl)
-			.setName("DOI")
+		const setting = new Setting(contentEl).setName("DOI");
+		// ISBNs are checked while typing; a wrong check digit is usually a typo
+		const isbnWarning = setting.descEl.createDiv({ cls: "mod-warning" });
+		const checkIsbn = () => {
+			const digits = isbnDigits(this.doiInput);
+			isbnWarning.setText(digits && !isValidIsbn(digits) ? "Not a valid ISBN: the check digit does not match." : "");
+		};
+		setting
 			.addText((text) => {
 				text.setPlaceholder("10.1038/s41586-020-2649-2");
 				text.onChange((value) => {
 					this.doiInput = value;
+					checkIsbn();
 				});
 				// Allow Enter to submit
 				text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
@@ -48,8 +52,16 @@ export class DoiInputModal extends Modal {
 				// Focus the input after a small delay so the modal is rendered
 				setTimeout(() => text.inputEl.focus(), 50);
 			});
+		checkIsbn();
 
 		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText("Batch import…")
+					.onClick(() => {
+						this.close();
+						new BatchImportModal(this.app, this.plugin).open();
+					});
+			})
 			.addButton((btn) => {
 				btn.setButtonText("Import")
 					.setCta()
@@ -60,30 +72,15 @@ export class DoiInputModal extends Modal {
 	private async submit(): Promise<void> {
 		const doi = this.doiInput.trim();
 		if (!doi) {
-			new Notice("Please enter a DOI.");
+			new Notice("Please enter a DOI or arXiv ID.");
 			return;
 		}
 
-		new Notice("Fetching paper metadata…");
-
 		try {
-			const paper = await fetchPaperMetadata(doi);
-
-			// Duplicate check before creating the note
-			const dup = this.plugin.paperIndex.findDuplicate({ doi: paper.doi, title: paper.title });
-			if (dup && this.plugin.settings.confirmDuplicateImports) {
-				const confirmed = await new ConfirmDuplicateModal(this.app, dup.path, dup.type).openAndWait();
-				if (!confirmed) {
-					new Notice("Import cancelled (duplicate detected).");
-					return;
-				}
-			}
-
-			const filePath = await createPaperNote(this.app, paper, this.settings);
-
-			new Notice(`Imported: ${paper.title}`);
+			const outcome = await importPaper(this.plugin, doi);
+			if (!outcome.done) return;
 			this.close();
-			this.onSuccess(filePath);
+			if (outcome.path) this.onSuccess(outcome.path);
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error);
 			new Notice(`Error importing paper: ${message}`);
@@ -0,0 +1,91 @@
+import { App, Modal, Notice, Setting, TFile, TextComponent } from "obsidian";
+import { LIBRARY_FORMATS, LibraryFormat } from "../formats";
+import { exportLibrary } from "../library";
+import type EasyPaperImporter from "../main";
+
+/**
+ * Modal that exports the whole library, or a selection of paper notes,
+ * to a BibTeX, RIS or CSL-JSON file in the vault.
+ */
+export class ExportModal extends Modal {
+	private plugin: EasyPaperImporter;
+	private files?: TFile[];
+	private format: LibraryFormat;
+	private path: string;
+
+	constructor(app: App, plugin: EasyPaperImporter, files?: TFile[]) {
+		super(app);
+
+		this.plugin = plugin;
+		this.files = files;
+		this.format = LIBRARY_FORMATS[0] as LibraryFormat;
+		this.path = this.defaultPath();
+	}
+
+	/** Reuse the BibTeX export location, swapping the extension. */
+	private defaultPath(): string {
+		const base = this.plugin.settings.bibtexExportPath.replace(/\.[^/.]+$/, "");
+		const name = this.files ? `${base}-selection` : base;
+		return `${name}.${this.format.extensions[0] ?? "txt"}`;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const count = this.files ? this.files.length : this.plugin.paperIndex.getIndexedPaths().length;
+
+		contentEl.createEl("h2", { text: this.files ? "Export selected papers" : "Export library" });
+		contentEl.createEl("p", {
+			text: `${count} paper note${count === 1 ? "" : "s"} will be exported.`,
+			cls: "setting-item-description",
+		});
+
+		let pathInput: TextComponent;
+		new Setting(contentEl)
+			.setName("Format")
+			.addDropdown((d) => {
+				for (const format of LIBRARY_FORMATS) d.addOption(format.name, format.name);
+				d.setValue(this.format.name).onChange((v) => {
+					this.format = LIBRARY_FORMATS.find((f) => f.name === v) ?? this.format;
+					this.path = this.defaultPath();
+					pathInput.setValue(this.path);
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("File path")
+			.setDesc("Vault path of the exported file. An existing file is overwritten.")
+			.addText((t) => {
+				pathInput = t;
+				t.setValue(this.path).onChange((v) => {
+					this.path = v.trim();
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) => btn
+				.setButtonText("Export")
+				.setCta()
+				.onClick(() => void this.submit()));
+	}
+
+	private async submit(): Promise<void> {
+		if (!this.path) {
+			new Notice("Please enter a file path.");
+			return;
+		}
+		try {
+			const exported = await exportLibrary(this.plugin, this.format, this.path, this.files);
+			new Notice(`Exported ${exported} papers to ${this.path}.`);
+			this.close();
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error exporting papers: ${message}`);
+			console.error("Easy Paper Importer: Error exporting papers", error);
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,104 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { FileSuggestModal } from "../settings";
+import { LibraryFormat } from "../formats";
+import { ImportReportItem, importRecords } from "../importer";
+import { ImportSummaryModal } from "./import-summary-modal";
+import type EasyPaperImporter from "../main";
+
+/**
+ * Modal that lets the user pick a library file (from the vault or from
+ * disk) and bulk-imports every entry in it.
+ */
+export class FileImportModal extends Modal {
+	private plugin: EasyPaperImporter;
+	private format: LibraryFormat;
+	private enrich: boolean;
+
+	constructor(app: App, plugin: EasyPaperImporter, format: LibraryFormat) {
+		super(app);
+
+		this.plugin = plugin;
+		this.format = format;
+		this.enrich = plugin.settings.enrichBulkImports;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		const extensions = this.format.extensions.map((e) => `.${e}`).join(", ");
+
+		contentEl.createEl("h2", { text: `Import papers from ${this.format.name}` });
+		contentEl.createEl("p", {
+			text: `Choose a ${extensions} file. A note is created for every entry that is not already in your library.`,
+			cls: "setting-item-description",
+		});
+
+		new Setting(contentEl)
+			.setName("Enrich from DOI")
+			.setDesc("Fetch fresh metadata for entries with a DOI or arXiv ID.")
+			.addToggle((t) => t
+				.setValue(this.enrich)
+				.onChange((v) => {
+					this.enrich = v;
+				}));
+
+		new Setting(contentEl)
+			.setName("File")
+			.addButton((btn) => btn
+				.setButtonText("From vault")
+				.onClick(() => {
+					new FileSuggestModal(this.app, (file) => {
+						void this.app.vault.read(file).then((text) => this.run(text, file.name));
+					}, this.format.extensions).open();
+				}))
+			.addButton((btn) => btn
+				.setButtonText("From disk")
+				.setCta()
+				.onClick(() => this.pickFromDisk()));
+	}
+
+	private pickFromDisk(): void {
+		const input = document.createElement("input");
+		input.type = "file";
+		input.accept = this.format.extensions.map((e) => `.${e}`).join(",");
+		input.addEventListener("change", () => {
+			const file = input.files?.[0];
+			if (file) void file.text().then((text) => this.run(text, file.name));
+		});
+		input.click();
+	}
+
+	private async run(text: string, sourceName: string): Promise<void> {
+		this.close();
+
+		const progress = new Notice(`Reading ${sourceName}…`, 0);
+		const report: ImportReportItem[] = [];
+		try {
+			const { records, errors } = this.format.read(text);
+			if (records.length === 0 && errors.length === 0) {
+				new Notice(`No entries found in ${sourceName}.`);
+				return;
+			}
+
+			progress.setMessage(`Importing ${records.length} entries from ${sourceName}…`);
+			report.push(...errors.map((message): ImportReportItem => ({ label: sourceName, status: "failed", message })));
+			report.push(...await importRecords(this.plugin, records, {
+				enrich: this.enrich,
+				onProgress: (done, total) => progress.setMessage(`Importing entries from ${sourceName}: ${done}/${total}`),
+			}));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error importing ${sourceName}: ${message}`);
+			console.error("Easy Paper Importer: Error importing", sourceName, error);
+			return;
+		} finally {
+			progress.hide();
+		}
+
+		new ImportSummaryModal(this.app, `Imported ${sourceName}`, report).open();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,72 @@
+import { Notice, TFile } from "obsidian";
+import { PaperMetadata } from "../types";
+import { fetchPaperMetadata } from "../doi";
+import { ImportOptions, createNoteForPaper, describePdfResult } from "../importer";
+import { ConfirmDuplicateModal } from "./confirm-duplicate-modal";
+import { RefreshReviewModal } from "./refresh-modal";
+import { duplicateQuery } from "../indexer";
+import { addIdentifierAliases, linkRelatedNotes } from "../duplicates";
+import { compareProperties } from "../refresh";
+import type EasyPaperImporter from "../main";
+
+export interface ImportOutcome {
+	/** False when the user cancelled at the duplicate prompt. */
+	done: boolean;
+	/** Note to open afterwards: the new note, or the existing note chosen instead. */
+	path?: string;
+}
+
+/**
+ * Fetch a paper by DOI or arXiv ID and create its note, asking first
+ * when it may already be in the library. Used by the import modal and
+ * by import links. Errors are thrown for the caller to report.
+ */
+export async function importPaper(plugin: EasyPaperImporter, input: string, options: ImportOptions = {}): Promise<ImportOutcome> {
+	const { app } = plugin;
+	new Notice("Fetching paper metadata…");
+	const paper = await fetchPaperMetadata(input, plugin.settings.metadataProviders);
+
+	// Duplicate check before creating the note
+	const duplicates = plugin.paperIndex.findDuplicates(duplicateQuery(paper));
+	let linkTo: TFile | null = null;
+	if (duplicates.length > 0 && plugin.settings.confirmDuplicateImports) {
+		const choice = await new ConfirmDuplicateModal(app, duplicates).openAndWait();
+		if (choice.action === "cancel") {
+			new Notice("Import cancelled (duplicate detected).");
+			return { done: false };
+		}
+		if (choice.action !== "import") {
+			const existing = app.vault.getAbstractFileByPath(choice.path);
+			if (!(existing instanceof TFile)) throw new Error(`${choice.path} no longer exists.`);
+			if (choice.action !== "link") return resolveWithExisting(plugin, choice.action, existing, paper);
+			linkTo = existing;
+		}
+	}
+
+	const { path, pdf } = await createNoteForPaper(plugin, paper, undefined, options);
+	const created = app.vault.getAbstractFileByPath(path);
+	if (linkTo && created instanceof TFile) await linkRelatedNotes(plugin, created, linkTo);
+
+	new Notice(`Imported: ${paper.title}`);
+	if (pdf) new Notice(describePdfResult(pdf));
+	return { done: true, path };
+}
+
+/** Use the existing note instead of importing: open it, review updates to it, or add the new identifier. */
+async function resolveWithExisting(plugin: EasyPaperImporter, action: "open" | "update" | "alias", existing: TFile, paper: PaperMetadata): Promise<ImportOutcome> {
+	const { app } = plugin;
+	if (action === "open") return { done: true, path: existing.path };
+
+	if (action === "update") {
+		const fm = (app.metadataCache.getFileCache(existing)?.frontmatter ?? {}) as Record<string, unknown>;
+		const changes = compareProperties(plugin, fm, paper);
+		if (changes.length === 0) new Notice(`${existing.basename} is already up to date.`);
+		else new RefreshReviewModal(app, plugin, [{ file: existing, paper, changes }]).open();
+	} else {
+		const added = await addIdentifierAliases(plugin, existing, paper);
+		new Notice(added.length > 0
+			? `Added ${added.join(", ")} to ${existing.basename}.`
+			: `${existing.basename} already has this identifier.`);
+	}
+	return { done: true };
+}
@@ -0,0 +1,58 @@
+import { App, Modal } from "obsidian";
+import { ImportReportItem, ImportStatus } from "../importer";
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+	created: "Created",
+	updated: "Updated",
+	skipped: "Skipped",
+	failed: "Failed",
+};
+
+/**
+ * Shows what a bulk import or sync created, updated, skipped or failed. Entries with a
+ * note path can be clicked to open that note.
+ */
+export class ImportSummaryModal extends Modal {
+	constructor(app: App, private heading: string, private items: ImportReportItem[]) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: this.heading });
+
+		const counts = (status: ImportStatus) => this.items.filter((i) => i.status === status).length;
+		// Only syncs update notes
+		const updated = counts("updated") > 0 ? `${counts("updated")} updated, ` : "";
+		contentEl.createEl("p", {
+			text: `${counts("created")} created, ${updated}${counts("skipped")} skipped, ${counts("failed")} failed.`,
+		});
+
+		for (const status of ["failed", "skipped", "updated", "created"] as ImportStatus[]) {
+			const group = this.items.filter((i) => i.status === status);
+			if (group.length === 0) continue;
+
+			contentEl.createEl("h4", { text: `${STATUS_LABELS[status]} (${group.length})` });
+			const list = contentEl.createEl("ul", { cls: "easy-paper-import-summary" });
+			for (const item of group) {
+				const li = list.createEl("li");
+				li.createSpan({ text: item.label });
+				if (item.message) li.createSpan({ text: ` — ${item.message}`, cls: "setting-item-description" });
+				if (item.path) {
+					const path = item.path;
+					li.createSpan({ text: " " });
+					li.createEl("a", { text: path, href: "#" }).addEventListener("click", (e) => {
+						e.preventDefault();
+						void this.app.workspace.openLinkText(path, "", true);
+					});
+				}
+			}
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,274 @@
+import { DropdownComponent, ItemView, Keymap, SearchComponent, TFile, TextComponent, WorkspaceLeaf, debounce } from "obsidian";
+import { fmList, fmString, stripWikiLink } from "../note";
+import type EasyPaperImporter from "../main";
+
+export const LIBRARY_VIEW_TYPE = "easy-paper-library";
+
+/** Quiet period after note changes before the table is redrawn. */
+const REFRESH_DELAY_MS = 500;
+
+type Column = "title" | "author" | "year" | "journal" | "status" | "tags";
+
+const COLUMNS: Array<{ key: Column; label: string }> = [
+	{ key: "title", label: "Title" },
+	{ key: "author", label: "First author" },
+	{ key: "year", label: "Year" },
+	{ key: "journal", label: "Journal" },
+	{ key: "status", label: "Status" },
+	{ key: "tags", label: "Tags" },
+];
+
+/** One paper note as the table shows it, read from its frontmatter. */
+interface LibraryRow {
+	file: TFile;
+	title: string;
+	author: string;
+	year: number | null;
+	journal: string;
+	status: string;
+	tags: string[];
+	/** Lower-case text the search box matches against. */
+	haystack: string;
+}
+
+/**
+ * Browses every paper in the index as a table that can be sorted by
+ * any column and filtered by text, year range, journal and tag. The
+ * table follows changes to the notes as they happen, re-reading only
+ * the paper notes that changed.
+ */
+export class LibraryView extends ItemView {
+	private plugin: EasyPaperImporter;
+	/** Rows by note path. */
+	private rows = new Map<string, LibraryRow>();
+	/** Table rows currently drawn, by note path. */
+	private rowEls = new Map<string, HTMLTableRowElement>();
+	private sortBy: Column = "year";
+	private descending = true;
+	private query = "";
+	private yearFrom: number | null = null;
+	private yearTo: number | null = null;
+	private journal = "";
+	private tag = "";
+	private journalDropdown: DropdownComponent;
+	private tagDropdown: DropdownComponent;
+	private summaryEl: HTMLElement;
+	private headEl: HTMLElement;
+	private bodyEl: HTMLElement;
+
+	private requestRedraw = debounce(() => {
+		this.updateFacets();
+		this.render();
+	}, REFRESH_DELAY_MS, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: EasyPaperImporter) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return LIBRARY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Paper library";
+	}
+
+	getIcon(): string {
+		return "library";
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("easy-paper-library");
+
+		const controls = contentEl.createDiv({ cls: "easy-paper-library-controls" });
+		new SearchComponent(controls)
+			.setPlaceholder("Filter by title, author, journal or tag…")
+			.onChange((v) => {
+				this.query = v.trim().toLowerCase();
+				this.render();
+			});
+
+		const yearInput = (placeholder: string, onChange: (year: number | null) => void) => {
+			const input = new TextComponent(controls)
+				.setPlaceholder(placeholder)
+				.onChange((v) => {
+					const year = parseInt(v, 10);
+					onChange(isNaN(year) ? null : year);
+					this.render();
+				});
+			input.inputEl.type = "number";
+			input.inputEl.addClass("easy-paper-library-year");
+		};
+		yearInput("From year", (year) => this.yearFrom = year);
+		yearInput("To year", (year) => this.yearTo = year);
+
+		this.journalDropdown = new DropdownComponent(controls).onChange((v) => {
+			this.journal = v;
+			this.render();
+		});
+		this.tagDropdown = new DropdownComponent(controls).onChange((v) => {
+			this.tag = v;
+			this.render();
+		});
+
+		this.summaryEl = contentEl.createDiv({ cls: "easy-paper-library-summary" });
+		const table = contentEl.createEl("table", { cls: "easy-paper-library-table" });
+		this.headEl = table.createEl("thead").createEl("tr");
+		this.bodyEl = table.createEl("tbody");
+
+		// Notes are re-read once the metadata cache has parsed them
+		this.registerEvent(this.app.metadataCache.on("changed", (file) => this.updateRow(file)));
+		this.registerEvent(this.app.vault.on("delete", (file) => {
+			if (this.rows.delete(file.path)) this.requestRedraw();
+		}));
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			const moved = this.rows.delete(oldPath);
+			if (file instanceof TFile && this.plugin.isPaperNote(file)) this.rows.set(file.path, this.readRow(file));
+			else if (!moved) return;
+			this.requestRedraw();
+		}));
+
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.requestRedraw.cancel();
+	}
+
+	/** Re-read every indexed note and redraw the facets and the table. */
+	private refresh(): void {
+		this.rows.clear();
+		for (const path of this.plugin.paperIndex.getIndexedPaths()) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) this.rows.set(path, this.readRow(file));
+		}
+		this.updateFacets();
+		this.render();
+	}
+
+	/**
+	 * Re-read a note the metadata cache has parsed again. Notes outside
+	 * the library are ignored. A row that keeps its place, visibility
+	 * and facet values is redrawn in place; otherwise the table is.
+	 */
+	private updateRow(file: TFile): void {
+		const before = this.rows.get(file.path);
+		if (!this.plugin.isPaperNote(file)) {
+			if (before) {
+				this.rows.delete(file.path);
+				this.requestRedraw();
+			}
+			return;
+		}
+
+		const row = this.readRow(file);
+		this.rows.set(file.path, row);
+		const inPlace = before
+			&& this.compare(before, row) === 0
+			&& this.matches(before) === this.matches(row)
+			&& before.journal === row.journal
+			&& before.tags.join("\n") === row.tags.join("\n");
+		if (!inPlace) {
+			this.requestRedraw();
+			return;
+		}
+		const tr = this.rowEls.get(file.path);
+		if (tr) this.fillRow(tr, row);
+	}
+
+	private readRow(file: TFile): LibraryRow {
+		const fm = (this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const year = parseInt(fmString(fm.year), 10);
+		// Authors may be links to author notes
+		const authors = fmList(fm.authors).map(stripWikiLink);
+		const row = {
+			file,
+			title: fmString(fm.title) || file.basename,
+			author: authors[0] ?? "",
+			year: isNaN(year) ? null : year,
+			journal: fmString(fm.journal),
+			status: fmString(fm.status),
+			tags: fmList(fm.tags).map((t) => t.replace(/^#/, "")),
+		};
+		return { ...row, haystack: [row.title, ...authors, row.journal, fmString(fm.citekey), ...row.tags].join(" ").toLowerCase() };
+	}
+
+	/** Fill the journal and tag dropdowns, keeping the current choice when it still exists. */
+	private updateFacets(): void {
+		const fill = (dropdown: DropdownComponent, all: string, values: string[], current: string) => {
+			dropdown.selectEl.empty();
+			dropdown.addOption("", all);
+			const options = [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b));
+			for (const value of options) dropdown.addOption(value, value);
+			dropdown.setValue(options.includes(current) ? current : "");
+		};
+		const rows = [...this.rows.values()];
+		fill(this.journalDropdown, "All journals", rows.map((r) => r.journal), this.journal);
+		fill(this.tagDropdown, "All tags", rows.flatMap((r) => r.tags), this.tag);
+		this.journal = this.journalDropdown.getValue();
+		this.tag = this.tagDropdown.getValue();
+	}
+
+	private matches(row: LibraryRow): boolean {
+		if (this.query && !this.query.split(/\s+/).every((word) => row.haystack.includes(word))) return false;
+		if (this.yearFrom != null && (row.year == null || row.year < this.yearFrom)) return false;
+		if (this.yearTo != null && (row.year == null || row.year > this.yearTo)) return false;
+		if (this.journal && row.journal !== this.journal) return false;
+		return !this.tag || row.tags.includes(this.tag);
+	}
+
+	/** Sort order of two rows by the chosen column; empty values always come last. */
+	private compare(a: LibraryRow, b: LibraryRow): number {
+		const value = (row: LibraryRow) => (this.sortBy === "tags" ? row.tags.join(", ") : row[this.sortBy]);
+		const x = value(a);
+		const y = value(b);
+		const xEmpty = x == null || x === "";
+		const yEmpty = y == null || y === "";
+		if (xEmpty || yEmpty) return xEmpty === yEmpty ? 0 : xEmpty ? 1 : -1;
+		const order = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y));
+		return this.descending ? -order : order;
+	}
+
+	private render(): void {
+		this.headEl.empty();
+		for (const column of COLUMNS) {
+			const arrow = column.key === this.sortBy ? (this.descending ? " ↓" : " ↑") : "";
+			const th = this.headEl.createEl("th", { text: `${column.label}${arrow}` });
+			th.addEventListener("click", () => {
+				// Years start with the newest, text columns from A
+				this.descending = column.key === this.sortBy ? !this.descending : column.key === "year";
+				this.sortBy = column.key;
+				this.render();
+			});
+		}
+
+		const shown = [...this.rows.values()].filter((r) => this.matches(r)).sort((a, b) => this.compare(a, b));
+		this.summaryEl.setText(shown.length === this.rows.size
+			? `${this.rows.size} papers`
+			: `${shown.length} of ${this.rows.size} papers`);
+
+		this.bodyEl.empty();
+		this.rowEls.clear();
+		for (const row of shown) {
+			const tr = this.bodyEl.createEl("tr");
+			this.fillRow(tr, row);
+			tr.addEventListener("click", (evt) => {
+				void this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(row.file);
+			});
+			this.rowEls.set(row.file.path, tr);
+		}
+	}
+
+	private fillRow(tr: HTMLTableRowElement, row: LibraryRow): void {
+		tr.empty();
+		tr.createEl("td", { text: row.title });
+		tr.createEl("td", { text: row.author });
+		tr.createEl("td", { text: row.year != null ? String(row.year) : "" });
+		tr.createEl("td", { text: row.journal });
+		tr.createEl("td", { text: row.status });
+		tr.createEl("td", { text: row.tags.join(", ") });
+	}
+}
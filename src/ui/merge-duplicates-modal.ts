@@ -0,0 +1,118 @@
+import { App, Modal, Notice, Setting, TFile } from "obsidian";
+import { DuplicatePair, linkRelatedNotes, mergeNotes } from "../duplicates";
+import { fmString, paperFromFrontmatter } from "../note";
+import type EasyPaperImporter from "../main";
+
+/**
+ * Walks through possible duplicates in the library one pair at a time.
+ * Either note can be kept (the other is merged into it and trashed),
+ * the two can be linked as related, or the pair can be skipped.
+ */
+export class MergeDuplicatesModal extends Modal {
+	private plugin: EasyPaperImporter;
+	private pairs: DuplicatePair[];
+	private current = 0;
+	private merged = 0;
+	private linked = 0;
+	/** Notes merged away; later pairs that involve them are skipped. */
+	private removed = new Set<string>();
+
+	constructor(app: App, plugin: EasyPaperImporter, pairs: DuplicatePair[]) {
+		super(app);
+		this.plugin = plugin;
+		this.pairs = pairs;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		while (this.pairs[this.current] && this.isStale(this.pairs[this.current] as DuplicatePair)) this.current++;
+		const pair = this.pairs[this.current];
+		if (!pair) {
+			new Notice(`Merged ${this.merged} and linked ${this.linked} duplicate notes.`);
+			this.close();
+			return;
+		}
+
+		contentEl.createEl("h2", { text: "Merge duplicate papers" });
+		contentEl.createEl("p", {
+			text: `Pair ${this.current + 1} of ${this.pairs.length}: ${pair.match.type}, ${Math.round(pair.match.score * 100)}% match.`,
+			cls: "setting-item-description",
+		});
+		this.describe(pair.first);
+		this.describe(pair.second);
+
+		new Setting(contentEl)
+			.addButton((btn) => btn
+				.setButtonText("Skip")
+				.onClick(() => this.next()))
+			.addButton((btn) => btn
+				.setButtonText("Link as related")
+				.onClick(() => void this.act(pair, () => linkRelatedNotes(this.plugin, pair.first, pair.second), "linked")))
+			.addButton((btn) => btn
+				.setButtonText(`Keep ${pair.second.basename}`)
+				.onClick(() => void this.act(pair, () => this.merge(pair.second, pair.first), "merged")))
+			.addButton((btn) => btn
+				.setButtonText(`Keep ${pair.first.basename}`)
+				.setCta()
+				.onClick(() => void this.act(pair, () => this.merge(pair.first, pair.second), "merged")));
+	}
+
+	/** Title, authors, year and identifiers of one note of the pair. */
+	private describe(file: TFile): void {
+		const fm = (this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}) as Record<string, unknown>;
+		const paper = paperFromFrontmatter(fm);
+		const details = [
+			paper.authors.map((a) => a.name).join(", "),
+			paper.year != null ? String(paper.year) : "",
+			paper.journal,
+			paper.doi ? `DOI ${paper.doi}` : "",
+			paper.arxivId ? `arXiv:${paper.arxivId}` : "",
+			fmString(fm.date_imported) ? `imported ${fmString(fm.date_imported)}` : "",
+		].filter(Boolean).join(" · ");
+
+		const setting = new Setting(this.contentEl).setName(paper.title || file.basename).setDesc(details);
+		setting.descEl.createDiv({ text: file.path });
+		setting.addButton((btn) => btn
+			.setButtonText("Open")
+			.onClick(() => void this.app.workspace.getLeaf("tab").openFile(file)));
+	}
+
+	private isStale(pair: DuplicatePair): boolean {
+		return this.removed.has(pair.first.path) || this.removed.has(pair.second.path);
+	}
+
+	private async merge(keep: TFile, remove: TFile): Promise<void> {
+		const path = remove.path;
+		await mergeNotes(this.plugin, keep, remove);
+		this.removed.add(path);
+	}
+
+	private async act(pair: DuplicatePair, action: () => Promise<void>, outcome: "merged" | "linked"): Promise<void> {
+		try {
+			await action();
+			if (outcome === "merged") this.merged++;
+			else this.linked++;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			new Notice(`Error resolving ${pair.first.basename}: ${message}`);
+			console.error("Easy Paper Importer: Error resolving duplicates", pair.first.path, pair.second.path, error);
+		}
+		this.next();
+	}
+
+	private next(): void {
+		this.current++;
+		this.render();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,94 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { RefreshResult, applyRefresh, formatValue } from "../refresh";
+import type EasyPaperImporter from "../main";
+
+/**
+ * Shows the properties a metadata refresh would change, per note, as
+ * "old → new" with a toggle each. Only the accepted changes are
+ * written. Notes that could not be refreshed are listed at the end.
+ */
+export class RefreshReviewModal extends Modal {
+	private plugin: EasyPaperImporter;
+	private results: RefreshResult[];
+
+	constructor(app: App, plugin: EasyPaperImporter, results: RefreshResult[]) {
+		super(app);
+		this.plugin = plugin;
+		this.results = results;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const changed = this.results.filter((r) => r.changes.length > 0);
+		const failed = this.results.filter((r) => r.error);
+		contentEl.createEl("h2", { text: "Review metadata changes" });
+		contentEl.createEl("p", {
+			text: `${changed.length} of ${this.results.length} notes have changes, ${failed.length} could not be refreshed.`,
+			cls: "setting-item-description",
+		});
+
+		for (const result of changed) {
+			const heading = contentEl.createEl("h4");
+			heading.createEl("a", { text: result.file.basename, href: "#" }).addEventListener("click", (e) => {
+				e.preventDefault();
+				void this.app.workspace.openLinkText(result.file.path, "", true);
+			});
+
+			for (const change of result.changes) {
+				new Setting(contentEl)
+					.setName(change.key)
+					.setDesc(`${formatValue(change.before)} → ${formatValue(change.after)}`)
+					.addToggle((t) => t
+						.setValue(change.accepted)
+						.onChange((v) => {
+							change.accepted = v;
+						}));
+			}
+		}
+
+		if (failed.length > 0) {
+			contentEl.createEl("h4", { text: `Failed (${failed.length})` });
+			const list = contentEl.createEl("ul", { cls: "easy-paper-import-summary" });
+			for (const result of failed) {
+				const li = list.createEl("li");
+				li.createSpan({ text: result.file.basename });
+				li.createSpan({ text: ` — ${result.error ?? ""}`, cls: "setting-item-description" });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => btn
+				.setButtonText("Cancel")
+				.onClick(() => this.close()))
+			.addButton((btn) => btn
+				.setButtonText("Update notes")
+				.setCta()
+				.setDisabled(changed.length === 0)
+				.onClick(() => void this.apply(changed)));
+	}
+
+	private async apply(results: RefreshResult[]): Promise<void> {
+		let properties = 0;
+		let notes = 0;
+		for (const result of results) {
+			try {
+				const written = await applyRefresh(this.plugin, result);
+				properties += written;
+				if (written > 0) notes++;
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				new Notice(`Error updating ${result.file.basename}: ${message}`);
+				console.error("Easy Paper Importer: Error updating", result.file.path, error);
+			}
+		}
+		new Notice(`Updated ${properties} properties in ${notes} notes.`);
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,53 @@
+import { ObsidianProtocolData } from "obsidian";
+import { ImportOptions } from "./importer";
+
+/** Protocol action that imports a paper, e.g. obsidian://easy-paper-importer?doi=… */
+export const IMPORT_PROTOCOL_ACTION = "easy-paper-importer";
+
+/** Link that imports the paper with a DOI. */
+export function importUri(doi: string): string {
+	return `obsidian://${IMPORT_PROTOCOL_ACTION}?doi=${encodeURIComponent(doi)}`;
+}
+
+/** What an import link asks for. */
+export interface ImportRequest {
+	/** DOI, arXiv ID, PubMed ID or page URL to import; "" when the link names none. */
+	input: string;
+	options: ImportOptions;
+}
+
+/**
+ * Read an import link's parameters: `doi`, `arxiv`, `pmid`, `pmcid` or
+ * `url` (a page the identifier is read from), and optionally `folder`,
+ * `tags` (comma-separated) and `template` (a template file in the vault).
+ */
+export function parseImportRequest(params: ObsidianProtocolData): ImportRequest {
+	const param = (name: string) => (params[name] ?? "").trim();
+	// Bare arXiv IDs, PubMed IDs and PMCIDs are told apart by their form
+	const input = param("doi") || param("arxiv") || param("pmid") || param("pmcid") || param("url");
+	const tags = param("tags").split(",").map((t) => t.trim().replace(/^#/, "")).filter(Boolean);
+	return {
+		input,
+		options: {
+			folder: param("folder") || undefined,
+			tags: tags.length > 0 ? tags : undefined,
+			template: param("template") || undefined,
+		},
+	};
+}
+
+/**
+ * Bookmarklet that imports the paper on the current browser page into
+ * `vault`. The DOI comes from the page's citation meta tags, which most
+ * publishers provide; other pages send their URL to be resolved in
+ * Obsidian.
+ */
+export function bookmarklet(vault: string): string {
+	const script = `(function(){
+var m=function(n){var e=document.querySelector('meta[name="'+n+'" i]');return e?e.content:""};
+var d=(m("citation_doi")||m("dc.identifier")||m("prism.doi")||m("bepress_citation_doi")).match(/10\\.\\d{4,9}\\/\\S+/);
+var q=d?"doi="+encodeURIComponent(d[0]):"url="+encodeURIComponent(location.href);
+location.href="obsidian://${IMPORT_PROTOCOL_ACTION}?vault=${encodeURIComponent(vault)}&"+q;
+})();`;
+	return `javascript:${script.replace(/\n/g, "")}`;
+}
@@ -0,0 +1,336 @@
+import { App, TFile, normalizePath } from "obsidian";
+import { promises as fs } from "fs";
+import { PaperMetadata, normalizePaper } from "./types";
+import { bibEntryToPaper, parseBibtex } from "./formats/bibtex";
+import { cslItemToPaper, parseCslJson } from "./formats/csl";
+import { ImportReportItem, createNoteForPaper, describePdfResult } from "./importer";
+import { ensureFolder, fmList, fmString, sanitiseFilename, toTag } from "./note";
+import { FieldChange, applyRefresh, compareProperties } from "./refresh";
+import { duplicateQuery } from "./indexer";
+import { normalizeIsbn } from "./isbn";
+import type EasyPaperImporter from "./main";
+
+/** One item of a Zotero export, ready to sync. */
+export interface ZoteroItem {
+	/**
+	 * Zotero item key, or the citation key for exports that carry no
+	 * item keys (Better BibTeX keeps citation keys stable).
+	 */
+	key: string;
+	paper: PaperMetadata;
+	/** The item's Zotero tags as note tags. */
+	tags: string[];
+	/**
+	 * Folder below the paper folder for the item's collection ("" when
+	 * it is in none); null when the export does not list collections.
+	 */
+	folder: string | null;
+}
+
+export interface ZoteroSyncResult {
+	/** Created, updated and failed items; unchanged items are only counted. */
+	report: ImportReportItem[];
+	unchanged: number;
+}
+
+type BbtCreator = { creatorType?: string; firstName?: string; lastName?: string; name?: string };
+
+/** The parts of a Better BibTeX JSON item we use. */
+interface BbtItem {
+	itemID?: number;
+	itemKey?: string;
+	key?: string;
+	citationKey?: string;
+	citekey?: string;
+	itemType?: string;
+	title?: string;
+	creators?: BbtCreator[];
+	date?: string;
+	publicationTitle?: string;
+	proceedingsTitle?: string;
+	bookTitle?: string;
+	volume?: string;
+	issue?: string;
+	pages?: string;
+	DOI?: string;
+	url?: string;
+	abstractNote?: string;
+	publisher?: string;
+	ISSN?: string;
+	ISBN?: string;
+	edition?: string;
+	archiveID?: string;
+	extra?: string;
+	tags?: Array<string | { tag?: string }>;
+	/** Keys of the collections the item is in. */
+	collections?: string[];
+}
+
+interface BbtCollection {
+	key?: string;
+	name?: string;
+	/** Key of the parent collection, false at the top level. */
+	parent?: string | false;
+	/** `itemID`s of the collection's items. */
+	items?: number[];
+}
+
+/** A Better BibTeX JSON export: items plus the collection tree. */
+interface BbtExport {
+	items: BbtItem[];
+	collections?: Record<string, BbtCollection>;
+}
+
+/** Zotero item type → work type. */
+const ZOTERO_TO_WORK_TYPE: Record<string, string> = {
+	journalArticle: "journal-article",
+	magazineArticle: "journal-article",
+	conferencePaper: "proceedings-article",
+	book: "book",
+	bookSection: "book-chapter",
+	thesis: "dissertation",
+	report: "report",
+	preprint: "posted-content",
+	dataset: "dataset",
+	computerProgram: "software",
+	manuscript: "manuscript",
+};
+
+/** Zotero items that are not references of their own. */
+const SKIPPED_ITEM_TYPES = ["attachment", "note", "annotation"];
+
+/**
+ * Read the contents of a Zotero export. Absolute paths are read from
+ * disk, so an auto-export outside the vault works; anything else is a
+ * vault path.
+ */
+export async function readZoteroExport(app: App, path: string): Promise<string> {
+	if (/^(\/|[A-Za-z]:[\\/]|\\\\)/.test(path)) return fs.readFile(path, "utf8");
+	return app.vault.adapter.read(normalizePath(path));
+}
+
+/**
+ * Parse a Zotero export: Better BibTeX JSON (the only format that
+ * lists collections), CSL-JSON or Better BibTeX's BibTeX. Items without
+ * a key are left out since they could not be synced again.
+ */
+export function parseZoteroExport(text: string, fileName: string): ZoteroItem[] {
+	if (/\.(bib|biblatex)$/i.test(fileName)) {
+		return parseBibtex(text).entries.filter((e) => e.key).map((entry) => {
+			const paper = bibEntryToPaper(entry);
+			return { key: entry.key, paper, tags: paper.subjects.map(toTag), folder: null };
+		});
+	}
+
+	const data = JSON.parse(text) as unknown;
+	const bbt = data as Partial<BbtExport> | null;
+	if (bbt && !Array.isArray(bbt) && Array.isArray(bbt.items) && bbt.items.some((i) => i?.itemType)) {
+		return parseBbtExport(bbt as BbtExport);
+	}
+
+	return parseCslJson(text).flatMap((item) => {
+		// Zotero's own CSL-JSON uses the item URI as the id; Better CSL JSON the citation key
+		const id = String(item.id ?? "");
+		const key = id.match(/\/items\/([A-Z0-9]{8})$/)?.[1] ?? (item["citation-key"] || id);
+		if (!key) return [];
+		try {
+			const paper = cslItemToPaper(item);
+			return [{ key, paper, tags: paper.subjects.map(toTag), folder: null }];
+		} catch (e) {
+			console.error("Easy Paper Importer: Skipping unreadable Zotero item", key, e);
+			return [];
+		}
+	});
+}
+
+/** Values of "Key: value" lines in Zotero's Extra field, by lower-case key. */
+function parseExtra(extra: string): Record<string, string> {
+	const fields: Record<string, string> = {};
+	for (const line of extra.split("\n")) {
+		const match = line.match(/^\s*([\w ]+?)\s*:\s*(.+?)\s*$/);
+		if (match?.[1] && match[2]) fields[match[1].toLowerCase()] ??= match[2];
+	}
+	return fields;
+}
+
+/** Folder path of every collection, e.g. "Thesis/Chapter 2", by key. */
+function collectionFolders(collections: Record<string, BbtCollection>): Map<string, string> {
+	const folders = new Map<string, string>();
+	const folderOf = (key: string, seen: Set<string>): string => {
+		const known = folders.get(key);
+		if (known != null) return known;
+		const collection = collections[key];
+		if (!collection || seen.has(key)) return "";
+		seen.add(key);
+		const name = sanitiseFilename(collection.name ?? "") || key;
+		const parent = collection.parent ? folderOf(collection.parent, seen) : "";
+		const folder = parent ? `${parent}/${name}` : name;
+		folders.set(key, folder);
+		return folder;
+	};
+	for (const key of Object.keys(collections)) folderOf(key, new Set());
+	return folders;
+}
+
+function parseBbtExport(data: BbtExport): ZoteroItem[] {
+	const collections = data.collections ?? {};
+	const folders = collectionFolders(collections);
+
+	// Older exports only list the items in each collection
+	const itemCollections = new Map<number, string[]>();
+	for (const [key, collection] of Object.entries(collections)) {
+		for (const id of collection.items ?? []) itemCollections.set(id, [...(itemCollections.get(id) ?? []), key]);
+	}
+
+	const items: ZoteroItem[] = [];
+	for (const item of data.items) {
+		const key = item.itemKey || item.key || item.citationKey || item.citekey || "";
+		if (!key || SKIPPED_ITEM_TYPES.includes(item.itemType ?? "")) continue;
+
+		const keys = item.collections ?? (item.itemID != null ? itemCollections.get(item.itemID) : undefined) ?? [];
+		// An item in several collections lives in the first folder by name
+		const [folder = ""] = keys.map((k) => folders.get(k) ?? "").filter(Boolean).sort();
+		const tags = (item.tags ?? []).map((t) => (typeof t === "string" ? t : t.tag ?? "")).filter(Boolean);
+		items.push({ key, paper: bbtItemToPaper(item), tags: tags.map(toTag), folder });
+	}
+	return items;
+}
+
+/**
+ * Map a Better BibTeX JSON item onto PaperMetadata. Identifiers Zotero
+ * has no field for are read from the Extra field.
+ */
+function bbtItemToPaper(item: BbtItem): PaperMetadata {
+	const extra = parseExtra(item.extra ?? "");
+	const creators = item.creators ?? [];
+	const person = (c: BbtCreator) => (c.name ? { name: c.name, family: c.name } : { given: c.firstName ?? "", family: c.lastName ?? "" });
+	const authors = creators.filter((c) => (c.creatorType ?? "author") === "author").map(person);
+	const editors = creators.filter((c) => c.creatorType === "editor" || c.creatorType === "seriesEditor").map(person);
+
+	const date = (item.date ?? "").match(/(\d{4})(?:-(\d{2}))?/);
+	const doi = (item.DOI || extra.doi || "").replace(/^https?:\/\/(dx\.)?doi\.org\//i, "");
+	const arxiv = (item.archiveID || extra.arxiv || "").replace(/^arxiv:\s*/i, "").match(/^(\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(v\d+)?$/i);
+
+	return normalizePaper({
+		title: item.title || "Untitled",
+		// Edited books without authors are cited by their editors
+		authors: authors.length > 0 ? authors : editors,
+		editors,
+		abstract: item.abstractNote ?? "",
+		journal: item.publicationTitle || item.proceedingsTitle || item.bookTitle || "",
+		volume: item.volume ?? "",
+		issue: item.issue ?? "",
+		pages: (item.pages ?? "").replace(/\s*[–—-]+\s*/g, "-"),
+		year: date?.[1] ? Number(date[1]) : null,
+		month: date?.[2] ? Number(date[2]) : null,
+		doi,
+		doiUrl: doi ? `https://doi.org/${doi}` : item.url ?? "",
+		publisher: item.publisher ?? "",
+		issn: (item.ISSN ?? "").split(/\s*,\s*/).filter(Boolean),
+		isbn: (item.ISBN ?? "").split(/\s+|\s*,\s*/).map(normalizeIsbn).filter(Boolean),
+		edition: item.edition ?? "",
+		type: ZOTERO_TO_WORK_TYPE[item.itemType ?? ""] ?? "other",
+		arxivId: arxiv?.[1] ?? "",
+		arxivVersion: (arxiv?.[2] ?? "").toLowerCase(),
+		pmid: extra.pmid ?? "",
+		pmcid: extra.pmcid ?? "",
+		citekey: item.citationKey || item.citekey || extra["citation key"] || "",
+	});
+}
+
+/** Paper notes that already carry a `zotero_key`, by key. */
+function notesByZoteroKey(plugin: EasyPaperImporter): Map<string, TFile> {
+	const notes = new Map<string, TFile>();
+	for (const path of plugin.paperIndex.getIndexedPaths()) {
+		const file = plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) continue;
+		const key = fmString(plugin.app.metadataCache.getFileCache(file)?.frontmatter?.zotero_key);
+		if (key) notes.set(key, file);
+	}
+	return notes;
+}
+
+/** Vault folder for an item's collection, or null to leave the note where it is. */
+function targetFolder(plugin: EasyPaperImporter, item: ZoteroItem): string | null {
+	if (item.folder == null) return null;
+	return normalizePath(item.folder ? `${plugin.settings.paperFolder}/${item.folder}` : plugin.settings.paperFolder || "/");
+}
+
+/**
+ * Sync the notes of a Zotero export. Items are matched to notes by
+ * their `zotero_key`, or adopted from a duplicate note that has no key
+ * yet; the rest get new notes. Matched notes have their properties
+ * updated, the item's tags added and are moved to the folder of the
+ * item's collection. Only the frontmatter is ever written, so running
+ * a sync again changes nothing.
+ */
+export async function syncZoteroLibrary(
+	plugin: EasyPaperImporter,
+	items: ZoteroItem[],
+	onProgress?: (done: number, total: number) => void,
+): Promise<ZoteroSyncResult> {
+	const notes = notesByZoteroKey(plugin);
+	const result: ZoteroSyncResult = { report: [], unchanged: 0 };
+
+	for (const [i, item] of items.entries()) {
+		const label = item.paper.citekey || item.key;
+		try {
+			const paper = { ...item.paper, zoteroKey: item.key, source: "zotero" };
+			let note = notes.get(item.key);
+			if (!note) {
+				const dup = plugin.paperIndex.findDuplicate(duplicateQuery(paper));
+				const file = dup ? plugin.app.vault.getAbstractFileByPath(dup.path) : null;
+				// A note synced earlier, or just now, belongs to another item
+				const adoptable = file instanceof TFile && ![...notes.values()].includes(file)
+					&& !fmString(plugin.app.metadataCache.getFileCache(file)?.frontmatter?.zotero_key);
+				if (adoptable) note = file;
+			}
+
+			if (!note) {
+				const created = await createNoteForPaper(plugin, paper, undefined, { folder: item.folder ? targetFolder(plugin, item) ?? undefined : undefined, tags: item.tags });
+				const file = plugin.app.vault.getAbstractFileByPath(created.path);
+				if (file instanceof TFile) notes.set(item.key, file);
+				result.report.push({ label, status: "created", path: created.path, message: describePdfResult(created.pdf) || undefined });
+			} else {
+				notes.set(item.key, note);
+				const changes = await updateSyncedNote(plugin, note, item, paper);
+				if (changes.length === 0) result.unchanged++;
+				else result.report.push({ label, status: "updated", path: note.path, message: changes.join(", ") });
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			result.report.push({ label, status: "failed", message });
+			console.error("Easy Paper Importer: Error syncing Zotero item", item.key, error);
+		}
+		onProgress?.(i + 1, items.length);
+	}
+	return result;
+}
+
+/**
+ * Bring an existing note in line with its Zotero item. The note keeps
+ * its citekey and tags of its own. Returns what changed: the property
+ * names and, when it moved, its new folder.
+ */
+async function updateSyncedNote(plugin: EasyPaperImporter, note: TFile, item: ZoteroItem, paper: PaperMetadata): Promise<string[]> {
+	const fm = (plugin.app.metadataCache.getFileCache(note)?.frontmatter ?? {}) as Record<string, unknown>;
+	const current = { ...paper, citekey: fmString(fm.citekey) || paper.citekey };
+	const changes: FieldChange[] = compareProperties(plugin, fm, current).filter((c) => c.key !== "tags");
+
+	const tags = fmList(fm.tags);
+	const added = item.tags.filter((t) => !tags.includes(t));
+	if (added.length > 0) changes.push({ key: "tags", before: fm.tags, after: [...tags, ...added], accepted: true });
+	await applyRefresh(plugin, { file: note, paper: current, changes });
+
+	const described = changes.map((c) => c.key);
+	const folder = targetFolder(plugin, item);
+	if (folder != null && (note.parent?.path ?? "/") !== folder) {
+		const path = normalizePath(`${folder}/${note.name}`);
+		if (!plugin.app.vault.getAbstractFileByPath(path)) {
+			await ensureFolder(plugin.app, folder);
+			await plugin.app.fileManager.renameFile(note, path);
+			described.push(`moved to ${folder}`);
+		}
+	}
+	return described;
+}
@@ -0,0 +1,60 @@
+/*
+ * The parts of the Obsidian API that modules under test touch. Requests
+ * go out for real through fetch, so tests can point providers at a
+ * local mock server.
+ */
+import type { Debouncer, RequestUrlParam, RequestUrlResponse } from "obsidian";
+
+export async function requestUrl(request: RequestUrlParam | string): Promise<RequestUrlResponse> {
+	const { url, method = "GET", headers, body, throw: throwOnError = true } = typeof request === "string" ? { url: request } as RequestUrlParam : request;
+	// This stands in for requestUrl, so it has to use fetch
+	// eslint-disable-next-line no-restricted-globals
+	const response = await fetch(url, { method, headers, body });
+	const arrayBuffer = await response.arrayBuffer();
+	const text = new TextDecoder().decode(arrayBuffer);
+	if (throwOnError && response.status >= 400) throw new Error(`Request failed, status ${response.status}`);
+
+	const responseHeaders: Record<string, string> = {};
+	response.headers.forEach((value, key) => (responseHeaders[key] = value));
+	return {
+		status: response.status,
+		headers: responseHeaders,
+		arrayBuffer,
+		text,
+		get json() {
+			return JSON.parse(text) as unknown;
+		},
+	};
+}
+
+export function normalizePath(path: string): string {
+	return path.replace(/[\\/]+/g, "/").replace(/^\/|\/$/g, "") || "/";
+}
+
+export function debounce<T extends unknown[], V>(cb: (...args: [...T]) => V, timeout = 0, resetTimer = false): Debouncer<T, V> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let pending: T | undefined;
+	const run = (): V | void => {
+		clearTimeout(timer);
+		timer = undefined;
+		const args = pending;
+		pending = undefined;
+		if (args) return cb(...args);
+	};
+	const debounced = ((...args: T) => {
+		pending = args;
+		if (timer === undefined || resetTimer) {
+			clearTimeout(timer);
+			timer = setTimeout(run, timeout);
+		}
+		return debounced;
+	}) as Debouncer<T, V>;
+	debounced.cancel = () => {
+		clearTimeout(timer);
+		timer = undefined;
+		pending = undefined;
+		return debounced;
+	};
+	debounced.run = run;
+	return debounced;
+}
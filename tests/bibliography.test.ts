@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { formatCitation } from "../src/bibliography";
+import { normalizePaper } from "../src/types";
+
+const paper = normalizePaper({
+	title: "A Study of Things",
+	authors: ["Jean-Paul Andrew Smith", "Jane Doe", "Richard Roe"],
+	journal: "Journal of Studies",
+	volume: "12",
+	issue: "3",
+	pages: "45-67",
+	year: 2020,
+	doi: "10.1000/xyz",
+});
+
+describe("formatCitation", () => {
+	it("formats APA", () => {
+		expect(formatCitation(paper, "apa", 1)).toBe(
+			"Smith, J.-P. A., Doe, J., & Roe, R. (2020). A Study of Things. *Journal of Studies*, *12*(3), 45–67. https://doi.org/10.1000/xyz",
+		);
+	});
+
+	it("formats IEEE", () => {
+		expect(formatCitation(paper, "ieee", 4)).toBe(
+			`[4] J.-P. A. Smith, J. Doe, and R. Roe, "A Study of Things," *Journal of Studies*, vol. 12, no. 3, pp. 45–67, 2020, doi: 10.1000/xyz.`,
+		);
+	});
+
+	it("formats Chicago", () => {
+		expect(formatCitation(paper, "chicago", 1)).toBe(
+			`Smith, Jean-Paul Andrew, Jane Doe, and Richard Roe. 2020. "A Study of Things." *Journal of Studies* 12 (3): 45–67. https://doi.org/10.1000/xyz.`,
+		);
+	});
+
+	it("formats books with their edition", () => {
+		const book = normalizePaper({ title: "Collected Papers", authors: ["Ada Lovelace"], publisher: "Plenum", year: 1994, edition: "2", type: "book" });
+		expect(formatCitation(book, "apa", 1)).toBe("Lovelace, A. (1994). *Collected Papers* (2nd ed.). Plenum.");
+		expect(formatCitation(book, "ieee", 3)).toBe("[3] A. Lovelace, *Collected Papers*, 2nd ed. Plenum, 1994.");
+		expect(formatCitation(book, "chicago", 1)).toBe("Lovelace, Ada. 1994. *Collected Papers*. 2nd ed. Plenum.");
+	});
+
+	it("falls back to arXiv and n.d. for preprints without a date", () => {
+		const preprint = normalizePaper({ title: "Is It True?", authors: ["Ada Lovelace"], arxivId: "2401.01234" });
+		expect(formatCitation(preprint, "apa", 1)).toBe("Lovelace, A. (n.d.). Is It True? *arXiv*. https://arxiv.org/abs/2401.01234");
+		expect(formatCitation(preprint, "ieee", 1)).toBe(`[1] A. Lovelace, "Is It True?" *arXiv*, arXiv:2401.01234.`);
+	});
+});
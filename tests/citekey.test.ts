@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { generateCitekey, uniqueCitekey } from "../src/citekey";
+import { normalizePaper } from "../src/types";
+
+describe("generateCitekey", () => {
+	it("uses surname, year and the first significant title word", () => {
+		expect(generateCitekey(normalizePaper({ authors: ["José Müller"], year: 2021, title: "The Deep Sea" }))).toBe("muller2021deep");
+	});
+
+	it("falls back to a fixed key when nothing is known", () => {
+		expect(generateCitekey(normalizePaper({}))).toBe("paper");
+	});
+
+	it("fills pattern fields and modifiers", () => {
+		const paper = normalizePaper({
+			authors: ["Jane van der Berg", "John Smith"],
+			year: 2021,
+			title: "On the Structure of Deep Networks",
+			journal: "Physical Review Letters",
+		});
+		expect(generateCitekey(paper, "[authetal][shortyear]")).toBe("vanderBergEtAl21");
+		expect(generateCitekey(paper, "[authors:lower]_[shorttitle:2:capitalize]")).toBe("vanderbergsmith_StructureDeep");
+		expect(generateCitekey(paper, "[journal]-[year]")).toBe("PRL-2021");
+	});
+
+	it("rejects unknown fields, modifiers and unclosed brackets", () => {
+		const paper = normalizePaper({ title: "T" });
+		expect(() => generateCitekey(paper, "[author]")).toThrow(/Unknown citekey field "\[author\]"/);
+		expect(() => generateCitekey(paper, "[year:shout]")).toThrow('Unknown citekey modifier "shout"');
+		expect(() => generateCitekey(paper, "[year")).toThrow('Unclosed "["');
+	});
+});
+
+describe("uniqueCitekey", () => {
+	it("appends letter suffixes until the key is free", () => {
+		expect(uniqueCitekey("smith2021", new Set())).toBe("smith2021");
+		expect(uniqueCitekey("smith2021", new Set(["smith2021", "smith2021a"]))).toBe("smith2021b");
+		const taken = new Set(["smith2021", ..."abcdefghijklmnopqrstuvwxyz".split("").map((c) => `smith2021${c}`)]);
+		expect(uniqueCitekey("smith2021", taken)).toBe("smith2021aa");
+	});
+});
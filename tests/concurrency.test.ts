@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { createSerialQueue, runWithConcurrency } from "../src/concurrency";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+describe("runWithConcurrency", () => {
+	it("processes every item with at most `limit` in flight", async () => {
+		let inFlight = 0;
+		let peak = 0;
+		const done: number[] = [];
+		await runWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+			inFlight++;
+			peak = Math.max(peak, inFlight);
+			await tick();
+			done.push(n);
+			inFlight--;
+		});
+		expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+		expect(peak).toBe(2);
+	});
+});
+
+describe("createSerialQueue", () => {
+	it("runs tasks one at a time and keeps going after a failure", async () => {
+		const queue = createSerialQueue();
+		const order: string[] = [];
+		const first = queue(async () => {
+			await tick();
+			order.push("first");
+			throw new Error("boom");
+		});
+		const second = queue(async () => {
+			order.push("second");
+			return 2;
+		});
+		await expect(first).rejects.toThrow("boom");
+		expect(await second).toBe(2);
+		expect(order).toEqual(["first", "second"]);
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { extractIdentifiers, identifierFromUrl, parseArxivId, parseDoi, parseIdentifier } from "../src/doi";
+
+describe("parseArxivId", () => {
+	it.each([
+		["2401.01234", { id: "2401.01234", version: "" }],
+		["2401.01234V2", { id: "2401.01234", version: "v2" }],
+		["arXiv:2401.01234v3", { id: "2401.01234", version: "v3" }],
+		["https://arxiv.org/abs/2401.01234v2", { id: "2401.01234", version: "v2" }],
+		["https://arxiv.org/pdf/2401.01234.pdf", { id: "2401.01234", version: "" }],
+		["hep-th/9901001v1", { id: "hep-th/9901001", version: "v1" }],
+		["math.GT/0309136", { id: "math.GT/0309136", version: "" }],
+		["https://doi.org/10.48550/arXiv.2401.01234", { id: "2401.01234", version: "" }],
+	])("reads %s", (input, expected) => {
+		expect(parseArxivId(input)).toEqual(expected);
+	});
+
+	it("rejects DOIs and other input", () => {
+		expect(parseArxivId("10.1000/xyz")).toBeNull();
+		expect(parseArxivId("not an id")).toBeNull();
+	});
+});
+
+describe("parseDoi", () => {
+	it("strips DOI URLs", () => {
+		expect(parseDoi(" https://dx.doi.org/10.1000/xyz ")).toBe("10.1000/xyz");
+		expect(parseDoi("10.1000/xyz")).toBe("10.1000/xyz");
+	});
+});
+
+describe("extractIdentifiers", () => {
+	it("finds DOIs and arXiv ids in order, without duplicates", () => {
+		const text = [
+			"[1] Smith, J. (2020). doi:10.1000/abc.123.",
+			"[2] See https://arxiv.org/abs/2401.01234v2 and arXiv:hep-th/9901001.",
+			"[3] https://doi.org/10.48550/arXiv.2301.00001 (same as 10.1000/ABC.123)",
+			"[4] Bare id 2402.05678, but not a/1234567.",
+		].join("\n");
+		expect(extractIdentifiers(text)).toEqual([
+			"10.1000/abc.123",
+			"arXiv:2401.01234v2",
+			"arXiv:hep-th/9901001",
+			"arXiv:2301.00001",
+			"arXiv:2402.05678",
+		]);
+	});
+});
+
+describe("identifierFromUrl", () => {
+	it.each([
+		["https://arxiv.org/abs/2401.01234v2", "arXiv:2401.01234v2"],
+		["https://doi.org/10.1038/nphys1170", "10.1038/nphys1170"],
+		["https://dl.acm.org/doi/full/10.1145/3290605.3300233", "10.1145/3290605.3300233"],
+		["https://onlinelibrary.wiley.com/doi/epdf/10.1002/anie.201915678", "10.1002/anie.201915678"],
+		["https://example.org/view?doi=10.1000%2Fxyz", "10.1000/xyz"],
+		["https://example.org/about", ""],
+		["not a url", ""],
+	])("reads %s", (url, expected) => {
+		expect(identifierFromUrl(url)).toBe(expected);
+	});
+});
+
+describe("parseIdentifier", () => {
+	it.each([
+		["arXiv:2401.01234v2", { type: "arxiv", value: "2401.01234v2" }],
+		["pmcid: pmc6814409", { type: "pmcid", value: "PMC6814409" }],
+		["PMID: 31452104", { type: "pmid", value: "31452104" }],
+		["31452104", { type: "pmid", value: "31452104" }],
+		["ISBN 0-306-40615-2", { type: "isbn", value: "9780306406157" }],
+		["978-0-306-40615-7", { type: "isbn", value: "9780306406157" }],
+		["https://doi.org/10.1000/xyz", { type: "doi", value: "10.1000/xyz" }],
+		["https://www.nature.com/articles/s41586-020-2649-2", { type: "doi", value: "10.1038/s41586-020-2649-2" }],
+		["https://www.biorxiv.org/content/10.1101/2020.01.01.123456v2.full", { type: "doi", value: "10.1101/2020.01.01.123456" }],
+		["https://pubmed.ncbi.nlm.nih.gov/31452104/", { type: "pmid", value: "31452104" }],
+		["https://www.ncbi.nlm.nih.gov/pmc/articles/PMC6814409/", { type: "pmcid", value: "PMC6814409" }],
+	])("recognises %s", (input, expected) => {
+		expect(parseIdentifier(input)).toEqual(expected);
+	});
+
+	it("rejects ISBNs with a wrong check digit", () => {
+		expect(() => parseIdentifier("978-0-306-40615-8")).toThrow("check digit");
+	});
+
+	it("leaves URLs that name no paper to the landing page lookup", () => {
+		expect(parseIdentifier("https://example.org/article/42")).toBeNull();
+	});
+});
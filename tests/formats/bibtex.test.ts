@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { bibEntryToPaper, decodeLatex, encodeLatex, formatBibtexEntry, parseBibNames, parseBibtex, toBibName } from "../../src/formats/bibtex";
+import { normalizePaper, toAuthor } from "../../src/types";
+
+describe("parseBibtex", () => {
+	it("expands @string macros and month macros and skips comments", () => {
+		const { entries, errors } = parseBibtex(`
+			@comment{ignored, entirely}
+			@string{nat = "Nature"}
+			@article{smith2020,
+				author = {Smith, Jane},
+				title = {A Title},
+				journal = nat # " Physics",
+				year = 2020,
+				month = mar,
+			}
+		`);
+		expect(errors).toEqual([]);
+		expect(entries).toHaveLength(1);
+		expect(entries[0]).toMatchObject({
+			type: "article",
+			key: "smith2020",
+			fields: { journal: "Nature Physics", year: "2020", month: "3" },
+		});
+	});
+
+	it("reports a broken entry and keeps reading the rest of the file", () => {
+		const { entries, errors } = parseBibtex(`
+			@article{broken, title = {Unclosed}
+			@book{ok, title = {Fine}}
+		`);
+		expect(errors).toHaveLength(1);
+		expect(entries.map((e) => e.key)).toContain("ok");
+	});
+});
+
+describe("parseBibNames", () => {
+	it("keeps inverted names and particles apart from given names", () => {
+		expect(parseBibNames("García Márquez, Gabriel and Ludwig van Beethoven and {World Health Organization}")).toEqual([
+			{ given: "Gabriel", family: "García Márquez" },
+			{ given: "Ludwig", family: "van Beethoven" },
+			{ given: "", family: "World Health Organization" },
+		]);
+	});
+});
+
+describe("decodeLatex", () => {
+	it("turns accents, symbols and dashes into text", () => {
+		expect(decodeLatex(`Erd{\\H{o}}s and G{\\"o}del -- {\\ss}`)).toBe("Erdős and Gödel – ß");
+	});
+});
+
+describe("bibEntryToPaper", () => {
+	it("maps BibTeX and BibLaTeX fields", () => {
+		const { entries } = parseBibtex(`
+			@article{key,
+				author = {M{\\"u}ller, Hans and Doe, John},
+				title = {{DNA} Sequencing},
+				journaltitle = {Cell},
+				volume = {12}, number = {3}, pages = {100--110},
+				date = {2019-07},
+				doi = {https://doi.org/10.1000/abc},
+				keywords = {genomics; methods},
+			}
+		`);
+		expect(bibEntryToPaper(entries[0]!)).toMatchObject({
+			title: "DNA Sequencing",
+			authors: [{ name: "Hans Müller", given: "Hans", family: "Müller" }, { name: "John Doe", given: "John", family: "Doe" }],
+			journal: "Cell",
+			volume: "12",
+			issue: "3",
+			pages: "100-110",
+			year: 2019,
+			month: 7,
+			doi: "10.1000/abc",
+			doiUrl: "https://doi.org/10.1000/abc",
+			subjects: ["genomics", "methods"],
+			source: "bibtex",
+		});
+	});
+
+	it("keeps DOIs and URLs verbatim", () => {
+		const { entries } = parseBibtex(`@misc{v, title = {T}, doi = {10.1000/a~b--c\\_d}, url = {https://example.org/a~b/paper.pdf}}`);
+		expect(bibEntryToPaper(entries[0]!)).toMatchObject({
+			doi: "10.1000/a~b--c_d",
+			doiUrl: "https://doi.org/10.1000/a~b--c_d",
+			pdfUrl: "https://example.org/a~b/paper.pdf",
+		});
+	});
+
+	it("reads arXiv e-prints", () => {
+		const { entries } = parseBibtex(`@misc{v, title = {T}, eprint = {2401.01234v2}, archivePrefix = {arXiv}, primaryClass = {cs.LG}}`);
+		expect(bibEntryToPaper(entries[0]!)).toMatchObject({
+			arxivId: "2401.01234",
+			arxivVersion: "v2",
+			arxivCategory: "cs.LG",
+		});
+	});
+});
+
+describe("formatBibtexEntry", () => {
+	it("encodes names and accents as LaTeX", () => {
+		expect(toBibName(toAuthor("Ludwig van Beethoven"))).toBe("van Beethoven, Ludwig");
+		expect(toBibName(toAuthor({ name: "World Health Organization", family: "World Health Organization" }))).toBe("{World Health Organization}");
+		expect(encodeLatex("Müller & Søn 50%")).toBe("M{\\\"u}ller \\& S{\\o}n 50\\%");
+	});
+
+	it("writes entries that parse back to the same paper", () => {
+		const paper = normalizePaper({
+			title: "DNA Sequencing in Ørsted's Lab",
+			authors: ["Hans Müller", "Jane van der Berg"],
+			abstract: "Reads 100% of it.",
+			journal: "Cell",
+			volume: "12",
+			issue: "3",
+			pages: "100–110",
+			year: 2019,
+			month: 7,
+			doi: "10.1000/abc",
+			doiUrl: "https://doi.org/10.1000/abc",
+			type: "journal-article",
+		});
+		const text = formatBibtexEntry("muller2019dna", paper);
+		expect(text).toContain("@article{muller2019dna,");
+		expect(text).toContain("  title = {{DNA} Sequencing in {\\O}rsted's Lab},");
+		expect(text).toContain("  month = jul,");
+
+		const { entries, errors } = parseBibtex(text);
+		expect(errors).toEqual([]);
+		expect(bibEntryToPaper(entries[0]!)).toMatchObject({
+			title: paper.title,
+			authors: paper.authors,
+			abstract: paper.abstract,
+			journal: "Cell",
+			volume: "12",
+			issue: "3",
+			pages: "100-110",
+			year: 2019,
+			month: 7,
+			doi: "10.1000/abc",
+		});
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { CslItem, cslItemToPaper, paperToCslItem, parseCslJson } from "../../src/formats/csl";
+import { CSL_JSON_FORMAT } from "../../src/formats";
+import { normalizePaper } from "../../src/types";
+
+describe("parseCslJson", () => {
+	it("accepts an array, an items wrapper or a single item", () => {
+		const item = { id: "a", type: "book" };
+		expect(parseCslJson(JSON.stringify([item]))).toEqual([item]);
+		expect(parseCslJson(JSON.stringify({ items: [item] }))).toEqual([item]);
+		expect(parseCslJson(JSON.stringify(item))).toEqual([item]);
+	});
+
+	it("rejects documents that are not CSL-JSON", () => {
+		expect(() => parseCslJson("42")).toThrow("Not a CSL-JSON document");
+	});
+});
+
+describe("cslItemToPaper", () => {
+	it("maps names, dates and identifiers", () => {
+		expect(cslItemToPaper({
+			id: "smith2020",
+			type: "article-journal",
+			title: "A Title",
+			author: [{ family: "van Beethoven", given: "Ludwig" }, { literal: "CERN" }],
+			"container-title": "Physics Letters",
+			volume: 5,
+			issue: "2",
+			page: "10–20",
+			issued: { "date-parts": [[2020, 6]] },
+			DOI: "https://doi.org/10.1000/abc",
+			keyword: "a, b",
+			number: "arXiv:2001.00001v3",
+		})).toMatchObject({
+			authors: [{ name: "Ludwig van Beethoven", given: "Ludwig", family: "van Beethoven" }, { name: "CERN", given: "", family: "CERN" }],
+			journal: "Physics Letters",
+			volume: "5",
+			issue: "2",
+			pages: "10-20",
+			year: 2020,
+			month: 6,
+			doi: "10.1000/abc",
+			subjects: ["a", "b"],
+			arxivId: "2001.00001",
+			arxivVersion: "v3",
+			type: "journal-article",
+			source: "csl-json",
+		});
+	});
+
+	it("reads editors, ISBNs and the edition of books", () => {
+		expect(cslItemToPaper({
+			id: "b",
+			type: "book",
+			editor: [{ family: "Doe", given: "Jane" }],
+			ISBN: "0-306-40615-2",
+			edition: 2,
+		})).toMatchObject({ type: "book", editors: [{ name: "Jane Doe" }], isbn: ["9780306406157"], edition: "2" });
+	});
+
+	it("reads variables exported as numbers", () => {
+		expect(cslItemToPaper({ id: "n", type: "report", title: 1984, page: 42, number: 7, ISBN: 9780306406157 } as unknown as CslItem))
+			.toMatchObject({ title: "1984", pages: "42", arxivId: "", isbn: ["9780306406157"] });
+	});
+
+	it("falls back to the raw date", () => {
+		expect(cslItemToPaper({ id: "x", type: "book", issued: { raw: "1999-ish" } })).toMatchObject({ year: 1999, month: null });
+	});
+});
+
+describe("paperToCslItem", () => {
+	it("reads back what it writes", () => {
+		const paper = normalizePaper({
+			title: "A Title",
+			authors: ["Gabriel García Márquez", "CERN"],
+			journal: "Physics Letters",
+			volume: "5",
+			issue: "2",
+			pages: "10-20",
+			year: 2020,
+			month: 6,
+			doi: "10.1000/abc",
+			doiUrl: "https://doi.org/10.1000/abc",
+			publisher: "Elsevier",
+			issn: ["1234-5678"],
+			subjects: ["a", "b"],
+			abstract: "An abstract.",
+			arxivId: "2001.00001",
+			arxivVersion: "v3",
+			type: "journal-article",
+		});
+
+		const [item] = parseCslJson(JSON.stringify([paperToCslItem("key1", paper)]));
+		expect(item?.author?.[1]).toEqual({ literal: "CERN" });
+		expect(cslItemToPaper(item!)).toMatchObject({
+			title: paper.title,
+			authors: paper.authors,
+			journal: paper.journal,
+			volume: "5",
+			issue: "2",
+			pages: "10-20",
+			year: 2020,
+			month: 6,
+			doi: paper.doi,
+			publisher: paper.publisher,
+			issn: paper.issn,
+			subjects: paper.subjects,
+			abstract: paper.abstract,
+			arxivId: paper.arxivId,
+			arxivVersion: paper.arxivVersion,
+			type: "journal-article",
+		});
+	});
+});
+
+describe("CSL_JSON_FORMAT", () => {
+	it("reports items it cannot read and imports the rest", () => {
+		const { records, errors } = CSL_JSON_FORMAT.read(JSON.stringify([
+			{ id: "bad", type: "book", author: "Jane Doe" },
+			{ id: "good", type: "book", title: "Fine", page: 12 },
+		]));
+		expect(records.map((r) => r.label)).toEqual(["good"]);
+		expect(errors).toEqual([expect.stringMatching(/^bad: /)]);
+	});
+});
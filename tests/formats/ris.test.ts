@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { formatRisRecord, parseRis, risRecordToPaper } from "../../src/formats/ris";
+import { normalizePaper } from "../../src/types";
+
+describe("parseRis", () => {
+	it("skips a byte order mark, joins wrapped lines and closes a record without ER", () => {
+		const records = parseRis([
+			"\uFEFFTY  - JOUR",
+			"TI  - First",
+			"AB  - An abstract that",
+			"  wraps onto a second line",
+			"ER  - ",
+			"TY  - BOOK",
+			"TI  - Second",
+		].join("\r\n"));
+		expect(records).toEqual([
+			{ TY: ["JOUR"], TI: ["First"], AB: ["An abstract that wraps onto a second line"] },
+			{ TY: ["BOOK"], TI: ["Second"] },
+		]);
+	});
+});
+
+describe("risRecordToPaper", () => {
+	it("maps tags onto paper fields", () => {
+		const [record] = parseRis([
+			"TY  - JOUR",
+			"TI  - A Study",
+			"AU  - García Márquez, Gabriel",
+			"AU  - Ada Lovelace",
+			"JO  - Journal of Studies",
+			"VL  - 8",
+			"IS  - 1",
+			"SP  - 15",
+			"EP  - 30",
+			"DA  - 2018/04/02",
+			"PY  - 2017",
+			"DO  - https://doi.org/10.1000/xyz",
+			"SN  - 1234-5678",
+			"KW  - one",
+			"KW  - two",
+			"ER  - ",
+		].join("\n"));
+		expect(risRecordToPaper(record!)).toMatchObject({
+			title: "A Study",
+			authors: [{ name: "Gabriel García Márquez", given: "Gabriel", family: "García Márquez" }, { name: "Ada Lovelace", given: "Ada", family: "Lovelace" }],
+			journal: "Journal of Studies",
+			volume: "8",
+			issue: "1",
+			pages: "15-30",
+			year: 2018,
+			month: 4,
+			doi: "10.1000/xyz",
+			issn: ["1234-5678"],
+			subjects: ["one", "two"],
+			type: "journal-article",
+			source: "ris",
+		});
+	});
+});
+
+describe("risRecordToPaper with books", () => {
+	it("reads ISBNs, editors and the edition", () => {
+		const [record] = parseRis("TY  - BOOK\nTI  - A Book\nED  - Doe, Jane\nET  - 2\nSN  - 0-306-40615-2\nSN  - 1234-5678\nER  - ");
+		expect(risRecordToPaper(record!)).toMatchObject({
+			type: "book",
+			editors: [{ name: "Jane Doe" }],
+			edition: "2",
+			isbn: ["9780306406157"],
+			issn: ["1234-5678"],
+		});
+	});
+});
+
+describe("formatRisRecord", () => {
+	it("reads back what it writes", () => {
+		const paper = normalizePaper({
+			title: "A Study",
+			authors: ["Gabriel Márquez", "Ludwig van Beethoven"],
+			journal: "Journal of Studies",
+			volume: "8",
+			issue: "1",
+			pages: "15-30",
+			year: 2018,
+			month: 4,
+			doi: "10.1000/xyz",
+			doiUrl: "https://doi.org/10.1000/xyz",
+			publisher: "Publisher",
+			issn: ["1234-5678"],
+			subjects: ["one", "two"],
+			abstract: "Line one\nline two",
+			type: "journal-article",
+		});
+
+		const [record] = parseRis(formatRisRecord("id1", paper));
+		expect(record?.AU).toEqual(["Márquez, Gabriel", "van Beethoven, Ludwig"]);
+		expect(risRecordToPaper(record!)).toMatchObject({
+			title: paper.title,
+			authors: paper.authors,
+			journal: paper.journal,
+			volume: "8",
+			issue: "1",
+			pages: "15-30",
+			year: 2018,
+			month: 4,
+			doi: paper.doi,
+			publisher: paper.publisher,
+			issn: paper.issn,
+			subjects: paper.subjects,
+			abstract: "Line one line two",
+			type: "journal-article",
+		});
+	});
+});
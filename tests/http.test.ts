@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import type { DataAdapter } from "obsidian";
+import { ResponseCache } from "../src/cache";
+import { configureHttp, httpGet } from "../src/http";
+import { MockServer, startMockServer } from "./mock-server";
+
+/** A ResponseCache on an in-memory adapter. */
+function memoryCache(ttlMs: number): ResponseCache {
+	const files = new Map<string, string>();
+	const adapter = {
+		exists: async (path: string) => files.has(path) || [...files.keys()].some((f) => f.startsWith(`${path}/`)),
+		mkdir: async () => undefined,
+		read: async (path: string) => files.get(path) ?? "",
+		write: async (path: string, data: string) => {
+			files.set(path, data);
+		},
+	};
+	return new ResponseCache(adapter as unknown as DataAdapter, "cache", ttlMs);
+}
+
+describe("httpGet", () => {
+	let server: MockServer;
+	afterEach(async () => {
+		configureHttp({ cache: null });
+		await server.close();
+	});
+
+	it("retries rate limiting as the Retry-After header asks", async () => {
+		let calls = 0;
+		server = await startMockServer(() => (++calls < 3 ? { status: 429, headers: { "Retry-After": "0" } } : { body: { ok: true } }));
+		const response = await httpGet(`${server.url}/work`);
+		expect(response.status).toBe(200);
+		expect(server.requests).toHaveLength(3);
+	});
+
+	it("does not wait when the provider asks for a long pause", async () => {
+		server = await startMockServer(() => ({ status: 503, headers: { "Retry-After": "3600" } }));
+		expect((await httpGet(`${server.url}/work`)).status).toBe(503);
+		expect(server.requests).toHaveLength(1);
+	});
+
+	it("serves fresh cached answers without a request", async () => {
+		server = await startMockServer(() => ({ body: { title: "Cached" } }));
+		configureHttp({ cache: memoryCache(60_000) });
+		await httpGet(`${server.url}/work`, "application/json", { cache: true });
+		const response = await httpGet(`${server.url}/work`, "application/json", { cache: true });
+		expect(response.json).toEqual({ title: "Cached" });
+		expect(server.requests).toHaveLength(1);
+	});
+
+	it("falls back to a stale answer when the provider fails", async () => {
+		let down = false;
+		server = await startMockServer(() => (down ? { status: 503, headers: { "Retry-After": "0" } } : { body: { title: "Old" } }));
+		configureHttp({ cache: memoryCache(1) });
+		await httpGet(`${server.url}/work`, "application/json", { cache: true });
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		down = true;
+		const response = await httpGet(`${server.url}/work`, "application/json", { cache: true });
+		expect(response.json).toEqual({ title: "Old" });
+		expect(server.requests).toHaveLength(5);
+	});
+});
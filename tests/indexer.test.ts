@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { PaperIndex, titleKey, titleSimilarity } from "../src/indexer";
+import type EasyPaperImporter from "../src/main";
+
+/** A PaperIndex whose plugin keeps its files in memory. */
+function createIndex(files: Record<string, string> = {}): PaperIndex {
+	const plugin = {
+		settings: { duplicateTitleThreshold: 0.9 },
+		manifest: { id: "easy-paper-importer", dir: "config/plugins/easy-paper-importer" },
+		app: {
+			vault: {
+				adapter: {
+					exists: async (path: string) => path in files,
+					read: async (path: string) => files[path] ?? "",
+					write: async (path: string, data: string) => {
+						files[path] = data;
+					},
+				},
+			},
+			workspace: { onLayoutReady: () => undefined },
+		},
+		loadData: async () => ({}),
+		saveData: async () => undefined,
+	};
+	return new PaperIndex(plugin as unknown as EasyPaperImporter);
+}
+
+describe("titleKey", () => {
+	it("drops markup, entities, accents and punctuation", () => {
+		expect(titleKey("<i>Café</i> &amp; Ba&#x308;r: A &quot;Review&quot;")).toBe("cafe bar a review");
+	});
+});
+
+describe("titleSimilarity", () => {
+	it("scores near-identical titles high and different ones low", () => {
+		expect(titleSimilarity("Deep Learning for Cats", "Deep learning for cats.")).toBe(1);
+		expect(titleSimilarity("Deep Learning for Cats", "Deep Learning for Cat")).toBeGreaterThan(0.9);
+		expect(titleSimilarity("Deep Learning for Cats", "Shallow Parsing of Dogs")).toBeLessThan(0.5);
+	});
+
+	it("matches a title that drops the subtitle", () => {
+		expect(titleSimilarity("Attention Is All You Need: Transformers", "Attention is all you need")).toBe(0.95);
+	});
+});
+
+describe("PaperIndex.findDuplicates", () => {
+	it("matches identifiers across arXiv DOIs and other versions", () => {
+		const index = createIndex();
+		index.recordImport("Papers/a.md", { arxiv: "2401.01234v1", title: "Preprint" });
+		index.recordImport("Papers/b.md", { doi: "10.1000/published", title: "Published" });
+
+		expect(index.findDuplicate({ doi: "https://doi.org/10.48550/arXiv.2401.01234" })).toEqual({ path: "Papers/a.md", type: "DOI", score: 1 });
+		expect(index.findDuplicate({ arxiv: "arXiv:2401.01234v3" })?.path).toBe("Papers/a.md");
+		expect(index.findDuplicate({ doi: "10.1000/other", relatedDois: ["10.1000/PUBLISHED"] })).toEqual({
+			path: "Papers/b.md",
+			type: "other version",
+			score: 1,
+		});
+	});
+
+	it("matches similar titles unless authors or years rule it out", () => {
+		const index = createIndex();
+		index.recordImport("Papers/a.md", { title: "Deep Learning for Cats", authors: ["Ada Lovelace"], year: 2020 });
+
+		expect(index.findDuplicate({ title: "Deep learning for cats", authors: ["A. Lovelace"], year: 2021 })?.type).toBe("title");
+		expect(index.findDuplicate({ title: "Deep Learning for Cat" })?.type).toBe("similar title");
+		expect(index.findDuplicate({ title: "Deep Learning for Cats", authors: ["Alan Turing"] })).toBeNull();
+		expect(index.findDuplicate({ title: "Deep Learning for Cats", year: 2015 })).toBeNull();
+	});
+
+	it("follows title changes in the title word lookup", () => {
+		const index = createIndex();
+		index.recordImport("Papers/a.md", { title: "Deep Learning for Cats" });
+		index.recordImport("Papers/a.md", { title: "Graph Networks for Dogs" });
+
+		expect(index.findDuplicate({ title: "Deep Learning for Cats" })).toBeNull();
+		expect(index.findDuplicate({ title: "Graph networks for dogs." })?.path).toBe("Papers/a.md");
+	});
+});
+
+describe("PaperIndex.findBook", () => {
+	it("finds a book by ISBN or by a similar title, never a paper", () => {
+		const index = createIndex();
+		index.recordImport("Papers/handbook.md", { title: "Handbook of Cats" });
+		index.recordImport("Books/handbook.md", { title: "Handbook of Cats", type: "book", isbn: ["0-306-40615-2"] });
+
+		expect(index.findBook(["9780306406157"], "")).toBe("Books/handbook.md");
+		expect(index.findBook([], "Handbook of cats.")).toBe("Books/handbook.md");
+		expect(index.findBook([], "Atlas of Dogs")).toBeNull();
+	});
+});
+
+describe("PaperIndex persistence", () => {
+	it("writes its own file and reads it back", async () => {
+		const files: Record<string, string> = {};
+		const index = createIndex(files);
+		index.recordImport("Papers/a.md", { doi: "10.1000/ABC", title: "Deep Learning for Cats", citekey: "smith2020deep" });
+		index.flush();
+		await Promise.resolve();
+		expect(Object.keys(files)).toEqual(["config/plugins/easy-paper-importer/paper-index.json"]);
+
+		const reloaded = createIndex(files);
+		await reloaded.load();
+		expect(reloaded.findDuplicate({ doi: "10.1000/abc" })?.path).toBe("Papers/a.md");
+		expect(reloaded.getCitekeys()).toEqual(new Set(["smith2020deep"]));
+	});
+});
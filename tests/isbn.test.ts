@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { isValidIsbn, isbnDigits, normalizeIsbn, toIsbn13 } from "../src/isbn";
+
+describe("isbnDigits", () => {
+	it("reads ISBN-10s and ISBN-13s in common notations", () => {
+		expect(isbnDigits("ISBN 978-0-262-03384-8")).toBe("9780262033848");
+		expect(isbnDigits("isbn-10: 0-306-40615-2")).toBe("0306406152");
+		expect(isbnDigits("0-8044-2957-X")).toBe("080442957X");
+	});
+
+	it("ignores other numbers", () => {
+		expect(isbnDigits("31452104")).toBe("");
+		expect(isbnDigits("978030640615X")).toBe("");
+	});
+});
+
+describe("isValidIsbn", () => {
+	it("checks the check digit", () => {
+		expect(isValidIsbn("0306406152")).toBe(true);
+		expect(isValidIsbn("080442957X")).toBe(true);
+		expect(isValidIsbn("9780306406157")).toBe(true);
+		expect(isValidIsbn("9780306406158")).toBe(false);
+		expect(isValidIsbn("0306406153")).toBe(false);
+	});
+});
+
+describe("normalizeIsbn", () => {
+	it("converts valid ISBNs to ISBN-13 digits", () => {
+		expect(toIsbn13("0306406152")).toBe("9780306406157");
+		expect(normalizeIsbn("0-306-40615-2")).toBe("9780306406157");
+		expect(normalizeIsbn("0-306-40615-3")).toBe("");
+	});
+});
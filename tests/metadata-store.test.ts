@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { DataAdapter } from "obsidian";
+import { MetadataStore } from "../src/metadata-store";
+import { normalizePaper } from "../src/types";
+
+const PATH = "config/plugins/easy-paper-importer/paper-metadata.json";
+
+/** A store whose file is kept in memory. */
+function createStore(files: Record<string, string> = {}): MetadataStore {
+	const adapter = {
+		exists: async (path: string) => path in files,
+		read: async (path: string) => files[path] ?? "",
+		write: async (path: string, data: string) => {
+			files[path] = data;
+		},
+	};
+	return new MetadataStore(adapter as unknown as DataAdapter, PATH);
+}
+
+const paper = normalizePaper({
+	title: "A Title",
+	authors: ["Ada Lovelace"],
+	journal: "Physics Letters",
+	volume: "5",
+	pages: "10-20",
+	year: 2020,
+	abstract: "An abstract.",
+	citekey: "lovelace2020",
+	references: [{ doi: "10.1000/ref", title: "", author: "", year: "", journal: "", unstructured: "" }],
+});
+
+describe("MetadataStore", () => {
+	it("fills what a note leaves out, keeping the note's own properties", async () => {
+		const store = createStore();
+		await store.remember(paper);
+		const fromNote = normalizePaper({ title: "An Edited Title", year: 2020, citekey: "lovelace2020" });
+		expect(await store.complete(fromNote)).toMatchObject({
+			title: "An Edited Title",
+			authors: [{ name: "Ada Lovelace", family: "Lovelace" }],
+			journal: "Physics Letters",
+			volume: "5",
+			pages: "10-20",
+			abstract: "An abstract.",
+		});
+	});
+
+	it("leaves notes without stored metadata as they are", async () => {
+		const fromNote = normalizePaper({ title: "Other", citekey: "other2020" });
+		expect(await createStore().complete(fromNote)).toEqual(fromNote);
+	});
+
+	it("writes to its file and reads it back", async () => {
+		const files: Record<string, string> = {};
+		const store = createStore(files);
+		await store.remember(paper);
+		store.flush();
+		const stored = JSON.parse(files[PATH] ?? "{}") as Record<string, Record<string, unknown>>;
+		expect(stored.lovelace2020).not.toHaveProperty("references");
+
+		const reloaded = await createStore(files).complete(normalizePaper({ citekey: "lovelace2020" }));
+		expect(reloaded.journal).toBe("Physics Letters");
+	});
+});
@@ -0,0 +1,42 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+
+/** A canned answer. Bodies other than strings are sent as JSON. */
+export interface MockResponse {
+	status?: number;
+	body?: unknown;
+	headers?: Record<string, string>;
+}
+
+/** A local HTTP server standing in for a metadata service. */
+export interface MockServer {
+	/** Base URL without a trailing slash, e.g. "http://127.0.0.1:40123". */
+	url: string;
+	/** Decoded paths (with query) of the requests received, in order. */
+	requests: string[];
+	close(): Promise<void>;
+}
+
+/**
+ * Start a server on a free local port. Each request is answered with
+ * what `respond` returns for its decoded path, or 404 when it returns
+ * nothing.
+ */
+export async function startMockServer(respond: (path: string) => MockResponse | undefined): Promise<MockServer> {
+	const requests: string[] = [];
+	const server = createServer((req, res) => {
+		const path = decodeURIComponent(req.url ?? "/");
+		requests.push(path);
+		const { status = 200, body = "", headers = {} } = respond(path) ?? { status: 404, body: "Not found" };
+		const json = typeof body !== "string";
+		res.writeHead(status, { "Content-Type": json ? "application/json" : "text/plain", ...headers });
+		res.end(json ? JSON.stringify(body) : body);
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}`,
+		requests,
+		close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+	};
+}
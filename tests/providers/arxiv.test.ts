@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { ArxivProvider } from "../../src/providers/arxiv";
+import { MockServer, startMockServer } from "../mock-server";
+
+const feed = (entry: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">${entry}</feed>`;
+
+const ENTRY = `
+	<entry>
+		<id>http://arxiv.org/abs/2401.01234v2</id>
+		<published>2024-01-03T18:00:00Z</published>
+		<title>Attention
+			Is Enough</title>
+		<summary>An abstract.</summary>
+		<arxiv:doi>10.1000/published</arxiv:doi>
+		<author><name>Ada Lovelace</name><arxiv:affiliation>Analytical Society</arxiv:affiliation></author>
+		<author><name>Alan Turing</name></author>
+		<link title="pdf" href="http://arxiv.org/pdf/2401.01234v2" rel="related" type="application/pdf"/>
+		<arxiv:primary_category term="cs.LG" scheme="http://arxiv.org/schemas/atom"/>
+		<category term="cs.LG" scheme="http://arxiv.org/schemas/atom"/>
+		<category term="stat.ML" scheme="http://arxiv.org/schemas/atom"/>
+	</entry>`;
+
+describe("ArxivProvider", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	it("parses an Atom entry, keeping the version it returned", async () => {
+		server = await startMockServer((path) => (path.startsWith("/api/query?id_list=2401.01234&") ? { body: feed(ENTRY) } : undefined));
+		const paper = await new ArxivProvider(`${server.url}/api/query`).fetchById({ id: "2401.01234", version: "" });
+		expect(paper).toMatchObject({
+			title: "Attention Is Enough",
+			authors: [
+				{ name: "Ada Lovelace", given: "Ada", family: "Lovelace", affiliations: ["Analytical Society"] },
+				{ name: "Alan Turing", given: "Alan", family: "Turing", affiliations: [] },
+			],
+			abstract: "An abstract.",
+			journal: "arXiv",
+			year: 2024,
+			month: 1,
+			doi: "10.48550/arXiv.2401.01234",
+			pdfUrl: "https://arxiv.org/pdf/2401.01234v2",
+			subjects: ["cs.LG", "stat.ML"],
+			source: "arxiv",
+			arxivId: "2401.01234",
+			arxivVersion: "v2",
+			arxivCategory: "cs.LG",
+			publishedDoi: "10.1000/published",
+		});
+	});
+
+	it("asks for the requested version", async () => {
+		server = await startMockServer(() => ({ body: feed(ENTRY) }));
+		await new ArxivProvider(`${server.url}/api/query`).fetchById({ id: "2401.01234", version: "v2" });
+		expect(server.requests).toEqual(["/api/query?id_list=2401.01234v2&max_results=1"]);
+	});
+
+	it("returns null for unknown identifiers", async () => {
+		server = await startMockServer(() => ({ body: feed(`<entry><id>http://arxiv.org/api/errors#incorrect_id_format_for_9999.99999</id></entry>`) }));
+		expect(await new ArxivProvider(`${server.url}/api/query`).fetchById({ id: "9999.99999", version: "" })).toBeNull();
+	});
+
+	it("throws on failed requests", async () => {
+		server = await startMockServer(() => ({ status: 403, body: "Forbidden" }));
+		await expect(new ArxivProvider(`${server.url}/api/query`).fetchById({ id: "2401.01234", version: "" })).rejects.toThrow("HTTP 403");
+	});
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { fetchFromChain } from "../../src/providers";
+import { CrossRefProvider } from "../../src/providers/crossref";
+import { DataCiteProvider } from "../../src/providers/datacite";
+import { OpenAlexProvider } from "../../src/providers/openalex";
+import { MockResponse, MockServer, startMockServer } from "../mock-server";
+
+const DOI = "10.5281/zenodo.1234";
+
+/** One mock server answering for all three providers, by path prefix. */
+async function chainServer(answers: { crossref?: MockResponse; datacite?: MockResponse; openalex?: MockResponse }) {
+	const server = await startMockServer((path) => {
+		if (path.startsWith("/crossref/")) return answers.crossref;
+		if (path.startsWith("/datacite/")) return answers.datacite;
+		if (path.startsWith("/openalex/")) return answers.openalex;
+		return undefined;
+	});
+	const chain = [
+		new CrossRefProvider(`${server.url}/crossref/`),
+		new DataCiteProvider(`${server.url}/datacite/`),
+		new OpenAlexProvider(`${server.url}/openalex/`),
+	];
+	return { server, chain };
+}
+
+describe("fetchFromChain", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	it("falls through on 404 and records the provider that answered", async () => {
+		const setup = await chainServer({
+			datacite: { body: { data: { attributes: { titles: [{ title: "A Dataset" }] } } } },
+			openalex: { body: { title: "Not asked" } },
+		});
+		server = setup.server;
+
+		const paper = await fetchFromChain(DOI, setup.chain);
+		expect(paper).toMatchObject({ title: "A Dataset", source: "datacite" });
+		expect(server.requests).toEqual([`/crossref/${DOI}`, `/datacite/${DOI}`]);
+	});
+
+	it("stops at an error other than 404", async () => {
+		const setup = await chainServer({
+			crossref: { status: 403, body: "Forbidden" },
+			datacite: { body: { data: { attributes: { titles: [{ title: "Not asked" }] } } } },
+		});
+		server = setup.server;
+
+		await expect(fetchFromChain(DOI, setup.chain)).rejects.toThrow("CrossRef: HTTP 403");
+		expect(server.requests).toEqual([`/crossref/${DOI}`]);
+	});
+
+	it("names every provider tried when none knows the DOI", async () => {
+		const setup = await chainServer({});
+		server = setup.server;
+
+		await expect(fetchFromChain(DOI, setup.chain)).rejects.toThrow(`DOI ${DOI} was not found (tried CrossRef, DataCite, OpenAlex).`);
+		expect(server.requests).toHaveLength(3);
+	});
+});
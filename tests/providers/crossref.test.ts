@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { CrossRefProvider } from "../../src/providers/crossref";
+import { MockServer, startMockServer } from "../mock-server";
+
+const DOI = "10.1000/xyz.123";
+
+const WORK = {
+	title: ["A Study of Things"],
+	author: [
+		{
+			given: "Ada",
+			family: "Lovelace",
+			ORCID: "https://orcid.org/0000-0002-1825-0097",
+			sequence: "first",
+			affiliation: [{ name: "Analytical Society" }],
+		},
+		{ given: "Alan", family: "Turing", sequence: "additional" },
+		{ name: "The Consortium", sequence: "additional" },
+	],
+	abstract: "<jats:p>An abstract.</jats:p>",
+	"container-title": ["Journal of Studies"],
+	volume: "8",
+	issue: "2",
+	page: "15-30",
+	"published-print": { "date-parts": [[2018, 4, 2]] },
+	publisher: "Publisher",
+	ISSN: ["1234-5678"],
+	subject: ["Computing"],
+	link: [{ URL: "https://example.org/paper.pdf", "content-type": "application/pdf" }],
+	relation: {
+		"has-preprint": [{ "id-type": "doi", id: "10.48550/arXiv.1801.00001" }],
+		"is-referenced-by": [{ "id-type": "doi", id: "10.1000/citing" }],
+	},
+	reference: [
+		{ key: "r1", DOI: "10.1000/cited", "article-title": "Cited Work", author: "Babbage", year: "1837", "journal-title": "Notes" },
+		{ key: "r2", unstructured: "<i>Turing</i>, On Computable Numbers, 1936." },
+	],
+};
+
+describe("CrossRefProvider", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	it("maps a work", async () => {
+		server = await startMockServer((path) => (path === `/works/${DOI}` ? { body: { message: WORK } } : undefined));
+		const paper = await new CrossRefProvider(`${server.url}/works/`).fetchByDoi(DOI);
+		expect(paper).toMatchObject({
+			title: "A Study of Things",
+			authors: [
+				{
+					name: "Ada Lovelace",
+					given: "Ada",
+					family: "Lovelace",
+					orcid: "0000-0002-1825-0097",
+					affiliations: ["Analytical Society"],
+					sequence: "first",
+				},
+				{ name: "Alan Turing", given: "Alan", family: "Turing", orcid: "", affiliations: [], sequence: "additional" },
+				{ name: "The Consortium", given: "", family: "The Consortium" },
+			],
+			abstract: "An abstract.",
+			journal: "Journal of Studies",
+			volume: "8",
+			issue: "2",
+			pages: "15-30",
+			year: 2018,
+			month: 4,
+			doi: DOI,
+			doiUrl: `https://doi.org/${DOI}`,
+			pdfUrl: "https://example.org/paper.pdf",
+			publisher: "Publisher",
+			issn: ["1234-5678"],
+			subjects: ["Computing"],
+			source: "crossref",
+			relatedDois: ["10.48550/arXiv.1801.00001"],
+			references: [
+				{ doi: "10.1000/cited", title: "Cited Work", author: "Babbage", year: "1837", journal: "Notes", unstructured: "" },
+				{ doi: "", title: "", author: "", year: "", journal: "", unstructured: "Turing, On Computable Numbers, 1936." },
+			],
+		});
+	});
+
+	it("returns null for unknown DOIs", async () => {
+		server = await startMockServer(() => undefined);
+		expect(await new CrossRefProvider(`${server.url}/works/`).fetchByDoi(DOI)).toBeNull();
+	});
+
+	it("throws on other errors", async () => {
+		server = await startMockServer(() => ({ status: 403, body: "Forbidden" }));
+		await expect(new CrossRefProvider(`${server.url}/works/`).fetchByDoi(DOI)).rejects.toThrow("HTTP 403");
+	});
+});
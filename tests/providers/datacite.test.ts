@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { DataCiteProvider } from "../../src/providers/datacite";
+import { MockServer, startMockServer } from "../mock-server";
+
+const DOI = "10.5281/zenodo.1234";
+
+const ATTRIBUTES = {
+	titles: [{ title: "A Subtitle", titleType: "Subtitle" }, { title: "A Dataset" }],
+	creators: [
+		{
+			name: "Lovelace, Ada",
+			nameType: "Personal",
+			nameIdentifiers: [{ nameIdentifier: "https://orcid.org/0000-0002-1825-0097", nameIdentifierScheme: "ORCID" }],
+			affiliation: ["Analytical Society", { name: "Royal Institution" }],
+		},
+		{ givenName: "Alan", familyName: "Turing" },
+		{ name: "CERN, Geneva", nameType: "Organizational" },
+	],
+	descriptions: [{ description: "<p>About the data.</p>", descriptionType: "Abstract" }],
+	container: { title: "Zenodo Community", volume: "3", issue: "1", firstPage: "5", lastPage: "9" },
+	publisher: { name: "Zenodo" },
+	dates: [{ date: "2020-06-30", dateType: "Issued" }],
+	publicationYear: 2021,
+	subjects: [{ subject: "Physics" }],
+	relatedIdentifiers: [
+		{ relatedIdentifier: "2345-6789", relatedIdentifierType: "ISSN" },
+		{ relatedIdentifier: "10.1000/cited", relatedIdentifierType: "DOI", relationType: "References" },
+		{ relatedIdentifier: "10.1000/newer", relatedIdentifierType: "DOI", relationType: "IsCitedBy" },
+		{ relatedIdentifier: "10.5281/zenodo.1233", relatedIdentifierType: "DOI", relationType: "IsVersionOf" },
+	],
+	contentUrl: ["https://zenodo.org/files/data.csv", "https://zenodo.org/files/paper.pdf"],
+};
+
+describe("DataCiteProvider", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	it("maps a DOI record", async () => {
+		server = await startMockServer((path) => (path === `/dois/${DOI}` ? { body: { data: { attributes: ATTRIBUTES } } } : undefined));
+		const paper = await new DataCiteProvider(`${server.url}/dois/`).fetchByDoi(DOI);
+		expect(paper).toMatchObject({
+			title: "A Dataset",
+			authors: [
+				{
+					name: "Ada Lovelace",
+					given: "Ada",
+					family: "Lovelace",
+					orcid: "0000-0002-1825-0097",
+					affiliations: ["Analytical Society", "Royal Institution"],
+				},
+				{ name: "Alan Turing", given: "Alan", family: "Turing" },
+				{ name: "CERN, Geneva", given: "", family: "CERN, Geneva" },
+			],
+			abstract: "About the data.",
+			journal: "Zenodo Community",
+			volume: "3",
+			issue: "1",
+			pages: "5-9",
+			year: 2020,
+			month: 6,
+			doi: DOI,
+			pdfUrl: "https://zenodo.org/files/paper.pdf",
+			publisher: "Zenodo",
+			issn: ["2345-6789"],
+			subjects: ["Physics"],
+			source: "datacite",
+			relatedDois: ["10.5281/zenodo.1233"],
+			references: [{ doi: "10.1000/cited", title: "", author: "", year: "", journal: "", unstructured: "" }],
+		});
+	});
+
+	it("returns null for unknown DOIs", async () => {
+		server = await startMockServer(() => undefined);
+		expect(await new DataCiteProvider(`${server.url}/dois/`).fetchByDoi(DOI)).toBeNull();
+	});
+
+	it("throws on other errors", async () => {
+		server = await startMockServer(() => ({ status: 403, body: "Forbidden" }));
+		await expect(new DataCiteProvider(`${server.url}/dois/`).fetchByDoi(DOI)).rejects.toThrow("HTTP 403");
+	});
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { OpenAlexProvider } from "../../src/providers/openalex";
+import { MockServer, startMockServer } from "../mock-server";
+
+const DOI = "10.1000/xyz.123";
+
+const WORK = {
+	title: "A Study of Things",
+	authorships: [
+		{
+			author: { display_name: "Ada Lovelace", orcid: "https://orcid.org/0000-0002-1825-0097" },
+			author_position: "first",
+			institutions: [{ display_name: "Analytical Society" }],
+		},
+		{ author: { display_name: "Alan Turing", orcid: null }, author_position: "last" },
+	],
+	abstract_inverted_index: { An: [0], abstract: [1], about: [2], things: [3] },
+	primary_location: { source: { display_name: "Journal of Studies", host_organization_name: "Publisher", issn: ["1234-5678"] } },
+	best_oa_location: { pdf_url: "https://example.org/paper.pdf" },
+	biblio: { volume: "8", issue: "2", first_page: "15", last_page: "30" },
+	publication_year: 2018,
+	publication_date: "2018-04-02",
+	keywords: [{ display_name: "Computing" }],
+};
+
+describe("OpenAlexProvider", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	it("maps a work and rebuilds the abstract", async () => {
+		server = await startMockServer((path) => (path === `/works/doi:${DOI}` ? { body: WORK } : undefined));
+		const paper = await new OpenAlexProvider(`${server.url}/works/`).fetchByDoi(DOI);
+		expect(paper).toMatchObject({
+			title: "A Study of Things",
+			authors: [
+				{ name: "Ada Lovelace", family: "Lovelace", orcid: "0000-0002-1825-0097", affiliations: ["Analytical Society"], sequence: "first" },
+				{ name: "Alan Turing", family: "Turing", orcid: "", affiliations: [], sequence: "additional" },
+			],
+			abstract: "An abstract about things",
+			journal: "Journal of Studies",
+			volume: "8",
+			issue: "2",
+			pages: "15-30",
+			year: 2018,
+			month: 4,
+			doi: DOI,
+			pdfUrl: "https://example.org/paper.pdf",
+			publisher: "Publisher",
+			issn: ["1234-5678"],
+			subjects: ["Computing"],
+			source: "openalex",
+		});
+	});
+
+	it("returns null for unknown DOIs", async () => {
+		server = await startMockServer(() => undefined);
+		expect(await new OpenAlexProvider(`${server.url}/works/`).fetchByDoi(DOI)).toBeNull();
+	});
+
+	it("throws on other errors", async () => {
+		server = await startMockServer(() => ({ status: 403, body: "Forbidden" }));
+		await expect(new OpenAlexProvider(`${server.url}/works/`).fetchByDoi(DOI)).rejects.toThrow("HTTP 403");
+	});
+});
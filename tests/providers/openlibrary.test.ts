@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { OpenLibraryProvider } from "../../src/providers/openlibrary";
+import { MockServer, startMockServer } from "../mock-server";
+
+const ISBN = "9780306406157";
+
+const DETAILS = {
+	title: "Collected Papers",
+	subtitle: "A Reader",
+	contributors: [{ role: "Editor", name: "Jane Doe" }, { role: "Illustrator", name: "John Roe" }],
+	publishers: ["Plenum"],
+	publish_date: "September 1, 1994",
+	edition_name: "2nd ed.",
+	isbn_10: ["0306406152"],
+	subjects: ["Physics", { name: "Chemistry" }],
+	description: { value: "A reader. " },
+};
+
+describe("OpenLibraryProvider", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	it("maps an edition record", async () => {
+		server = await startMockServer((path) => (path === `/api/books?format=json&jscmd=details&bibkeys=ISBN:${ISBN}`
+			? { body: { [`ISBN:${ISBN}`]: { details: DETAILS, info_url: "https://openlibrary.org/books/OL1M" } } }
+			: undefined));
+		expect(await new OpenLibraryProvider(`${server.url}/api/books`).fetchByIsbn(ISBN)).toMatchObject({
+			title: "Collected Papers: A Reader",
+			authors: [],
+			editors: [{ name: "Jane Doe", given: "Jane", family: "Doe" }],
+			abstract: "A reader.",
+			year: 1994,
+			month: 9,
+			doiUrl: "https://openlibrary.org/books/OL1M",
+			publisher: "Plenum",
+			edition: "2nd ed.",
+			isbn: [ISBN],
+			subjects: ["Physics", "Chemistry"],
+			type: "edited-book",
+			source: "openlibrary",
+		});
+	});
+
+	it("returns null for ISBNs left out of the answer", async () => {
+		server = await startMockServer(() => ({ body: {} }));
+		expect(await new OpenLibraryProvider(`${server.url}/api/books`).fetchByIsbn(ISBN)).toBeNull();
+	});
+});
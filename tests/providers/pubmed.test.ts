@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { PubMedProvider } from "../../src/providers/pubmed";
+import { MockServer, startMockServer } from "../mock-server";
+
+const ARTICLE = `<?xml version="1.0" ?>
+<PubmedArticleSet>
+	<PubmedArticle>
+		<MedlineCitation>
+			<PMID>31452104</PMID>
+			<Article>
+				<Journal>
+					<ISSN IssnType="Electronic">1476-4687</ISSN>
+					<JournalIssue>
+						<Volume>572</Volume>
+						<Issue>7769</Issue>
+						<PubDate><MedlineDate>2019 Aug-Sep</MedlineDate></PubDate>
+					</JournalIssue>
+					<Title>Nature</Title>
+				</Journal>
+				<ArticleTitle>A study of things.</ArticleTitle>
+				<Pagination><MedlinePgn>345-349</MedlinePgn></Pagination>
+				<Abstract>
+					<AbstractText Label="BACKGROUND">Why.</AbstractText>
+					<AbstractText Label="RESULTS">What.</AbstractText>
+				</Abstract>
+				<AuthorList>
+					<Author>
+						<LastName>Lovelace</LastName><ForeName>Ada</ForeName>
+						<Identifier Source="ORCID">0000-0002-1825-0097</Identifier>
+						<AffiliationInfo><Affiliation>Analytical Society</Affiliation></AffiliationInfo>
+					</Author>
+					<Author><CollectiveName>The Consortium</CollectiveName></Author>
+				</AuthorList>
+			</Article>
+			<KeywordList><Keyword>things</Keyword></KeywordList>
+		</MedlineCitation>
+		<PubmedData>
+			<ArticleIdList>
+				<ArticleId IdType="pubmed">31452104</ArticleId>
+				<ArticleId IdType="doi">10.1038/s41586-019-1234-5</ArticleId>
+				<ArticleId IdType="pmc">PMC6814409</ArticleId>
+			</ArticleIdList>
+			<ReferenceList>
+				<Reference><ArticleIdList><ArticleId IdType="doi">10.1000/cited</ArticleId></ArticleIdList></Reference>
+			</ReferenceList>
+		</PubmedData>
+	</PubmedArticle>
+</PubmedArticleSet>`;
+
+describe("PubMedProvider", () => {
+	let server: MockServer;
+	afterEach(() => server.close());
+
+	const provider = () => new PubMedProvider(`${server.url}/efetch.fcgi`, `${server.url}/idconv/`);
+
+	it("maps a PubMed article", async () => {
+		server = await startMockServer((path) => (path === "/efetch.fcgi?db=pubmed&retmode=xml&id=31452104" ? { body: ARTICLE } : undefined));
+		expect(await provider().fetchByPmid("31452104")).toMatchObject({
+			title: "A study of things",
+			authors: [
+				{ name: "Ada Lovelace", given: "Ada", family: "Lovelace", orcid: "0000-0002-1825-0097", affiliations: ["Analytical Society"] },
+				{ name: "The Consortium" },
+			],
+			abstract: "BACKGROUND: Why.\n\nRESULTS: What.",
+			journal: "Nature",
+			volume: "572",
+			issue: "7769",
+			pages: "345-349",
+			year: 2019,
+			month: 8,
+			doi: "10.1038/s41586-019-1234-5",
+			issn: ["1476-4687"],
+			subjects: ["things"],
+			source: "pubmed",
+			pmid: "31452104",
+			pmcid: "PMC6814409",
+		});
+	});
+
+	it("returns null for unknown PubMed IDs", async () => {
+		server = await startMockServer(() => ({ status: 400, body: "Bad request" }));
+		expect(await provider().fetchByPmid("0")).toBeNull();
+	});
+
+	it("resolves PMCIDs to PubMed IDs and DOIs", async () => {
+		server = await startMockServer((path) => {
+			if (path === "/idconv/?format=json&ids=PMC6814409") return { body: { records: [{ pmid: "31452104", doi: "10.1038/x" }] } };
+			return { body: { records: [{ status: "error" }] } };
+		});
+		expect(await provider().idsForPmcid("PMC6814409")).toEqual({ pmid: "31452104", doi: "10.1038/x" });
+		expect(await provider().idsForPmcid("PMC1")).toBeNull();
+	});
+});
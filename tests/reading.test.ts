@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { nextReadingStatus } from "../src/reading";
+
+describe("nextReadingStatus", () => {
+	it("moves along the workflow and stops when summarised", () => {
+		expect(nextReadingStatus("to-read")).toBe("reading");
+		expect(nextReadingStatus("reading")).toBe("read");
+		expect(nextReadingStatus("read")).toBe("summarised");
+		expect(nextReadingStatus("summarised")).toBeNull();
+	});
+
+	it("starts notes without a known status at to-read", () => {
+		expect(nextReadingStatus("")).toBe("to-read");
+		expect(nextReadingStatus("inbox")).toBe("to-read");
+	});
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { TemplateError, renderTemplate } from "../src/template";
+
+const context = {
+	title: "Deep Learning: A Review",
+	authors: ["Ada Lovelace", "Alan Turing"],
+	year: 2021,
+	abstract: "",
+	pdf: null,
+};
+
+describe("renderTemplate", () => {
+	it("applies filters", () => {
+		expect(renderTemplate("{{authors | first | surname}}_{{year}}", context)).toBe("Lovelace_2021");
+		expect(renderTemplate("{{title | slug | truncate:13}}", context)).toBe("deep-learning");
+		expect(renderTemplate(`{{authors | join:" and " | upper}}`, context)).toBe("ADA LOVELACE AND ALAN TURING");
+		expect(renderTemplate(`{{abstract | default:"none"}}`, context)).toBe("none");
+	});
+
+	it("renders conditionals and loops, dropping lines of standalone block tags", () => {
+		const template = [
+			"# {{title}}",
+			"{{#if abstract}}",
+			"{{abstract}}",
+			"{{else}}",
+			"No abstract.",
+			"{{/if}}",
+			"{{#each authors}}{{@number}}. {{this}}{{#unless @last}}; {{/unless}}{{/each}}",
+		].join("\n");
+		expect(renderTemplate(template, context)).toBe("# Deep Learning: A Review\nNo abstract.\n1. Ada Lovelace; 2. Alan Turing");
+	});
+
+	it("matches token names case-insensitively", () => {
+		expect(renderTemplate("{{Title | upper}}", context)).toBe("DEEP LEARNING: A REVIEW");
+	});
+
+	it("rejects unknown tokens, even in branches that are not taken", () => {
+		expect(() => renderTemplate("{{#if pdf}}{{titel}}{{/if}}", context)).toThrow(new TemplateError(`Unknown token "titel"`, 1));
+		expect(() => renderTemplate("{{date:YYYY}}", context)).toThrow(new TemplateError(`Invalid token "date:YYYY"`, 1));
+	});
+
+	it("reports syntax errors with their line", () => {
+		expect(() => renderTemplate("a\n{{title | shout}}", context)).toThrow(/Unknown filter "shout".*\(line 2\)/);
+		expect(() => renderTemplate("{{#if pdf}}\n{{/each}}", context)).toThrow("{{/each}} closes {{#if}} from line 1 (line 2)");
+		expect(() => renderTemplate("{{#each authors}}", context)).toThrow("{{#each}} is never closed (line 1)");
+	});
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { importUri, parseImportRequest } from "../src/uri";
+
+describe("parseImportRequest", () => {
+	it("reads the identifier and import options", () => {
+		expect(parseImportRequest({ action: "easy-paper-importer", doi: " 10.1000/xyz ", folder: "Inbox", tags: "#ml, reading,", template: "T.md" })).toEqual({
+			input: "10.1000/xyz",
+			options: { folder: "Inbox", tags: ["ml", "reading"], template: "T.md" },
+		});
+	});
+
+	it("takes arXiv IDs, PubMed IDs and page URLs as they are", () => {
+		expect(parseImportRequest({ action: "easy-paper-importer", arxiv: "2401.01234" }).input).toBe("2401.01234");
+		expect(parseImportRequest({ action: "easy-paper-importer", pmcid: "PMC6814409" }).input).toBe("PMC6814409");
+		expect(parseImportRequest({ action: "easy-paper-importer", url: "https://doi.org/10.1000/abc" })).toEqual({
+			input: "https://doi.org/10.1000/abc",
+			options: { folder: undefined, tags: undefined, template: undefined },
+		});
+	});
+
+	it("reads back the links it builds", () => {
+		const params = new URL(importUri("10.1000/a&b")).searchParams;
+		expect(parseImportRequest({ action: "easy-paper-importer", doi: params.get("doi") ?? "" }).input).toBe("10.1000/a&b");
+	});
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseZoteroExport } from "../src/zotero";
+
+describe("parseZoteroExport", () => {
+	it("reads Better BibTeX JSON with collections, tags and the Extra field", () => {
+		const items = parseZoteroExport(JSON.stringify({
+			collections: {
+				C1: { key: "C1", name: "Thesis", parent: false },
+				C2: { key: "C2", name: "Chapter 2", parent: "C1" },
+			},
+			items: [
+				{
+					itemID: 1,
+					itemKey: "ABCD1234",
+					citationKey: "lovelace1843",
+					itemType: "journalArticle",
+					title: "Notes",
+					creators: [
+						{ creatorType: "author", firstName: "Ada", lastName: "Lovelace" },
+						{ creatorType: "editor", firstName: "Charles", lastName: "Babbage" },
+					],
+					date: "1843-09",
+					publicationTitle: "Scientific Memoirs",
+					pages: "666–731",
+					DOI: "https://doi.org/10.1000/ada",
+					extra: "PMID: 123456\narXiv: 2401.01234v2",
+					tags: [{ tag: "Computing History" }, "engines"],
+					collections: ["C2"],
+				},
+				{ itemID: 2, itemKey: "ATTACH01", itemType: "attachment", title: "PDF" },
+			],
+		}), "library.json");
+
+		expect(items).toHaveLength(1);
+		const [item] = items;
+		expect(item).toMatchObject({ key: "ABCD1234", folder: "Thesis/Chapter 2" });
+		expect(item!.tags).toHaveLength(2);
+		expect(item!.paper.authors.map((a) => a.name)).toEqual(["Ada Lovelace"]);
+		expect(item!.paper.editors.map((a) => a.name)).toEqual(["Charles Babbage"]);
+		expect(item!.paper).toMatchObject({
+			title: "Notes",
+			journal: "Scientific Memoirs",
+			pages: "666-731",
+			year: 1843,
+			month: 9,
+			doi: "10.1000/ada",
+			pmid: "123456",
+			arxivId: "2401.01234",
+			arxivVersion: "v2",
+			type: "journal-article",
+			citekey: "lovelace1843",
+		});
+	});
+
+	it("finds collections of older exports that list their items", () => {
+		const [item] = parseZoteroExport(JSON.stringify({
+			collections: { C1: { key: "C1", name: "Reading", parent: false, items: [7] } },
+			items: [{ itemID: 7, itemKey: "KEY00007", itemType: "book", title: "A Book" }],
+		}), "library.json");
+		expect(item).toMatchObject({ key: "KEY00007", folder: "Reading" });
+	});
+
+	it("keys Zotero CSL-JSON items by their item key", () => {
+		const items = parseZoteroExport(JSON.stringify([
+			{ id: "http://zotero.org/users/1/items/ZXCV5678", type: "book", title: "Zotero" },
+			{ id: "smith2020", type: "book", title: "Better CSL" },
+		]), "library.json");
+		expect(items.map((i) => [i.key, i.folder])).toEqual([["ZXCV5678", null], ["smith2020", null]]);
+	});
+
+	it("reads CSL-JSON numbers and skips items it cannot read", () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		const items = parseZoteroExport(JSON.stringify([
+			{ id: "bad2020", type: "book", author: "Jane Doe" },
+			{ id: "good2020", type: "article-journal", title: "Numbers", page: 42, number: 3 },
+		]), "library.json");
+		expect(items.map((i) => [i.key, i.paper.pages])).toEqual([["good2020", "42"]]);
+		expect(error).toHaveBeenCalledOnce();
+		error.mockRestore();
+	});
+
+	it("keys BibTeX items by their citation key", () => {
+		const [item] = parseZoteroExport("@book{knuth1984, title = {The {TeX}book}, author = {Knuth, Donald E.}, keywords = {typesetting}}", "library.bib");
+		expect(item).toMatchObject({ key: "knuth1984", folder: null });
+		expect(item!.tags).toHaveLength(1);
+		expect(item!.paper.title).toBe("The TeXbook");
+	});
+});